@@ -7,7 +7,7 @@ import ReportListItem from "@/components/ReportListItem";
 import ManualResearchModal from "@/components/ManualResearchModal";
 import { useAuth } from "@/hooks/useAuth";
 import { motion, AnimatePresence } from "framer-motion";
-import { User, Menu, Search, LogOut, Filter, Bell, X, Eye, Sparkles } from "lucide-react";
+import { User, Menu, Search, LogOut, Filter, Bell, X, Eye, Sparkles, Cpu } from "lucide-react";
 import { auth } from "@/lib/firebase";
 import FilterModal from "@/components/FilterModal";
 
@@ -17,6 +17,7 @@ import { DeveloperProvider, useDeveloper } from "@/components/DeveloperTools";
 import BackendStatusBadge from "@/components/BackendStatusBadge";
 import OrchestratorLogViewer from "@/components/OrchestratorLogViewer";
 import AISuggestionsViewer from "@/components/AISuggestionsViewer";
+import ModelConfigEditor from "@/components/ModelConfigEditor";
 
 // Notification Bell Component
 function NotificationBell() {
@@ -258,6 +259,7 @@ function DashboardContent() {
     });
     const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
     const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+    const [isModelConfigOpen, setIsModelConfigOpen] = useState(false);
 
     const [greetingText, setGreetingText] = useState('');
     const fullGreeting = "Assalamualaikum,";
@@ -416,6 +418,16 @@ function DashboardContent() {
                                 <Sparkles className="w-5 h-5" />
                             </button>
                         )}
+                        {/* Model Chain Config - Dev Mode Only */}
+                        {isDevMode && (
+                            <button
+                                onClick={() => setIsModelConfigOpen(true)}
+                                className="relative p-2 text-gray-400 hover:text-blue-400 transition-colors"
+                                title="Model Chains"
+                            >
+                                <Cpu className="w-5 h-5" />
+                            </button>
+                        )}
                         <NotificationBell />
                         <button
                             onClick={() => setIsModalOpen(true)}
@@ -434,6 +446,12 @@ function DashboardContent() {
                 onClose={() => setIsSuggestionsOpen(false)}
             />
 
+            {/* Model Chain Config Modal */}
+            <ModelConfigEditor
+                isOpen={isModelConfigOpen}
+                onClose={() => setIsModelConfigOpen(false)}
+            />
+
             {/* KPI Summary Cards */}
             <div className="grid grid-cols-3 gap-4 mb-12">
                 <div className="bg-gray-900/30 border border-white/5 p-4 rounded-lg flex flex-col items-center justify-center text-center w-full">
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
-import { ArrowLeft, ExternalLink, FileText, Youtube, Search, Database } from 'lucide-react';
+import { ArrowLeft, ExternalLink, FileText, Youtube, Search, Database, RotateCcw, Repeat, Coins, Cpu } from 'lucide-react';
 
 interface LogEntry {
     timestamp: number;
@@ -24,6 +24,45 @@ interface LogVideo {
     transcript: string;
 }
 
+// LLM usage rolled up by the backend (PipelineSummary in pipelineLogger.ts)
+interface ModelUsage {
+    provider: string;
+    model: string;
+    requests: number;
+    tokensIn: number;
+    tokensOut: number;
+    cost: number;
+}
+
+interface LogUsage {
+    llmRequests: number;
+    llmCacheHits?: number;  // Missing on runs before the LLM cache existed
+    tokensIn: number;
+    tokensOut: number;
+    estimatedCost: number;
+    usageByModel: ModelUsage[];
+}
+
+// Every provider call of a step, in order (StepModelAttempts in pipelineLogger.ts)
+interface ModelAttempt {
+    order: number;
+    provider: string;
+    model: string;
+    status: 'success' | 'failed';
+    duration: number;
+    tokensIn?: number;
+    tokensOut?: number;
+    responsePreview?: string;
+    contextTrim?: { promptTokens: number; droppedTokens: number; droppedLines: number };  // Prompt cut to fit the model
+    error?: { type: string; code: string; message: string };
+}
+
+interface StepModelAttempts {
+    stepId: string;
+    name: string;
+    attempts: ModelAttempt[];
+}
+
 interface LogReport {
     id: string;
     topic: string;
@@ -35,6 +74,10 @@ interface LogReport {
     orchestratorLogs?: LogEntry[]; // V3 logs
     userId: string;
     isPublic: boolean;
+    status?: string;
+    error?: string;
+    usage?: LogUsage;
+    modelAttempts?: StepModelAttempts[];
 }
 
 export default function LogsPage({ params }: { params: { id: string } }) {
@@ -43,6 +86,8 @@ export default function LogsPage({ params }: { params: { id: string } }) {
     const [accessDenied, setAccessDenied] = useState(false);
     const { user, loading: authLoading } = useAuth();
     const [expandedVideo, setExpandedVideo] = useState<string | null>(null);
+    const [resuming, setResuming] = useState(false);
+    const [resumeError, setResumeError] = useState<string | null>(null);
 
     useEffect(() => {
         let unsubscribe: (() => void) | undefined;
@@ -85,7 +130,12 @@ export default function LogsPage({ params }: { params: { id: string } }) {
                             sources: data.sources || [],
                             logs: data.orchestratorLogs || data.logs || [], // Prefer orchestratorLogs
                             userId: ownerId,
-                            isPublic: isPublic
+                            isPublic: isPublic,
+                            status: data.status,
+                            error: data.error,
+                            // Reports from before usage tracking have no llmRequests
+                            usage: data.pipelineSummary?.llmRequests !== undefined ? data.pipelineSummary : undefined,
+                            modelAttempts: data.modelAttempts || []
                         });
                         setLoading(false);
                     } else {
@@ -109,6 +159,25 @@ export default function LogsPage({ params }: { params: { id: string } }) {
         };
     }, [params.id, user, authLoading]);
 
+    // Restart a failed or cancelled run from its first incomplete step (completed steps are restored from checkpoints)
+    const handleResume = async () => {
+        setResuming(true);
+        setResumeError(null);
+        try {
+            const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:7860';
+            const res = await fetch(`${backendUrl}/v3/runs/${params.id}/resume`, { method: 'POST' });
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error || `Resume failed (${res.status})`);
+            }
+        } catch (e) {
+            console.error("Failed to resume run:", e);
+            setResumeError(e instanceof Error ? e.message : 'Resume failed');
+        } finally {
+            setResuming(false);
+        }
+    };
+
     if (loading || authLoading) {
         return (
             <div className="min-h-screen flex items-center justify-center bg-black text-white font-mono animate-pulse">
@@ -135,6 +204,9 @@ export default function LogsPage({ params }: { params: { id: string } }) {
         );
     }
 
+    // One 'workflow' log per upstream rerun chain (see researchWorkflow.ts onRerun)
+    const rerunChains = (report.logs || []).filter(log => log.step === 'workflow' && log.data?.rerunChain);
+
     return (
         <main className="min-h-screen bg-black text-white p-6 md:p-12 max-w-6xl mx-auto font-sans">
             {/* Header */}
@@ -150,8 +222,141 @@ export default function LogsPage({ params }: { params: { id: string } }) {
                 <p className="text-gray-400 font-mono text-sm">
                     Raw intelligence data for: <span className="text-white">{report.topic}</span>
                 </p>
+
+                {/* Resume failed run (owner only) */}
+                {(report.status === 'failed' || report.status === 'cancelled') && user?.uid === report.userId && (
+                    <div className="mt-4 flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={handleResume}
+                            disabled={resuming}
+                            className="flex items-center gap-2 px-4 py-2 bg-primary text-black text-xs font-bold uppercase tracking-wider rounded hover:opacity-90 disabled:opacity-50 transition-opacity"
+                        >
+                            <RotateCcw className={`w-4 h-4 ${resuming ? 'animate-spin' : ''}`} />
+                            {resuming ? 'Resuming...' : 'Resume'}
+                        </button>
+                        <span className="text-xs text-red-400 font-mono">
+                            {resumeError || report.error || (report.status === 'cancelled' ? 'Run cancelled' : 'Run failed')}
+                        </span>
+                    </div>
+                )}
             </div>
 
+            {/* Upstream Rerun Chains (orchestrator re-ran an earlier step and its dependents) */}
+            {rerunChains.length > 0 && (
+                <div className="mb-8">
+                    <section className="bg-gray-900/50 border border-purple-900/50 rounded-lg p-6">
+                        <div className="flex items-center gap-2 mb-4 text-purple-400">
+                            <Repeat className="w-5 h-5" />
+                            <h2 className="font-bold uppercase tracking-wider text-sm">Rerun Chains ({rerunChains.length})</h2>
+                        </div>
+                        <div className="space-y-3 font-mono text-xs">
+                            {rerunChains.map((chain, i) => (
+                                <div key={i} className="p-3 rounded bg-purple-900/20 border border-purple-900/40">
+                                    <div className="flex flex-wrap items-center gap-2 text-purple-300">
+                                        <span className="text-gray-500">#{chain.data.rerunChain}</span>
+                                        <span className="uppercase">{chain.data.requestedBy}</span>
+                                        <span className="text-gray-500">→</span>
+                                        <span className="uppercase font-bold">{chain.data.rerunStep}</span>
+                                        <span className="opacity-50 ml-auto">{new Date(chain.timestamp).toLocaleTimeString()}</span>
+                                    </div>
+                                    {chain.data.reason && <p className="mt-1 text-gray-400">{chain.data.reason}</p>}
+                                    {Array.isArray(chain.data.invalidated) && (
+                                        <div className="mt-2 flex flex-wrap gap-1">
+                                            {chain.data.invalidated.map((stepKey: string) => (
+                                                <span key={stepKey} className="px-2 py-0.5 bg-gray-800 text-gray-300 rounded border border-gray-700 text-[10px] uppercase">
+                                                    {stepKey}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                </div>
+            )}
+
+            {/* LLM Usage & Estimated Cost */}
+            {report.usage && (
+                <div className="mb-8">
+                    <section className="bg-gray-900/50 border border-gray-800 rounded-lg p-6">
+                        <div className="flex items-center gap-2 mb-4 text-primary">
+                            <Coins className="w-5 h-5" />
+                            <h2 className="font-bold uppercase tracking-wider text-sm">Model Usage</h2>
+                            <span className="ml-auto font-mono text-sm text-white">~${report.usage.estimatedCost.toFixed(4)}</span>
+                        </div>
+                        <p className="font-mono text-xs text-gray-400 mb-4">
+                            {report.usage.llmRequests} requests{report.usage.llmCacheHits ? ` · ${report.usage.llmCacheHits} cache hits` : ''} · {report.usage.tokensIn.toLocaleString()} tokens in · {report.usage.tokensOut.toLocaleString()} tokens out
+                        </p>
+                        {report.usage.usageByModel.length > 0 && (
+                            <table className="w-full font-mono text-xs">
+                                <thead>
+                                    <tr className="text-gray-500 text-left uppercase text-[10px]">
+                                        <th className="pb-2 font-normal">Model</th>
+                                        <th className="pb-2 font-normal text-right">Requests</th>
+                                        <th className="pb-2 font-normal text-right">Tokens In</th>
+                                        <th className="pb-2 font-normal text-right">Tokens Out</th>
+                                        <th className="pb-2 font-normal text-right">Est. Cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-gray-300">
+                                    {report.usage.usageByModel.map(usage => (
+                                        <tr key={`${usage.provider}/${usage.model}`} className="border-t border-gray-800">
+                                            <td className="py-1.5"><span className="text-gray-500">{usage.provider}/</span>{usage.model}</td>
+                                            <td className="py-1.5 text-right">{usage.requests}</td>
+                                            <td className="py-1.5 text-right">{usage.tokensIn.toLocaleString()}</td>
+                                            <td className="py-1.5 text-right">{usage.tokensOut.toLocaleString()}</td>
+                                            <td className="py-1.5 text-right">${usage.cost.toFixed(4)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </section>
+                </div>
+            )}
+
+            {/* Model Attempts per step (fallback chains) */}
+            {report.modelAttempts && report.modelAttempts.length > 0 && (
+                <div className="mb-8">
+                    <section className="bg-gray-900/50 border border-gray-800 rounded-lg p-6">
+                        <div className="flex items-center gap-2 mb-4 text-primary">
+                            <Cpu className="w-5 h-5" />
+                            <h2 className="font-bold uppercase tracking-wider text-sm">Model Attempts</h2>
+                        </div>
+                        <div className="space-y-4 max-h-96 overflow-y-auto font-mono text-xs">
+                            {report.modelAttempts.map(step => (
+                                <div key={step.stepId}>
+                                    <p className="text-gray-500 uppercase text-[10px] mb-1">{step.name}</p>
+                                    {step.attempts.map(attempt => (
+                                        <div
+                                            key={attempt.order}
+                                            title={attempt.responsePreview}
+                                            className={`flex gap-3 p-2 rounded ${attempt.status === 'failed' ? 'bg-red-900/20 text-red-400' : 'text-gray-300'}`}
+                                        >
+                                            <span className="opacity-50 w-6 shrink-0">#{attempt.order}</span>
+                                            <span className="min-w-[220px] shrink-0"><span className="text-gray-500">{attempt.provider}/</span>{attempt.model}</span>
+                                            <span className="w-16 shrink-0 text-right">{(attempt.duration / 1000).toFixed(1)}s</span>
+                                            <span className="w-28 shrink-0 text-right text-gray-500">
+                                                {attempt.tokensIn || attempt.tokensOut ? `${attempt.tokensIn ?? 0}/${attempt.tokensOut ?? 0} tok` : ''}
+                                            </span>
+                                            <span className="flex-1 truncate">
+                                                {attempt.contextTrim && (
+                                                    <span className="text-yellow-400 mr-2">
+                                                        trimmed ~{attempt.contextTrim.droppedTokens}/{attempt.contextTrim.promptTokens} tok ({attempt.contextTrim.droppedLines} lines)
+                                                    </span>
+                                                )}
+                                                {attempt.error ? `${attempt.error.type}: ${attempt.error.message}` : '✓'}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                </div>
+            )}
+
             {/* Execution Timeline (New) */}
             <div className="mb-8">
                 <section className="bg-gray-900/50 border border-gray-800 rounded-lg p-6">
@@ -9,7 +9,39 @@ interface ManualResearchModalProps {
     onClose: () => void;
 }
 
+type ProfileName = 'quick' | 'standard' | 'deep';
+type LimitKey = 'maxArticlesToScrape' | 'maxVideoQueries' | 'videosPerQuery' | 'maxVideosToTranscribe' | 'maxFactSources';
 
+// Mirrors RESEARCH_PROFILES in the backend (researchProfiles.ts)
+const PROFILES: Record<ProfileName, { label: string; description: string; videos: boolean; limits: Record<LimitKey, number> }> = {
+    quick: {
+        label: 'Quick',
+        description: 'News only, key facts - no video or deep analysis',
+        videos: false,
+        limits: { maxArticlesToScrape: 3, maxVideoQueries: 3, videosPerQuery: 2, maxVideosToTranscribe: 2, maxFactSources: 10 }
+    },
+    standard: {
+        label: 'Standard',
+        description: 'News + video research with full analysis',
+        videos: true,
+        limits: { maxArticlesToScrape: 5, maxVideoQueries: 5, videosPerQuery: 3, maxVideosToTranscribe: 3, maxFactSources: 15 }
+    },
+    deep: {
+        label: 'Deep',
+        description: 'Wider search on every source - slower, uses more quota',
+        videos: true,
+        limits: { maxArticlesToScrape: 10, maxVideoQueries: 8, videosPerQuery: 5, maxVideosToTranscribe: 6, maxFactSources: 30 }
+    }
+};
+
+// Same bounds the backend validates against
+const LIMIT_FIELDS: { key: LimitKey; label: string; min: number; max: number; video?: boolean }[] = [
+    { key: 'maxArticlesToScrape', label: 'Articles scraped', min: 1, max: 20 },
+    { key: 'maxVideoQueries', label: 'Video queries', min: 1, max: 10, video: true },
+    { key: 'videosPerQuery', label: 'Videos per query', min: 1, max: 10, video: true },
+    { key: 'maxVideosToTranscribe', label: 'Videos transcribed', min: 1, max: 10, video: true },
+    { key: 'maxFactSources', label: 'Sources for key facts', min: 5, max: 50 }
+];
 
 const Toggle = ({ checked, onChange, label }: { checked: boolean; onChange: (checked: boolean) => void; label: string }) => (
     <div
@@ -48,6 +80,9 @@ export default function ManualResearchModal({ isOpen, onClose }: ManualResearchM
         worldwide: false
     });
     const [isPublic, setIsPublic] = useState(false);
+    const [profile, setProfile] = useState<ProfileName>('standard');
+    const [customize, setCustomize] = useState(false);
+    const [limits, setLimits] = useState<Record<LimitKey, number>>(PROFILES.standard.limits);
     const [isStarting, setIsStarting] = useState(false);
     const { startScan } = useNotifications();
     const { user } = useAuth();
@@ -78,6 +113,22 @@ export default function ManualResearchModal({ isOpen, onClose }: ManualResearchM
         }
     };
 
+    const handleProfileChange = (name: ProfileName) => {
+        setProfile(name);
+        setLimits(PROFILES[name].limits);
+    };
+
+    // Only send the limits that differ from the chosen profile
+    const getProfileOverrides = () => {
+        if (!customize) return undefined;
+        const overrides = LIMIT_FIELDS.reduce<Partial<Record<LimitKey, number>>>((acc, { key, min, max }) => {
+            const value = Math.min(max, Math.max(min, Math.round(limits[key])));
+            if (value !== PROFILES[profile].limits[key]) acc[key] = value;
+            return acc;
+        }, {});
+        return Object.keys(overrides).length > 0 ? overrides : undefined;
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -92,7 +143,9 @@ export default function ManualResearchModal({ isOpen, onClose }: ManualResearchM
         await startScan(topic, {
             regions,
             isPublic,
-            userId: user.uid
+            userId: user.uid,
+            profile,
+            profileOverrides: getProfileOverrides()
         });
 
         handleClose();
@@ -104,6 +157,9 @@ export default function ManualResearchModal({ isOpen, onClose }: ManualResearchM
             setTopic('');
             setRegions({ pakistan: true, palestine: false, worldwide: false });
             setIsPublic(false);
+            setProfile('standard');
+            setCustomize(false);
+            setLimits(PROFILES.standard.limits);
             setIsStarting(false);
         }, 500);
     };
@@ -179,6 +235,50 @@ export default function ManualResearchModal({ isOpen, onClose }: ManualResearchM
                                     />
                                 </div>
 
+                                <div className="bg-gray-900/50 p-4 border border-white/5 rounded-lg mb-4">
+                                    <span className="block text-gray-300 text-sm font-medium mb-3">Research Depth</span>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {(Object.keys(PROFILES) as ProfileName[]).map(name => (
+                                            <button
+                                                key={name}
+                                                type="button"
+                                                onClick={() => handleProfileChange(name)}
+                                                className={`py-2 text-xs font-bold uppercase tracking-widest border transition-colors ${profile === name ? 'bg-primary border-primary text-black' : 'border-white/20 text-gray-400 hover:border-white hover:text-white'}`}
+                                            >
+                                                {PROFILES[name].label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-gray-500 text-xs mt-2">{PROFILES[profile].description}</p>
+
+                                    <Toggle
+                                        label="Customize Limits"
+                                        checked={customize}
+                                        onChange={setCustomize}
+                                    />
+                                    {customize && (
+                                        <div className="space-y-2 pt-1">
+                                            {LIMIT_FIELDS.map(({ key, label, min, max, video }) => (
+                                                <label
+                                                    key={key}
+                                                    className={`flex items-center justify-between text-sm ${video && !PROFILES[profile].videos ? 'opacity-40' : ''}`}
+                                                >
+                                                    <span className="text-gray-400">{label}</span>
+                                                    <input
+                                                        type="number"
+                                                        min={min}
+                                                        max={max}
+                                                        value={limits[key]}
+                                                        onChange={(e) => setLimits(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                                                        disabled={video && !PROFILES[profile].videos}
+                                                        className="w-20 bg-gray-900 border border-white/30 text-white p-1 text-right focus:border-primary focus:outline-none"
+                                                    />
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
                                 <div className="bg-gray-900/50 p-4 border border-white/5 rounded-lg">
                                     <Toggle
                                         label="Make Report Public"
@@ -0,0 +1,385 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { auth } from '@/lib/firebase';
+import { motion } from 'framer-motion';
+import {
+    Cpu,
+    X,
+    Plus,
+    Trash2,
+    ChevronUp,
+    ChevronDown,
+    RotateCcw,
+    Save,
+    AlertTriangle
+} from 'lucide-react';
+
+// ============ TYPES ============
+
+interface ChainEntry {
+    provider: string;
+    model: string;
+}
+
+interface TaskModelConfig {
+    chain: ChainEntry[];
+    temperature?: number;
+    jsonMode?: boolean;
+    cache?: boolean;
+}
+
+interface ModelConfigResponse {
+    source: 'firestore' | 'file' | 'defaults';
+    loadedAt: string | null;
+    lastError: string | null;
+    config: { tasks: Record<string, TaskModelConfig>; updatedAt?: string; updatedBy?: string };
+    effective: Record<string, TaskModelConfig>;
+    defaults: Record<string, TaskModelConfig>;
+    providers: Array<{ name: string; configured: boolean }>;
+}
+
+interface ModelConfigEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:7860';
+
+// ============ TASK EDITOR ============
+
+function TaskEditor({ config, providers, onChange }: {
+    config: TaskModelConfig;
+    providers: ModelConfigResponse['providers'];
+    onChange: (config: TaskModelConfig) => void;
+}) {
+    const updateEntry = (index: number, entry: Partial<ChainEntry>) => {
+        onChange({ ...config, chain: config.chain.map((e, i) => i === index ? { ...e, ...entry } : e) });
+    };
+
+    const moveEntry = (index: number, offset: number) => {
+        const chain = [...config.chain];
+        const [entry] = chain.splice(index, 1);
+        chain.splice(index + offset, 0, entry);
+        onChange({ ...config, chain });
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Chain */}
+            <div>
+                <label className="text-[10px] text-gray-500 uppercase">Model Chain (tried in order)</label>
+                <div className="mt-1 space-y-2">
+                    {config.chain.map((entry, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                            <span className="w-4 text-[10px] text-gray-600 text-right">{i + 1}</span>
+                            <select
+                                value={entry.provider}
+                                onChange={(e) => updateEntry(i, { provider: e.target.value })}
+                                className="bg-black/30 border border-gray-800 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-blue-500"
+                            >
+                                {providers.map(p => (
+                                    <option key={p.name} value={p.name}>
+                                        {p.name}{p.configured ? '' : ' (not configured)'}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                value={entry.model}
+                                onChange={(e) => updateEntry(i, { model: e.target.value })}
+                                placeholder="model id"
+                                className="flex-1 min-w-0 bg-black/30 border border-gray-800 rounded px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-blue-500"
+                            />
+                            <button
+                                onClick={() => moveEntry(i, -1)}
+                                disabled={i === 0}
+                                className="p-1 text-gray-500 hover:text-white disabled:opacity-30 transition-colors"
+                                title="Move up"
+                            >
+                                <ChevronUp className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => moveEntry(i, 1)}
+                                disabled={i === config.chain.length - 1}
+                                className="p-1 text-gray-500 hover:text-white disabled:opacity-30 transition-colors"
+                                title="Move down"
+                            >
+                                <ChevronDown className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => onChange({ ...config, chain: config.chain.filter((_, j) => j !== i) })}
+                                className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                                title="Remove"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => onChange({ ...config, chain: [...config.chain, { provider: providers[0]?.name || 'groq', model: '' }] })}
+                    className="mt-2 flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                >
+                    <Plus className="w-3 h-3" /> Add model
+                </button>
+            </div>
+
+            {/* Temperature */}
+            <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={config.temperature !== undefined}
+                        onChange={(e) => onChange({ ...config, temperature: e.target.checked ? 0.3 : undefined })}
+                    />
+                    Temperature
+                </label>
+                {config.temperature !== undefined ? (
+                    <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={config.temperature}
+                        onChange={(e) => onChange({ ...config, temperature: Number(e.target.value) })}
+                        className="w-20 bg-black/30 border border-gray-800 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+                    />
+                ) : (
+                    <span className="text-[10px] text-gray-600">caller decides</span>
+                )}
+            </div>
+
+            {/* JSON mode */}
+            <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={config.jsonMode !== undefined}
+                        onChange={(e) => onChange({ ...config, jsonMode: e.target.checked ? true : undefined })}
+                    />
+                    Default JSON mode
+                </label>
+                {config.jsonMode !== undefined ? (
+                    <select
+                        value={config.jsonMode ? 'on' : 'off'}
+                        onChange={(e) => onChange({ ...config, jsonMode: e.target.value === 'on' })}
+                        className="bg-black/30 border border-gray-800 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+                    >
+                        <option value="on">on</option>
+                        <option value="off">off</option>
+                    </select>
+                ) : (
+                    <span className="text-[10px] text-gray-600">caller decides</span>
+                )}
+            </div>
+
+            {/* Response cache opt-out */}
+            <label className="flex items-center gap-2 text-xs text-gray-300">
+                <input
+                    type="checkbox"
+                    checked={config.cache !== false}
+                    onChange={(e) => onChange({ ...config, cache: e.target.checked ? undefined : false })}
+                />
+                Cache responses
+                <span className="text-[10px] text-gray-600">(when LLM_CACHE is on)</span>
+            </label>
+        </div>
+    );
+}
+
+// ============ MAIN COMPONENT ============
+
+export default function ModelConfigEditor({ isOpen, onClose }: ModelConfigEditorProps) {
+    const [data, setData] = useState<ModelConfigResponse | null>(null);
+    const [overrides, setOverrides] = useState<Record<string, TaskModelConfig>>({});
+    const [selectedTask, setSelectedTask] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [issues, setIssues] = useState<string[]>([]);
+
+    const applyResponse = (response: ModelConfigResponse) => {
+        setData(response);
+        setOverrides(response.config.tasks || {});
+        setSelectedTask(current => current || Object.keys(response.defaults)[0] || null);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        setIsLoading(true);
+        setError(null);
+        setIssues([]);
+
+        fetch(`${BACKEND_URL}/v2/config/models`)
+            .then(res => res.json())
+            .then(applyResponse)
+            .catch(err => {
+                console.error('[ModelConfig] Failed to load:', err);
+                setError('Failed to load model config');
+            })
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+        setIssues([]);
+
+        try {
+            const token = await auth.currentUser?.getIdToken();
+            const res = await fetch(`${BACKEND_URL}/v2/config/models`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+                },
+                body: JSON.stringify({ tasks: overrides })
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                setError(body.error || `Save failed (${res.status})`);
+                setIssues(body.issues || []);
+                return;
+            }
+            applyResponse(body);
+        } catch (e) {
+            console.error('[ModelConfig] Failed to save:', e);
+            setError('Failed to save model config');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const resetTask = (task: string) => {
+        const next = { ...overrides };
+        delete next[task];
+        setOverrides(next);
+    };
+
+    if (!isOpen) return null;
+
+    const tasks = data ? Object.keys(data.defaults) : [];
+    const selectedConfig = selectedTask && data
+        ? overrides[selectedTask] || data.defaults[selectedTask]
+        : null;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.9, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.9, opacity: 0 }}
+                className="bg-gray-900 border border-gray-800 rounded-xl w-full max-w-3xl max-h-[85vh] overflow-hidden shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-gray-800">
+                    <div className="flex items-center gap-2">
+                        <Cpu className="w-5 h-5 text-blue-500" />
+                        <h2 className="text-sm font-bold text-white">Model Chains</h2>
+                        {data && (
+                            <span className="px-2 py-0.5 bg-blue-900/30 text-blue-400 text-[10px] font-medium rounded-full">
+                                source: {data.source}
+                            </span>
+                        )}
+                    </div>
+                    <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-12">
+                        <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : !data ? (
+                    <div className="text-center py-12 text-sm text-gray-500">{error || 'No config available'}</div>
+                ) : (
+                    <div className="flex max-h-[60vh]">
+                        {/* Task List */}
+                        <div className="w-48 border-r border-gray-800 overflow-y-auto">
+                            {tasks.map(task => (
+                                <button
+                                    key={task}
+                                    onClick={() => setSelectedTask(task)}
+                                    className={`w-full flex items-center justify-between px-3 py-2 text-left text-xs transition-colors ${selectedTask === task
+                                            ? 'bg-white/5 text-white'
+                                            : 'text-gray-500 hover:text-gray-300'
+                                        }`}
+                                >
+                                    <span className="truncate">{task}</span>
+                                    {overrides[task] && <span className="w-1.5 h-1.5 rounded-full bg-blue-500" title="Overridden" />}
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Selected Task */}
+                        <div className="flex-1 p-4 overflow-y-auto">
+                            {selectedTask && selectedConfig && (
+                                <>
+                                    <div className="flex items-center justify-between mb-4">
+                                        <h3 className="text-sm font-medium text-white">{selectedTask}</h3>
+                                        {overrides[selectedTask] ? (
+                                            <button
+                                                onClick={() => resetTask(selectedTask)}
+                                                className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-white transition-colors"
+                                            >
+                                                <RotateCcw className="w-3 h-3" /> Reset to default
+                                            </button>
+                                        ) : (
+                                            <span className="text-[10px] text-gray-600">default</span>
+                                        )}
+                                    </div>
+                                    <TaskEditor
+                                        config={selectedConfig}
+                                        providers={data.providers}
+                                        onChange={(config) => setOverrides({ ...overrides, [selectedTask]: config })}
+                                    />
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {/* Errors */}
+                {(error || data?.lastError) && data && (
+                    <div className="px-4 py-2 border-t border-gray-800 bg-red-900/10 space-y-1">
+                        <div className="flex items-center gap-2 text-xs text-red-400">
+                            <AlertTriangle className="w-4 h-4" />
+                            {error || `Last load rejected: ${data.lastError}`}
+                        </div>
+                        {issues.map((issue, i) => (
+                            <p key={i} className="text-[10px] text-red-300 font-mono pl-6">{issue}</p>
+                        ))}
+                    </div>
+                )}
+
+                {/* Footer */}
+                {data && (
+                    <div className="flex items-center justify-between px-4 py-2 border-t border-gray-800 bg-gray-900/50">
+                        <span className="text-[10px] text-gray-500">
+                            {data.config.updatedAt
+                                ? `Updated ${new Date(data.config.updatedAt).toLocaleString()}${data.config.updatedBy ? ` by ${data.config.updatedBy}` : ''}`
+                                : 'Built-in defaults'}
+                        </span>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="flex items-center gap-1 py-1.5 px-3 bg-blue-900/30 text-blue-400 text-xs font-medium rounded hover:bg-blue-900/50 disabled:opacity-50 transition-colors"
+                        >
+                            <Save className="w-3 h-3" /> {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                )}
+            </motion.div>
+        </motion.div>
+    );
+}
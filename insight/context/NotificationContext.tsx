@@ -10,6 +10,7 @@ export interface ScanNotification {
     status: string;
     progress: number;
     reportId?: string; // The ID of the generated report
+    orchestrated?: boolean; // V3 scans get live progress from the backend event stream
     isComplete: boolean;
     error?: string;
     timestamp: number;
@@ -26,6 +27,22 @@ interface NotificationContextType {
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
+const JOB_POLL_INTERVAL_MS = 5000;
+// Give up polling after this long - a job the backend lost track of would otherwise be polled forever
+const JOB_WAIT_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Shape of events from GET /v3/runs/:id/events
+interface RunEvent {
+    type: 'step_start' | 'step_end' | 'step_fail' | 'step_skip' | 'model_attempt' | 'ai_decision' | 'run_end';
+    runId: string;
+    timestamp: number;
+    stepId?: string;
+    stepKey?: string;
+    stepName?: string;
+    progress?: number;
+    data?: Record<string, unknown>;
+}
+
 export function NotificationProvider({ children }: { children: ReactNode }) {
     const [notifications, setNotifications] = useState<ScanNotification[]>([]);
     const [unreadCount, setUnreadCount] = useState(0);
@@ -34,6 +51,9 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     // Store AbortControllers for each scan to enable cancellation
     const abortControllers = useRef<Map<string, AbortController>>(new Map());
 
+    // Live event streams for V3 scans
+    const eventSources = useRef<Map<string, EventSource>>(new Map());
+
     // Load from LocalStorage on mount
     useEffect(() => {
         const saved = localStorage.getItem('research_notifications');
@@ -46,7 +66,11 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                 parsed.forEach((n: ScanNotification) => {
                     if (!n.isComplete) {
                         if (n.reportId) monitorScanProgress(n.id, n.reportId);
-                        simulateProgress(n.id); // Resume visual progress
+                        if (n.orchestrated && n.reportId) {
+                            followRunEvents(n.id, n.reportId); // Resume live progress
+                        } else {
+                            simulateProgress(n.id); // Resume visual progress
+                        }
                     }
                 });
             } catch (e) {
@@ -90,6 +114,61 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         return interval;
     };
 
+    // Real progress for V3 scans: step names and STEP_REGISTRY-based progress streamed by the backend
+    const followRunEvents = (scanId: string, reportId: string) => {
+        const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:7860';
+        const source = new EventSource(`${backendUrl}/v3/runs/${reportId}/events`);
+        eventSources.current.set(scanId, source);
+
+        const applyEvent = (status?: string, progress?: number) => {
+            setNotifications(prev => prev.map(n => {
+                if (n.id !== scanId || n.isComplete) return n;
+                return {
+                    ...n,
+                    status: status ?? n.status,
+                    // Never move backwards - parallel branches finish out of order
+                    progress: progress !== undefined ? Math.max(n.progress, progress) : n.progress
+                };
+            }));
+        };
+
+        source.onmessage = (message) => {
+            let event: RunEvent;
+            try {
+                event = JSON.parse(message.data);
+            } catch {
+                return;
+            }
+
+            switch (event.type) {
+                case 'step_start':
+                    applyEvent(`${event.stepName}...`, event.progress);
+                    break;
+                case 'step_end':
+                case 'step_skip':
+                    applyEvent(undefined, event.progress);
+                    break;
+                case 'step_fail':
+                    applyEvent(`${event.stepName} failed - recovering...`);
+                    break;
+                case 'ai_decision':
+                    console.log(`[Scan V3] AI decision (${event.stepKey}):`, event.data?.message);
+                    break;
+                case 'run_end':
+                    stopRunEvents(scanId);
+                    break;
+            }
+        };
+
+        // EventSource reconnects on its own; the job poll decides when the scan is over
+        source.onerror = () => console.warn(`[Scan V3] Event stream interrupted for ${reportId}, reconnecting...`);
+    };
+
+    const stopRunEvents = (scanId: string) => {
+        eventSources.current.get(scanId)?.close();
+        eventSources.current.delete(scanId);
+    };
+
     const monitorScanProgress = (scanId: string, reportId: string) => {
         // Listen to the specific report document
         const unsub = onSnapshot(doc(db, "reports", reportId), (docSnapshot) => {
@@ -111,6 +190,9 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                         progress: 100
                     });
                     unsub();
+                } else if (data.status === 'cancelled') {
+                    updateNotification(scanId, { status: 'Cancelled', error: 'Cancelled by user', isComplete: true });
+                    unsub();
                 }
             }
         });
@@ -171,10 +253,33 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         monitorScanProgress(scanId, reportId);
     };
 
+    // Poll the backend job until it finishes (survives dropped connections - each poll is a fresh request)
+    const waitForJob = async (backendUrl: string, jobId: string, signal: AbortSignal): Promise<{ status: string; error?: string }> => {
+        const deadline = Date.now() + JOB_WAIT_TIMEOUT_MS;
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+            if (signal.aborted) throw new DOMException('Scan cancelled', 'AbortError');
+
+            try {
+                const res = await fetch(`${backendUrl}/v3/jobs/${jobId}`, { signal, cache: 'no-store' });
+                if (res.ok) {
+                    const job = await res.json();
+                    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') return job;
+                } else if (res.status === 404) {
+                    throw new Error(`Job ${jobId} not found on backend`);
+                }
+            } catch (e) {
+                // Transient network errors (Space restart, flaky proxy) - keep polling
+                if (e instanceof Error && (e.name === 'AbortError' || e.message.includes('not found'))) throw e;
+                console.warn(`[Scan V3] Job poll failed, retrying...`, e);
+            }
+        }
+        throw new Error(`Job ${jobId} did not finish within ${JOB_WAIT_TIMEOUT_MS / 60000} minutes - check the report later`);
+    };
+
     // V3: Orchestrated Workflow - Backend handles all steps with AI evaluation
     const runOrchestratedScan = async (scanId: string, reportId: string, topic: string, config: any) => {
         const update = (data: Partial<ScanNotification>) => updateNotification(scanId, data);
-        const interval = simulateProgress(scanId);
 
         // Create AbortController for this scan
         const controller = new AbortController();
@@ -182,7 +287,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
 
         try {
             console.log(`[Scan V3] Starting Orchestrated Workflow...`);
-            update({ status: 'AI Orchestrator Initialized... 🤖', progress: 15 });
+            update({ status: 'AI Orchestrator Initialized... 🤖', progress: 15, orchestrated: true });
 
             const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:7860';
 
@@ -193,40 +298,51 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                     topic,
                     reportId,
                     isPublic: config.isPublic,
-                    userId: config.userId
+                    userId: config.userId,
+                    profile: config.profile,                    // quick | standard | deep
+                    profileOverrides: config.profileOverrides   // Custom limits (optional)
                 }),
                 signal: controller.signal  // Enable cancellation
             });
 
-            clearInterval(interval);
-
             if (!response.ok) {
                 const errText = await response.text();
                 throw new Error(`Orchestrated workflow failed: ${response.status} - ${errText.substring(0, 100)}`);
             }
 
-            const data = await response.json();
-            console.log("[Scan V3] Orchestrated workflow complete:", data);
+            // Backend answers 202 with a job ID - the run continues server-side
+            const { jobId } = await response.json();
+            console.log(`[Scan V3] Job queued: ${jobId}`);
+            update({ status: 'Queued on Research Server... ⏳' });
+            followRunEvents(scanId, reportId);
 
-            if (data.success) {
+            const job = await waitForJob(backendUrl, jobId, controller.signal);
+            stopRunEvents(scanId);
+            console.log("[Scan V3] Orchestrated workflow complete:", job);
+
+            if (job.status === 'completed') {
                 update({
                     progress: 100,
                     status: 'Research Complete (AI Orchestrated)',
                     isComplete: true,
                     reportId: reportId
                 });
+            } else if (job.status === 'cancelled') {
+                update({ status: 'Cancelled', isComplete: true, error: 'Cancelled by user' });
             } else {
                 update({
                     progress: 100,
                     status: 'Research Completed with Issues',
                     isComplete: true,
                     reportId: reportId,
-                    error: data.error
+                    error: job.error
                 });
             }
 
+            abortControllers.current.delete(scanId);
+
         } catch (error) {
-            clearInterval(interval);
+            stopRunEvents(scanId);
 
             // Check if this was a user-initiated cancellation
             if (error instanceof Error && error.name === 'AbortError') {
@@ -480,7 +596,27 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         setNotifications(prev => prev.map(n => n.id === id ? { ...n, ...data } : n));
     };
 
+    // Stop the run on the backend - aborting the browser requests alone leaves it running
+    const cancelBackendRun = async (reportId: string) => {
+        const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:7860';
+        try {
+            const res = await fetch(`${backendUrl}/v3/runs/${reportId}/cancel`, { method: 'POST' });
+            // 404 = the run already finished (or was never queued)
+            if (!res.ok && res.status !== 404) {
+                console.warn(`[Scan V3] Cancel request failed: ${res.status}`);
+            }
+        } catch (e) {
+            console.warn('[Scan V3] Cancel request failed:', e);
+        }
+    };
+
     const dismissNotification = (id: string) => {
+        const notification = notifications.find(n => n.id === id);
+        if (notification?.orchestrated && notification.reportId && !notification.isComplete) {
+            console.log(`[Scan] Cancelling backend run ${notification.reportId}...`);
+            cancelBackendRun(notification.reportId);
+        }
+
         // Abort any running HTTP request for this scan
         const controller = abortControllers.current.get(id);
         if (controller) {
@@ -488,6 +624,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
             controller.abort();
             abortControllers.current.delete(id);
         }
+        stopRunEvents(id);
 
         // Update the notification to show it was cancelled, then remove after a moment
         setNotifications(prev => prev.map(n =>
@@ -0,0 +1,215 @@
+/**
+ * alternativeFunctions.ts
+ * Real implementations behind the names in ALTERNATIVE_FUNCTIONS (retryStrategies.ts)
+ *
+ * When a step returns an error or empty result, the orchestrator switches to the
+ * next alternative for that step and passes its name as `alternativeFunction` in the
+ * retry input. The step services look the name up here.
+ */
+
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import dotenv from 'dotenv';
+import { scrapeFirecrawlV2, ScrapeResult } from './firecrawl';
+import { searchTavilyV2, SearchResult } from './tavily';
+import { processVideosInParallel, TranscribedVideo } from './groqTranscribe';
+import { VideoResult } from './youtubeSearch';
+import { throwIfAborted } from './cancellation';
+import { withCassette, cassetteApiKey } from './cassette';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export type ScrapeFunction = (urls: string[], signal?: AbortSignal) => Promise<ScrapeResult[]>;
+export type SearchFunction = (keywords: string[], signal?: AbortSignal) => Promise<SearchResult[]>;
+export type TranscribeFunction = (videos: VideoResult[], signal?: AbortSignal) => Promise<TranscribedVideo[]>;
+
+const BROWSER_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Referer': 'https://www.google.com/'
+};
+
+const MAX_SCRAPED_CHARS = 15000;
+
+// ============ SCRAPE ============
+
+/**
+ * Jina AI reader - returns the page as markdown. Works without a key (rate limited);
+ * set JINA_API_KEY for higher limits.
+ */
+export async function scrapeJina(urls: string[], signal?: AbortSignal): Promise<ScrapeResult[]> {
+    const headers: Record<string, string> = { 'Accept': 'text/plain' };
+    if (process.env.JINA_API_KEY) headers['Authorization'] = `Bearer ${process.env.JINA_API_KEY}`;
+
+    const results = await Promise.all(urls.map(async (url): Promise<ScrapeResult> => {
+        try {
+            console.log(`[Alternatives] Jina reading: ${url}`);
+            const data = await withCassette('jina', { url }, async () =>
+                (await axios.get(`https://r.jina.ai/${url}`, { headers, timeout: 20000, responseType: 'text', signal })).data);
+            return { url, markdown: String(data || '').substring(0, MAX_SCRAPED_CHARS), metadata: { sourceURL: url }, status: 'success' };
+        } catch (error) {
+            console.error(`[Alternatives] Jina failed for ${url}:`, error);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            return { url, markdown: '', status: 'failed', error: (error as any).message };
+        }
+    }));
+    throwIfAborted(signal);
+    return results;
+}
+
+/**
+ * Basic HTML fetch + Cheerio text extraction (no API needed)
+ */
+export async function scrapeCheerio(urls: string[], signal?: AbortSignal): Promise<ScrapeResult[]> {
+    const results = await Promise.all(urls.map(async (url): Promise<ScrapeResult> => {
+        try {
+            const data = await withCassette('http.get', { url }, async () =>
+                (await axios.get(url, { headers: BROWSER_HEADERS, timeout: 8000, signal })).data);
+            const $ = cheerio.load(data);
+            $('script, style, nav, footer, header, aside, .ads, .advertisement').remove();
+            const text = $('body').text().replace(/\s+/g, ' ').trim();
+            return { url, markdown: text.substring(0, MAX_SCRAPED_CHARS), metadata: { sourceURL: url, title: $('title').text().trim() }, status: 'success' };
+        } catch (error) {
+            console.error(`[Alternatives] Cheerio failed for ${url}:`, error);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            return { url, markdown: '', status: 'failed', error: (error as any).message };
+        }
+    }));
+    throwIfAborted(signal);
+    return results;
+}
+
+// ============ SEARCH ============
+
+/**
+ * Serper Google News search (requires SERPER_API_KEY)
+ */
+export async function searchSerper(keywords: string[], signal?: AbortSignal): Promise<SearchResult[]> {
+    if (!cassetteApiKey(process.env.SERPER_API_KEY)) {
+        throw new Error("SERPER_API_KEY is missing.");
+    }
+
+    const seenUrls = new Set<string>();
+    const results: SearchResult[] = [];
+
+    const responses = await Promise.all(keywords.map(async (query) => {
+        try {
+            const body = { q: query, num: 5 };
+            const data = await withCassette('serper', body, async () => (await axios.post('https://google.serper.dev/news', body, {
+                headers: { 'X-API-KEY': process.env.SERPER_API_KEY, 'Content-Type': 'application/json' },
+                timeout: 10000,
+                signal
+            })).data);
+            return data?.news || [];
+        } catch (e) {
+            console.error(`[Alternatives] Serper search failed for "${query}":`, e);
+            return [];
+        }
+    }));
+    throwIfAborted(signal);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    responses.flat().forEach((item: any) => {
+        if (item?.link && !seenUrls.has(item.link)) {
+            seenUrls.add(item.link);
+            results.push({
+                title: item.title,
+                url: item.link,
+                content: item.snippet || '',
+                published_date: item.date,
+                source: 'serper'
+            });
+        }
+    });
+
+    console.log(`[Alternatives] Serper found ${results.length} unique articles`);
+    return results;
+}
+
+/**
+ * NewsAPI.org /v2/everything search (requires NEWS_API_KEY)
+ */
+export async function searchNewsAPI(keywords: string[], signal?: AbortSignal): Promise<SearchResult[]> {
+    if (!cassetteApiKey(process.env.NEWS_API_KEY)) {
+        throw new Error("NEWS_API_KEY is missing.");
+    }
+
+    const seenUrls = new Set<string>();
+    const results: SearchResult[] = [];
+
+    const responses = await Promise.all(keywords.map(async (query) => {
+        try {
+            const params = { q: query, pageSize: 5, sortBy: 'publishedAt', language: 'en' };
+            const data = await withCassette('newsapi', params, async () => (await axios.get('https://newsapi.org/v2/everything', {
+                params,
+                headers: { 'X-Api-Key': process.env.NEWS_API_KEY },
+                timeout: 10000,
+                signal
+            })).data);
+            return data?.articles || [];
+        } catch (e) {
+            console.error(`[Alternatives] NewsAPI search failed for "${query}":`, e);
+            return [];
+        }
+    }));
+    throwIfAborted(signal);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    responses.flat().forEach((item: any) => {
+        // Removed articles come back as "[Removed]" placeholders
+        if (item?.url && item.title !== '[Removed]' && !seenUrls.has(item.url)) {
+            seenUrls.add(item.url);
+            results.push({
+                title: item.title,
+                url: item.url,
+                content: item.description || item.content || '',
+                published_date: item.publishedAt,
+                source: 'newsapi'
+            });
+        }
+    });
+
+    console.log(`[Alternatives] NewsAPI found ${results.length} unique articles`);
+    return results;
+}
+
+// ============ TRANSCRIBE ============
+
+/**
+ * Use the video description when captions are missing. Videos that already
+ * have captions (or no usable description) are returned unchanged.
+ */
+export async function extractFromDescription(videos: VideoResult[], signal?: AbortSignal): Promise<TranscribedVideo[]> {
+    const transcribed = await processVideosInParallel(videos);
+    throwIfAborted(signal);
+
+    return transcribed.map(video => {
+        const description = (video.description || '').trim();
+        if (video.transcript_source !== 'unavailable' || description.length < 50) return video;
+        return { ...video, transcript: description, transcript_source: 'description' };
+    });
+}
+
+// ============ REGISTRY ============
+
+// Names match ALTERNATIVE_FUNCTIONS; the priority-1 entry of each step is its default.
+// Entries marked `unavailable` there have no implementation here yet.
+export const SCRAPE_FUNCTIONS: Record<string, ScrapeFunction> = {
+    scrapeFirecrawl: scrapeFirecrawlV2,
+    scrapeJina,
+    scrapeCheerio
+};
+
+export const SEARCH_FUNCTIONS: Record<string, SearchFunction> = {
+    searchTavily: searchTavilyV2,
+    searchSerper,
+    searchNewsAPI
+};
+
+export const TRANSCRIBE_FUNCTIONS: Record<string, TranscribeFunction> = {
+    getYouTubeTranscript: processVideosInParallel,
+    extractFromDescription
+};
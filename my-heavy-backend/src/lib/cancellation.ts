@@ -0,0 +1,51 @@
+/**
+ * cancellation.ts
+ * AbortSignal helpers for cancelling orchestrated runs
+ *
+ * POST /v3/runs/:id/cancel aborts the job's AbortController (jobQueue.ts). The
+ * signal is passed down through the orchestrator, step services and provider
+ * calls; each checks it before starting new work so a cancelled run stops
+ * spending Groq / Tavily / Firecrawl / YouTube quota.
+ */
+
+// ============ ERRORS ============
+
+export class RunCancelledError extends Error {
+    constructor(message = 'Run cancelled') {
+        super(message);
+        this.name = 'RunCancelledError';
+    }
+}
+
+/**
+ * True for our own cancellation error and for aborted fetch/axios/SDK requests
+ */
+export function isCancellation(error: unknown): boolean {
+    if (error instanceof RunCancelledError) return true;
+    const name = (error as Error)?.name;
+    return name === 'AbortError' || name === 'CanceledError' || name === 'APIUserAbortError';
+}
+
+// ============ SIGNAL HELPERS ============
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw signal.reason instanceof RunCancelledError ? signal.reason : new RunCancelledError();
+    }
+}
+
+/**
+ * Settle as soon as the signal aborts, even if `promise` (an SDK call that
+ * can't be aborted) is still running - its result is then ignored.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    throwIfAborted(signal);
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason instanceof RunCancelledError ? signal.reason : new RunCancelledError());
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
@@ -0,0 +1,241 @@
+/**
+ * cassette.ts
+ * Record/replay layer for outbound API calls (Groq, OpenRouter, Tavily, Firecrawl,
+ * YouTube, HuggingFace, Supabase, Jina, Serper)
+ *
+ * CASSETTE_MODE=record  - calls go out as usual; every request/response pair is
+ *                         saved to cassettes/<CASSETTE_NAME>.json
+ * CASSETTE_MODE=replay  - nothing goes out; responses come from the cassette and a
+ *                         request that was never recorded throws CassetteMissError
+ * (unset / off)         - pass-through
+ *
+ * Requests are keyed by a hash of the service name and the normalized request
+ * (object keys sorted, dates masked). Identical requests recorded several times
+ * replay in recorded order, so retries and fallbacks replay exactly. Errors are
+ * recorded too (rate limits, failed scrapes) and rethrown on replay with their
+ * HTTP status and code.
+ *
+ * Capture a problematic run once with CASSETTE_MODE=record, then run the same
+ * /v3/orchestrated-workflow request with CASSETTE_MODE=replay - no API keys needed.
+ * Firestore is not recorded: point FIRESTORE_EMULATOR_HOST at the emulator to run fully offline.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { isCancellation } from './cancellation';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+interface RecordedError {
+    name: string;
+    message: string;
+    status?: number;  // HTTP status of SDK/API errors - callLLM treats 429 as a rate limit
+    code?: string;    // e.g. ECONNRESET, rate_limit_exceeded
+}
+
+interface Interaction {
+    service: string;
+    request: unknown;
+    response?: unknown;
+    error?: RecordedError;
+    recordedAt: string;
+}
+
+interface CassetteFile {
+    version: 1;
+    name: string;
+    interactions: Record<string, Interaction[]>;  // keyed by request hash
+}
+
+export class CassetteMissError extends Error {
+    constructor(service: string, hash: string, cassette: string) {
+        super(`[Cassette] No recorded ${service} response for request ${hash.substring(0, 12)} in "${cassette}" - re-record the cassette`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+// Used instead of a real API key while replaying, so client constructors don't fail
+const REPLAY_API_KEY = 'cassette-replay';
+
+// ============ CONFIGURATION ============
+
+export function getCassetteMode(): CassetteMode {
+    const mode = (process.env.CASSETTE_MODE || 'off').toLowerCase();
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function isReplaying(): boolean {
+    return getCassetteMode() === 'replay';
+}
+
+/**
+ * API key for a client constructor - a placeholder while replaying (no credentials needed)
+ */
+export function cassetteApiKey(key: string | undefined): string | undefined {
+    return key || (isReplaying() ? REPLAY_API_KEY : undefined);
+}
+
+function getCassettePath(): string {
+    const dir = process.env.CASSETTE_DIR || path.join(process.cwd(), 'cassettes');
+    const name = process.env.CASSETTE_NAME || 'default';
+    return path.join(dir, `${name}.json`);
+}
+
+// ============ NORMALIZATION ============
+
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?/g;
+
+// Stable form of a request: sorted keys, masked dates, no undefined values
+function normalize(value: unknown): unknown {
+    if (typeof value === 'string') return value.replace(DATE_PATTERN, '<date>');
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+        return Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .reduce<Record<string, unknown>>((acc, key) => {
+                acc[key] = normalize((value as Record<string, unknown>)[key]);
+                return acc;
+            }, {});
+    }
+    return value;
+}
+
+export function hashRequest(service: string, request: unknown): string {
+    return createHash('sha256')
+        .update(JSON.stringify({ service, request: normalize(request) }))
+        .digest('hex');
+}
+
+// ============ STORAGE ============
+
+let cassette: CassetteFile | null = null;
+let cassettePath = '';
+const replayCursor = new Map<string, number>();  // hash -> next interaction to replay
+let writeChain: Promise<void> = Promise.resolve();
+
+function loadCassette(): CassetteFile {
+    const currentPath = getCassettePath();
+    if (cassette && cassettePath === currentPath) return cassette;
+
+    cassettePath = currentPath;
+    replayCursor.clear();
+
+    if (fs.existsSync(currentPath)) {
+        cassette = JSON.parse(fs.readFileSync(currentPath, 'utf-8')) as CassetteFile;
+        console.log(`[Cassette] Loaded ${Object.keys(cassette.interactions).length} request(s) from ${currentPath}`);
+    } else {
+        if (isReplaying()) throw new Error(`[Cassette] Cassette not found: ${currentPath}`);
+        cassette = { version: 1, name: path.basename(currentPath, '.json'), interactions: {} };
+    }
+    return cassette;
+}
+
+// Writes are serialized so parallel steps never interleave partial files
+function saveCassette(): void {
+    const snapshot = JSON.stringify(cassette, null, 2);
+    const target = cassettePath;
+    writeChain = writeChain
+        .then(async () => {
+            await fs.promises.mkdir(path.dirname(target), { recursive: true });
+            await fs.promises.writeFile(target, snapshot);
+        })
+        .catch(e => console.error('[Cassette] Failed to save cassette:', e));
+}
+
+/**
+ * Forget the loaded cassette (e.g. after changing CASSETTE_NAME) - replay starts from the top
+ */
+export function resetCassette(): void {
+    cassette = null;
+    cassettePath = '';
+    replayCursor.clear();
+}
+
+// ============ RECORD / REPLAY ============
+
+function replay<T>(service: string, hash: string): T {
+    const current = loadCassette();
+    const recorded = current.interactions[hash] || [];
+    const index = replayCursor.get(hash) || 0;
+    if (recorded.length === 0) throw new CassetteMissError(service, hash, current.name);
+
+    // Past the end: keep answering with the last recording (e.g. an extra retry)
+    const interaction = recorded[Math.min(index, recorded.length - 1)];
+    replayCursor.set(hash, index + 1);
+
+    if (interaction.error) {
+        const { name, message, status, code } = interaction.error;
+        const error = new Error(message) as Error & { status?: number; code?: string };
+        error.name = name;
+        if (status !== undefined) error.status = status;
+        if (code !== undefined) error.code = code;
+        throw error;
+    }
+    return interaction.response as T;
+}
+
+// What callers look at when handling a failure - the message alone loses a 429's status
+function toRecordedError(error: unknown): RecordedError {
+    const err = error as { name?: unknown; message?: unknown; status?: unknown; code?: unknown } | undefined;
+    return {
+        name: typeof err?.name === 'string' ? err.name : 'Error',
+        message: typeof err?.message === 'string' ? err.message : String(error),
+        ...(typeof err?.status === 'number' ? { status: err.status } : {}),
+        ...(err?.code !== undefined && err.code !== null ? { code: String(err.code) } : {})
+    };
+}
+
+function record(service: string, hash: string, request: unknown, outcome: { response?: unknown; error?: RecordedError }): void {
+    const current = loadCassette();
+    (current.interactions[hash] ||= []).push({ service, request, ...outcome, recordedAt: new Date().toISOString() });
+    saveCassette();
+}
+
+/**
+ * Run an outbound call through the cassette.
+ * `request` must describe everything that affects the response (never credentials);
+ * `live` makes the real call and must resolve to plain JSON data.
+ */
+export async function withCassette<T>(service: string, request: unknown, live: () => Promise<T>): Promise<T> {
+    const mode = getCassetteMode();
+    if (mode === 'off') return live();
+
+    const hash = hashRequest(service, request);
+    if (mode === 'replay') return replay<T>(service, hash);
+
+    try {
+        const response = await live();
+        record(service, hash, request, { response });
+        return response;
+    } catch (error) {
+        // A cancelled run is not part of the provider's behaviour
+        if (!isCancellation(error)) {
+            record(service, hash, request, { error: toRecordedError(error) });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Route an SDK client's chat.completions.create through the cassette, so every
+ * caller of that client (the groq plugin, getGroqClient users...) is covered.
+ * Only the request body is keyed - per-call options such as the AbortSignal are not.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function recordCompletions<C extends { chat: { completions: { create: (...args: any[]) => any } } }>(service: string, client: C): C {
+    const completions = client.chat.completions;
+    const create = completions.create.bind(completions);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    completions.create = ((body: any, options?: any) => getCassetteMode() === 'off'
+        ? create(body, options)
+        : withCassette(service, body, async () => JSON.parse(JSON.stringify(await create(body, options))))
+    ) as C['chat']['completions']['create'];
+    return client;
+}
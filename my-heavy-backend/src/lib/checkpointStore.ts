@@ -0,0 +1,103 @@
+/**
+ * checkpointStore.ts
+ * Per-step output checkpoints for orchestrated research runs
+ *
+ * Every completed step saves its output under reports/{reportId}/checkpoints/{stepKey}.
+ * POST /v3/runs/:id/resume re-runs the workflow with these outputs restored, so a
+ * failure in step 11 doesn't burn Tavily/Firecrawl/YouTube quota again.
+ */
+
+import { db } from './firebase';
+
+// ============ CONFIGURATION ============
+
+const CHECKPOINTS_SUBCOLLECTION = 'checkpoints';
+
+// Firestore documents max out at 1 MiB - leave headroom for the other fields
+const MAX_CHECKPOINT_BYTES = 900 * 1024;
+
+// ============ TYPES ============
+
+export interface StepCheckpoint {
+    stepKey: string;
+    savedAt: string;
+    output: string;  // JSON-encoded (Firestore rejects nested arrays and undefined)
+}
+
+// ============ PUBLIC API ============
+
+function checkpointsRef(reportId: string) {
+    return db.collection('reports').doc(reportId).collection(CHECKPOINTS_SUBCOLLECTION);
+}
+
+/**
+ * Save a step's output. Never throws - a missing checkpoint only means
+ * the step runs again on resume.
+ */
+export async function saveCheckpoint(reportId: string, stepKey: string, output: unknown): Promise<void> {
+    try {
+        const encoded = JSON.stringify(output ?? null);
+        if (Buffer.byteLength(encoded) > MAX_CHECKPOINT_BYTES) {
+            console.warn(`[Checkpoint] ${stepKey} output too large (${Buffer.byteLength(encoded)} bytes) - not checkpointed`);
+            return;
+        }
+
+        const checkpoint: StepCheckpoint = {
+            stepKey,
+            savedAt: new Date().toISOString(),
+            output: encoded
+        };
+        await checkpointsRef(reportId).doc(stepKey).set(checkpoint);
+        console.log(`[Checkpoint] Saved ${stepKey} for ${reportId}`);
+    } catch (e) {
+        console.error(`[Checkpoint] Failed to save ${stepKey} for ${reportId}:`, e);
+    }
+}
+
+/**
+ * Load all saved step outputs for a report, keyed by step key
+ */
+export async function loadCheckpoints(reportId: string): Promise<Map<string, unknown>> {
+    const checkpoints = new Map<string, unknown>();
+
+    try {
+        const snapshot = await checkpointsRef(reportId).get();
+        snapshot.forEach(doc => {
+            const checkpoint = doc.data() as StepCheckpoint;
+            try {
+                checkpoints.set(checkpoint.stepKey, JSON.parse(checkpoint.output));
+            } catch {
+                console.warn(`[Checkpoint] Corrupt checkpoint ${checkpoint.stepKey} for ${reportId} - ignoring`);
+            }
+        });
+    } catch (e) {
+        console.error(`[Checkpoint] Failed to load checkpoints for ${reportId}:`, e);
+    }
+
+    return checkpoints;
+}
+
+/**
+ * Drop checkpoints that are now stale (e.g. steps invalidated by an upstream re-run).
+ * Never throws.
+ */
+export async function deleteCheckpoints(reportId: string, stepKeys: string[]): Promise<void> {
+    try {
+        await Promise.all(stepKeys.map(stepKey => checkpointsRef(reportId).doc(stepKey).delete()));
+    } catch (e) {
+        console.error(`[Checkpoint] Failed to delete checkpoints for ${reportId}:`, e);
+    }
+}
+
+/**
+ * Step keys that have a checkpoint (without downloading the outputs)
+ */
+export async function listCheckpointedSteps(reportId: string): Promise<string[]> {
+    try {
+        const snapshot = await checkpointsRef(reportId).select('stepKey').get();
+        return snapshot.docs.map(doc => doc.get('stepKey') as string);
+    } catch (e) {
+        console.error(`[Checkpoint] Failed to list checkpoints for ${reportId}:`, e);
+        return [];
+    }
+}
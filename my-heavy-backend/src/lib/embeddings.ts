@@ -2,10 +2,14 @@
  * embeddings.ts
  * Generates embeddings using HuggingFace Inference API
  * Stores and searches vectors in Supabase pgvector
+ *
+ * Both can be replaced through providers.ts (embeddings / vectorStore).
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { withCassette, cassetteApiKey } from './cassette';
+import { VectorStore, getProviderOverride } from './providers';
 
 dotenv.config();
 
@@ -23,17 +27,58 @@ let supabase: SupabaseClient | null = null;
 // ============ SUPABASE CLIENT ============
 function getSupabaseClient(): SupabaseClient {
     if (!supabase) {
-        if (!SUPABASE_KEY) {
+        const key = cassetteApiKey(SUPABASE_KEY);
+        if (!key) {
             throw new Error('SUPABASE_KEY is required');
         }
-        supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+        supabase = createClient(SUPABASE_URL, key);
     }
     return supabase;
 }
 
+// ============ VECTOR STORE ============
+// Supabase returns errors instead of throwing - the whole result is recorded by the cassette
+const supabaseVectorStore: VectorStore = {
+    insert: (row) => withCassette('supabase.insert', { table: 'source_embeddings', row }, async () => {
+        const { error } = await getSupabaseClient().from('source_embeddings').insert(row);
+        return { error };
+    }),
+
+    match: (embedding, threshold, count) => {
+        // We use a Postgres function for efficient vector search
+        const params = {
+            query_embedding: embedding,
+            match_threshold: threshold,
+            match_count: count
+        };
+        return withCassette('supabase.rpc', { fn: 'match_source_embeddings', params }, async () => {
+            const { data, error } = await getSupabaseClient().rpc('match_source_embeddings', params);
+            return { data, error };
+        });
+    },
+
+    listByTopic: (topic, limit) => withCassette('supabase.select', { table: 'source_embeddings', topic, limit }, async () => {
+        const { data, error } = await getSupabaseClient()
+            .from('source_embeddings')
+            .select('*')
+            .ilike('topic', `%${topic}%`)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+        return { data, error };
+    })
+};
+
+function getVectorStore(): VectorStore {
+    return getProviderOverride('vectorStore') || supabaseVectorStore;
+}
+
 // ============ GENERATE EMBEDDING ============
 export async function generateEmbedding(text: string): Promise<number[]> {
-    if (!HF_TOKEN) {
+    const injected = getProviderOverride('embeddings');
+    if (injected) return injected.embed(text.slice(0, 2000));
+
+    const token = cassetteApiKey(HF_TOKEN);
+    if (!token) {
         throw new Error('HF_TOKEN is required for embedding generation');
     }
 
@@ -41,24 +86,26 @@ export async function generateEmbedding(text: string): Promise<number[]> {
     const truncatedText = text.slice(0, 2000);
 
     try {
-        const response = await fetch(EMBEDDING_API_URL, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${HF_TOKEN}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-                inputs: truncatedText,
-                options: { wait_for_model: true }
-            })
-        });
-
-        if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`HuggingFace API error: ${error}`);
-        }
+        const result = await withCassette('huggingface', { model: EMBEDDING_MODEL, inputs: truncatedText }, async () => {
+            const response = await fetch(EMBEDDING_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    inputs: truncatedText,
+                    options: { wait_for_model: true }
+                })
+            });
+
+            if (!response.ok) {
+                const error = await response.text();
+                throw new Error(`HuggingFace API error: ${error}`);
+            }
 
-        const result = await response.json();
+            return response.json();
+        });
 
         // Result is a 2D array [[...embedding...]], we need the first one
         if (Array.isArray(result) && Array.isArray(result[0])) {
@@ -114,12 +161,17 @@ export interface SourceEmbeddingInput {
     metadata?: Record<string, unknown>;
 }
 
+export interface SourceEmbeddingRow extends Omit<SourceEmbeddingInput, 'metadata'> {
+    embedding: number[];
+    metadata: Record<string, unknown>;
+}
+
 // ============ STORE EMBEDDINGS ============
 export async function storeSourceEmbeddings(sources: SourceEmbeddingInput[]): Promise<{
     stored: number;
     errors: number;
 }> {
-    const supabase = getSupabaseClient();
+    const store = getVectorStore();
     console.log(`[Embeddings] Storing ${sources.length} source embeddings...`);
 
     let stored = 0;
@@ -135,18 +187,17 @@ export async function storeSourceEmbeddings(sources: SourceEmbeddingInput[]): Pr
             const source = sources[i];
             const embedding = embeddings[i];
 
-            const { error } = await supabase
-                .from('source_embeddings')
-                .insert({
-                    source_id: source.source_id,
-                    source_type: source.source_type,
-                    topic: source.topic,
-                    title: source.title,
-                    url: source.url,
-                    summary: source.summary,
-                    embedding: embedding,
-                    metadata: source.metadata || {}
-                });
+            const row: SourceEmbeddingRow = {
+                source_id: source.source_id,
+                source_type: source.source_type,
+                topic: source.topic,
+                title: source.title,
+                url: source.url,
+                summary: source.summary,
+                embedding: embedding,
+                metadata: source.metadata || {}
+            };
+            const { error } = await store.insert(row);
 
             if (error) {
                 console.error(`[Embeddings] Error storing source ${source.source_id}:`, error);
@@ -184,7 +235,7 @@ export async function semanticSearch(
         minSimilarity?: number;
     } = {}
 ): Promise<SearchResult[]> {
-    const supabase = getSupabaseClient();
+    const store = getVectorStore();
     const { limit = 10, topic, minSimilarity = 0.5 } = options;
 
     console.log(`[Embeddings] Semantic search for: "${query.slice(0, 50)}..."`);
@@ -192,15 +243,8 @@ export async function semanticSearch(
     // Generate embedding for the query
     const queryEmbedding = await generateEmbedding(query);
 
-    // Build the RPC call for similarity search
-    // We use a Postgres function for efficient vector search
-    let rpcQuery = supabase.rpc('match_source_embeddings', {
-        query_embedding: queryEmbedding,
-        match_threshold: minSimilarity,
-        match_count: limit
-    });
-
-    const { data, error } = await rpcQuery;
+    // Similarity search
+    const { data, error } = await store.match(queryEmbedding, minSimilarity, limit);
 
     if (error) {
         console.error('[Embeddings] Search error:', error);
@@ -254,14 +298,7 @@ export async function findSimilarResearch(
 
 // ============ GET RESEARCH HISTORY BY TOPIC ============
 export async function getResearchHistory(topic: string): Promise<SearchResult[]> {
-    const supabase = getSupabaseClient();
-
-    const { data, error } = await supabase
-        .from('source_embeddings')
-        .select('*')
-        .ilike('topic', `%${topic}%`)
-        .order('created_at', { ascending: false })
-        .limit(50);
+    const { data, error } = await getVectorStore().listByTopic(topic, 50);
 
     if (error) {
         console.error('[Embeddings] History fetch error:', error);
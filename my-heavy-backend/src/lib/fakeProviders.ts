@@ -0,0 +1,519 @@
+/**
+ * fakeProviders.ts
+ * In-memory fakes for every providers.ts interface - no network, no credentials
+ *
+ *   const fakes = installFakeProviders();
+ *   fakes.llm.respond('KEYWORDS', ['gaza ceasefire', 'rafah crossing']);
+ *   fakes.scrape.returnEmptyFor('scrapeFirecrawl');   // exercise alternative-function retries
+ *   await runResearchWorkflow({ topic, reportId });
+ *   fakes.documents.getDocument(`reports/${reportId}`);
+ *   resetProviders();
+ *
+ * Default outputs are sized so every step evaluates as 'good' with the default
+ * evaluator thresholds (stepEvaluators.ts).
+ */
+
+import type { LLMCallOptions, TaskType } from './llmProvider';
+import type { SearchResult } from './tavily';
+import type { ScrapeResult } from './firecrawl';
+import type { VideoResult, YouTubeSearchOptions } from './youtubeSearch';
+import type { TranscribedVideo } from './groqTranscribe';
+import type { SourceEmbeddingRow, SearchResult as EmbeddingMatch } from './embeddings';
+import {
+    LLMProvider, SearchProvider, ScrapeProvider, VideoProvider, EmbeddingProvider, VectorStore,
+    DocumentStore, DocumentData, DocumentRef, DocumentSnapshot, CollectionRef, QuerySnapshot,
+    ProviderCallOptions, Providers, setProviders
+} from './providers';
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// ============ LLM ============
+
+export type FakeLLMResponse = string | object | ((options: LLMCallOptions) => string | object);
+
+// One canned JSON value per task, shaped for every caller of that task
+// (e.g. KEYWORDS also serves video queries, orchestrator decisions and self-improver suggestions)
+export const DEFAULT_FAKE_LLM_RESPONSES: Record<TaskType, object> = {
+    KEYWORDS: {
+        keywords: ['ceasefire talks', 'humanitarian aid', 'border crossing', 'peace negotiations', 'civilian impact', 'regional diplomacy'],
+        queries: ['ceasefire talks news', 'humanitarian aid report', 'peace negotiations analysis'],
+        analysis: 'The query was too narrow for the available coverage.',
+        suggestion: 'Broaden the search terms.',
+        failurePattern: 'Empty results for a narrow topic',
+        suggestionType: 'config_change',
+        title: 'Broaden default keywords',
+        description: 'Use broader keywords when a topic returns no results.',
+        priority: 'low',
+        estimatedImpact: 'Fewer empty search retries'
+    },
+    QUERIES: { queries: ['ceasefire talks news', 'humanitarian aid report', 'peace negotiations analysis'] },
+    STRUCTURE: {
+        id: 0,
+        url: 'https://news.example.com/article',
+        publisher: 'Example News',
+        sections: [{ heading: 'Ceasefire talks resume', content: 'Negotiators met again to discuss a ceasefire and aid access.' }]
+    },
+    SUMMARIZE: {
+        // Chunk summaries are plain text; the merge step parses these fields
+        headline_summary: 'Ceasefire talks resume as aid access remains limited',
+        summary_bullets: ['Negotiators met again', 'Aid deliveries remain restricted', 'Regional mediators are involved']
+    },
+    CLASSIFY: {
+        // Video classification and knowledge base enrichment both use this task
+        classifications: [],
+        enriched: []
+    },
+    EXTRACT_FACTS: {
+        facts: [
+            { fact: 'Negotiators met again to discuss a ceasefire.', source_ids: [] },
+            { fact: 'Aid deliveries remain restricted.', source_ids: [] }
+        ]
+    },
+    REASONING: {
+        // Geopolitical analysis and risk assessment
+        summary: 'Talks continue under regional mediation while humanitarian pressure grows.',
+        key_actors: [{ name: 'Regional mediators', role: 'Facilitating talks', motivations: ['Stability'] }],
+        power_dynamics: 'Mediators hold limited leverage over both parties.',
+        regional_implications: 'A breakdown could widen the conflict.',
+        claims: [],
+        risks: [{ risk: 'Talks collapse', likelihood: 'medium', impact: 'high', mitigation: 'Sustained mediation' }],
+        predictions: [{ scenario: 'Temporary truce', timeframe: '1-3 months', probability: 'possible', basis: 'Ongoing talks' }]
+    },
+    ISLAMIC: {
+        disclaimer: 'This represents one perspective and should not be considered authoritative religious guidance.',
+        ethical_considerations: ['Protection of civilians'],
+        relevant_principles: ['Justice and mercy'],
+        community_impact: 'Communities are mobilizing aid.'
+    },
+    RECOMMENDATIONS: {
+        recommendations: [{ action: 'Support verified aid organizations', target_audience: 'Youth', priority: 'high' }],
+        humanitarian: {
+            affected_populations: ['Displaced families'],
+            immediate_needs: ['Food', 'Medical supplies'],
+            long_term_concerns: ['Reconstruction']
+        }
+    },
+    CONTENT_IDEAS: {
+        ideas: [
+            { hook: 'What a ceasefire would change', script: 'Explain the talks in 30 seconds.', key_message: 'Diplomacy matters', sensitivity_level: 'standard', priority: 1, hashtags: ['ceasefire'] },
+            { hook: 'Where aid is stuck', script: 'Map the blocked crossings.', key_message: 'Aid access', sensitivity_level: 'cautious', priority: 2, hashtags: ['aid'] }
+        ]
+    },
+    DEEP_ANALYSIS: { summary: 'Talks continue under regional mediation.' },
+    VERIFY: { verifications: [] },
+    NORMALIZE: {
+        sources: [{
+            title: 'Ceasefire talks resume',
+            url: 'https://news.example.com/article',
+            source: 'Example News',
+            summary: 'Negotiators met again to discuss a ceasefire and aid access.',
+            credibility: 'high',
+            keyFacts: ['Negotiators met again', 'Aid deliveries remain restricted'],
+            relevanceScore: 0.9
+        }]
+    },
+    REPORT: { summary: 'Ceasefire talks resume as aid access remains limited.' }
+};
+
+/**
+ * Returns canned JSON per TaskType and records every call.
+ * respond() sets a task's response; respondOnce() queues one-off responses used first.
+ * Function responses get the call options and may throw to simulate provider errors.
+ */
+export class FakeLLM implements LLMProvider {
+    readonly calls: LLMCallOptions[] = [];
+    private responses = new Map<TaskType, FakeLLMResponse>();
+    private queued = new Map<TaskType, FakeLLMResponse[]>();
+
+    respond(task: TaskType, response: FakeLLMResponse): this {
+        this.responses.set(task, response);
+        return this;
+    }
+
+    respondOnce(task: TaskType, ...responses: FakeLLMResponse[]): this {
+        this.queued.set(task, [...(this.queued.get(task) || []), ...responses]);
+        return this;
+    }
+
+    callsFor(task: TaskType): LLMCallOptions[] {
+        return this.calls.filter(call => call.task === task);
+    }
+
+    async complete(options: LLMCallOptions): Promise<string> {
+        this.calls.push(options);
+        const response = this.queued.get(options.task)?.shift()
+            ?? this.responses.get(options.task)
+            ?? DEFAULT_FAKE_LLM_RESPONSES[options.task];
+        const value = typeof response === 'function' ? response(options) : response;
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+}
+
+// ============ SEARCH / SCRAPE / VIDEO ============
+
+// Base for providers with named alternatives: returnEmptyFor() makes an implementation come back empty
+abstract class AlternativeAwareFake {
+    private empty = new Set<string>();
+
+    constructor(private readonly defaultImplementation: string) {}
+
+    returnEmptyFor(...implementations: string[]): this {
+        implementations.forEach(name => this.empty.add(name));
+        return this;
+    }
+
+    protected implementation(options: ProviderCallOptions = {}): string {
+        return options.alternative || this.defaultImplementation;
+    }
+
+    protected isEmpty(options: ProviderCallOptions = {}): boolean {
+        return this.empty.has(this.implementation(options));
+    }
+}
+
+const SEARCH_SOURCES: Record<string, SearchResult['source']> = { searchSerper: 'serper', searchNewsAPI: 'newsapi' };
+
+export class FakeSearchProvider extends AlternativeAwareFake implements SearchProvider {
+    readonly calls: Array<{ keywords: string[]; implementation: string }> = [];
+
+    constructor(private readonly resultsPerKeyword = 2) {
+        super('searchTavily');
+    }
+
+    async search(keywords: string[], options: ProviderCallOptions = {}): Promise<SearchResult[]> {
+        const implementation = this.implementation(options);
+        this.calls.push({ keywords, implementation });
+        if (this.isEmpty(options)) return [];
+
+        return keywords.flatMap(keyword => Array.from({ length: this.resultsPerKeyword }, (_, i) => ({
+            title: `${keyword} - report ${i + 1}`,
+            url: `https://news.example.com/${slug(keyword)}/${i + 1}`,
+            content: `Coverage of ${keyword}.`,
+            published_date: '2025-01-01',
+            source: SEARCH_SOURCES[implementation] || 'tavily'
+        })));
+    }
+}
+
+export class FakeScrapeProvider extends AlternativeAwareFake implements ScrapeProvider {
+    readonly calls: Array<{ urls: string[]; implementation: string }> = [];
+    private pages = new Map<string, string>();
+
+    constructor() {
+        super('scrapeFirecrawl');
+    }
+
+    setPage(url: string, markdown: string): this {
+        this.pages.set(url, markdown);
+        return this;
+    }
+
+    async scrape(urls: string[], options: ProviderCallOptions = {}): Promise<ScrapeResult[]> {
+        this.calls.push({ urls, implementation: this.implementation(options) });
+
+        return urls.map(url => {
+            if (this.isEmpty(options)) return { url, markdown: '', status: 'failed', error: 'Fake scrape failure' };
+            const markdown = this.pages.get(url)
+                ?? `# Article from ${url}\n\n${'Negotiators met again to discuss a ceasefire while aid access remains restricted. '.repeat(10)}`;
+            return { url, markdown, metadata: { sourceURL: url, title: `Article from ${url}` }, status: 'success' };
+        });
+    }
+}
+
+export class FakeVideoProvider extends AlternativeAwareFake implements VideoProvider {
+    readonly searches: string[][] = [];
+    readonly transcriptions: Array<{ videoIds: string[]; implementation: string }> = [];
+
+    constructor() {
+        super('getYouTubeTranscript');
+    }
+
+    async search(queries: string[], options: YouTubeSearchOptions = {}): Promise<VideoResult[]> {
+        const { maxQueries = 5, resultsPerQuery = 3 } = options;
+        this.searches.push(queries);
+
+        return queries.slice(0, maxQueries).flatMap(query => Array.from({ length: resultsPerQuery }, (_, i) => {
+            const id = `${slug(query)}-${i + 1}`;
+            return {
+                id,
+                url: `https://www.youtube.com/watch?v=${id}`,
+                title: `${query} (${i + 1})`,
+                description: `Video coverage of ${query}. `.repeat(5),
+                channel: 'Example Channel',
+                views: '1000',
+                publishedAt: '2025-01-01T00:00:00Z',
+                thumbnail: ''
+            };
+        }));
+    }
+
+    async transcribe(videos: VideoResult[], options: ProviderCallOptions = {}): Promise<TranscribedVideo[]> {
+        const implementation = this.implementation(options);
+        this.transcriptions.push({ videoIds: videos.map(v => v.id), implementation });
+
+        return videos.map(video => this.isEmpty(options)
+            ? { ...video, transcript: 'Transcript unavailable.', transcript_source: 'unavailable' as const }
+            : {
+                ...video,
+                transcript: `Transcript of ${video.title}. `.repeat(10),
+                transcript_source: implementation === 'extractFromDescription' ? 'description' as const : 'captions' as const
+            });
+    }
+}
+
+// ============ EMBEDDINGS / VECTOR STORE ============
+
+/**
+ * Deterministic bag-of-words vectors - texts sharing words get similar embeddings
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+    constructor(private readonly dimensions = 384) {}
+
+    async embed(text: string): Promise<number[]> {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+            let hash = 0;
+            for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+            vector[hash % this.dimensions] += 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map(v => v / norm);
+    }
+}
+
+export class InMemoryVectorStore implements VectorStore {
+    readonly rows: Array<SourceEmbeddingRow & { created_at: string }> = [];
+
+    async insert(row: SourceEmbeddingRow): Promise<{ error: unknown }> {
+        this.rows.push({ ...row, created_at: new Date().toISOString() });
+        return { error: null };
+    }
+
+    async match(embedding: number[], threshold: number, count: number): Promise<{ data: EmbeddingMatch[]; error: unknown }> {
+        const data = this.rows
+            .map(row => ({ row, similarity: cosineSimilarity(embedding, row.embedding) }))
+            .filter(({ similarity }) => similarity >= threshold)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, count)
+            .map(({ row, similarity }) => toMatch(row, similarity));
+        return { data, error: null };
+    }
+
+    async listByTopic(topic: string, limit: number): Promise<{ data: EmbeddingMatch[]; error: unknown }> {
+        const data = this.rows
+            .filter(row => row.topic.toLowerCase().includes(topic.toLowerCase()))
+            .reverse()  // Newest first
+            .slice(0, limit)
+            .map(row => toMatch(row, 1));
+        return { data, error: null };
+    }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function toMatch(row: SourceEmbeddingRow, similarity: number): EmbeddingMatch {
+    const { embedding: _embedding, ...rest } = row;
+    return { ...rest, similarity };
+}
+
+// ============ DOCUMENT STORE ============
+
+class ArrayUnion {
+    constructor(readonly elements: unknown[]) {}
+}
+
+/**
+ * Firestore stand-in: documents live in a Map keyed by path ("reports/abc/checkpoints/step1").
+ * Supports the subset in providers.ts - set (with merge), update (dotted paths, arrayUnion),
+ * add, delete, collection listing and select().
+ */
+export class InMemoryDocumentStore implements DocumentStore {
+    private documents = new Map<string, DocumentData>();
+    private nextId = 1;
+
+    collection(path: string): CollectionRef {
+        return new FakeCollectionRef(this, path);
+    }
+
+    arrayUnion(...elements: unknown[]): unknown {
+        return new ArrayUnion(elements);
+    }
+
+    // ---------- Inspection ----------
+
+    getDocument(path: string): DocumentData | undefined {
+        const data = this.documents.get(path);
+        return data && structuredClone(data);
+    }
+
+    listPaths(prefix = ''): string[] {
+        return Array.from(this.documents.keys()).filter(path => path.startsWith(prefix)).sort();
+    }
+
+    clear(): void {
+        this.documents.clear();
+    }
+
+    // ---------- Used by the refs ----------
+
+    generateId(): string {
+        return `doc_${this.nextId++}`;
+    }
+
+    read(path: string): DocumentData | undefined {
+        return this.getDocument(path);
+    }
+
+    write(path: string, data: DocumentData, merge: boolean): void {
+        const base = merge ? this.documents.get(path) || {} : {};
+        this.documents.set(path, applyFields(structuredClone(base), data, false));
+    }
+
+    update(path: string, data: DocumentData): void {
+        const existing = this.documents.get(path);
+        if (!existing) throw new Error(`5 NOT_FOUND: No document to update: ${path}`);
+        this.documents.set(path, applyFields(structuredClone(existing), data, true));
+    }
+
+    remove(path: string): void {
+        this.documents.delete(path);
+    }
+
+    // Documents directly inside a collection (not in its subcollections)
+    listCollection(path: string): string[] {
+        const depth = path.split('/').length + 1;
+        return this.listPaths(`${path}/`).filter(docPath => docPath.split('/').length === depth);
+    }
+}
+
+// Writes field values; update() treats "a.b" keys as nested paths like Firestore
+function applyFields(target: DocumentData, data: DocumentData, dottedPaths: boolean): DocumentData {
+    for (const [key, value] of Object.entries(data)) {
+        if (value === undefined) continue;
+        const path = dottedPaths ? key.split('.') : [key];
+        let parent = target;
+        for (const segment of path.slice(0, -1)) {
+            if (typeof parent[segment] !== 'object' || parent[segment] === null) parent[segment] = {};
+            parent = parent[segment];
+        }
+        const field = path[path.length - 1];
+
+        if (value instanceof ArrayUnion) {
+            const current: unknown[] = Array.isArray(parent[field]) ? parent[field] : [];
+            const seen = new Set(current.map(item => JSON.stringify(item)));
+            parent[field] = [...current, ...structuredClone(value.elements).filter(item => !seen.has(JSON.stringify(item)))];
+        } else {
+            parent[field] = structuredClone(value);
+        }
+    }
+    return target;
+}
+
+class FakeDocumentRef implements DocumentRef {
+    readonly id: string;
+
+    constructor(private store: InMemoryDocumentStore, readonly path: string) {
+        this.id = path.split('/').pop()!;
+    }
+
+    async get(): Promise<DocumentSnapshot> {
+        return snapshot(this, this.store.read(this.path));
+    }
+
+    async set(data: DocumentData, options: { merge?: boolean } = {}): Promise<void> {
+        this.store.write(this.path, data, !!options.merge);
+    }
+
+    async update(data: DocumentData): Promise<void> {
+        this.store.update(this.path, data);
+    }
+
+    async delete(): Promise<void> {
+        this.store.remove(this.path);
+    }
+
+    collection(path: string): CollectionRef {
+        return new FakeCollectionRef(this.store, `${this.path}/${path}`);
+    }
+}
+
+class FakeCollectionRef implements CollectionRef {
+    constructor(private store: InMemoryDocumentStore, private path: string) {}
+
+    doc(id: string): DocumentRef {
+        return new FakeDocumentRef(this.store, `${this.path}/${id}`);
+    }
+
+    async add(data: DocumentData): Promise<DocumentRef> {
+        const ref = this.doc(this.store.generateId());
+        await ref.set(data);
+        return ref;
+    }
+
+    async get(): Promise<QuerySnapshot> {
+        return this.query();
+    }
+
+    select(...fields: string[]): { get(): Promise<QuerySnapshot> } {
+        return { get: async () => this.query(fields) };
+    }
+
+    private query(fields?: string[]): QuerySnapshot {
+        const docs = this.store.listCollection(this.path).map(docPath => {
+            const data = this.store.read(docPath);
+            const selected = data && fields
+                ? Object.fromEntries(fields.filter(field => field in data).map(field => [field, data[field]]))
+                : data;
+            return snapshot(new FakeDocumentRef(this.store, docPath), selected);
+        });
+        return { docs, size: docs.length, empty: docs.length === 0, forEach: callback => docs.forEach(callback) };
+    }
+}
+
+function snapshot(ref: DocumentRef, data: DocumentData | undefined): DocumentSnapshot {
+    return {
+        id: ref.id,
+        exists: data !== undefined,
+        ref,
+        data: () => data && structuredClone(data),
+        get: (field: string) => data?.[field]
+    };
+}
+
+// ============ INSTALL ============
+
+export interface FakeProviders {
+    llm: FakeLLM;
+    search: FakeSearchProvider;
+    scrape: FakeScrapeProvider;
+    video: FakeVideoProvider;
+    embeddings: FakeEmbeddingProvider;
+    vectorStore: InMemoryVectorStore;
+    documents: InMemoryDocumentStore;
+}
+
+/**
+ * Create fakes for every provider and inject them (pass your own instances to customise).
+ * Call resetProviders() (providers.ts) to go back to the live clients.
+ */
+export function installFakeProviders(custom: Partial<FakeProviders> = {}): FakeProviders {
+    const fakes: FakeProviders = {
+        llm: custom.llm || new FakeLLM(),
+        search: custom.search || new FakeSearchProvider(),
+        scrape: custom.scrape || new FakeScrapeProvider(),
+        video: custom.video || new FakeVideoProvider(),
+        embeddings: custom.embeddings || new FakeEmbeddingProvider(),
+        vectorStore: custom.vectorStore || new InMemoryVectorStore(),
+        documents: custom.documents || new InMemoryDocumentStore()
+    };
+    setProviders(fakes satisfies Providers);
+    return fakes;
+}
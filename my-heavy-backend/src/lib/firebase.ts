@@ -1,7 +1,18 @@
 import * as admin from 'firebase-admin';
-import { getFirestore } from 'firebase-admin/firestore';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getAuth, DecodedIdToken } from 'firebase-admin/auth';
+import { DocumentStore, getProviderOverride } from './providers';
+
+function initializeFirebase(): void {
+    if (admin.apps.length) return;
+
+    if (process.env.FIRESTORE_EMULATOR_HOST) {
+        // Local emulator (e.g. cassette replay runs) - no credentials needed
+        admin.initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID || 'demo-insight' });
+        console.log(`[Firebase] Using Firestore emulator at ${process.env.FIRESTORE_EMULATOR_HOST}`);
+        return;
+    }
 
-if (!admin.apps.length) {
     // Check for service account credentials
     // Priority: FIREBASE_SERVICE_ACCOUNT_BASE64 > GOOGLE_APPLICATION_CREDENTIALS > applicationDefault
 
@@ -30,4 +41,33 @@ if (!admin.apps.length) {
     });
 }
 
-export const db = getFirestore();
+let firestoreStore: DocumentStore | null = null;
+
+// Initialized on first use, so modules can be loaded with an injected store and no credentials
+function getFirestoreStore(): DocumentStore {
+    if (!firestoreStore) {
+        initializeFirebase();
+        const firestore = getFirestore();
+        firestoreStore = {
+            collection: (path) => firestore.collection(path),
+            arrayUnion: (...elements) => FieldValue.arrayUnion(...elements)
+        };
+    }
+    return firestoreStore;
+}
+
+const activeStore = (): DocumentStore => getProviderOverride('documents') || getFirestoreStore();
+
+// Injected document store (providers.ts) if set, Firestore otherwise
+export const db: DocumentStore = {
+    collection: (path) => activeStore().collection(path),
+    arrayUnion: (...elements) => activeStore().arrayUnion(...elements)
+};
+
+/**
+ * Verify a Firebase Auth ID token sent by the frontend (Authorization: Bearer <token>)
+ */
+export async function verifyIdToken(idToken: string): Promise<DecodedIdToken> {
+    initializeFirebase();
+    return getAuth().verifyIdToken(idToken);
+}
@@ -1,5 +1,7 @@
 import FirecrawlApp from '@mendable/firecrawl-js';
 import dotenv from 'dotenv';
+import { throwIfAborted } from './cancellation';
+import { withCassette, cassetteApiKey } from './cassette';
 
 dotenv.config();
 
@@ -7,10 +9,11 @@ let firecrawlApp: FirecrawlApp | null = null;
 
 function getFirecrawl() {
     if (!firecrawlApp) {
-        if (!process.env.FIRECRAWL_API_KEY) {
+        const apiKey = cassetteApiKey(process.env.FIRECRAWL_API_KEY);
+        if (!apiKey) {
             throw new Error("FIRECRAWL_API_KEY is missing. Please set it in your environment variables.");
         }
-        firecrawlApp = new FirecrawlApp({ apiKey: process.env.FIRECRAWL_API_KEY });
+        firecrawlApp = new FirecrawlApp({ apiKey });
     }
     return firecrawlApp;
 }
@@ -23,7 +26,7 @@ export interface ScrapeResult {
     error?: string;
 }
 
-export async function scrapeFirecrawlV2(urls: string[]): Promise<ScrapeResult[]> {
+export async function scrapeFirecrawlV2(urls: string[], signal?: AbortSignal): Promise<ScrapeResult[]> {
     const app = getFirecrawl();
     const results: ScrapeResult[] = [];
 
@@ -32,13 +35,14 @@ export async function scrapeFirecrawlV2(urls: string[]): Promise<ScrapeResult[]>
     const CHUNK_SIZE = 3;
 
     for (let i = 0; i < urls.length; i += CHUNK_SIZE) {
+        throwIfAborted(signal);  // The Firecrawl SDK can't abort a request - stop between chunks
         const chunk = urls.slice(i, i + CHUNK_SIZE);
         const promises = chunk.map(async (url) => {
             try {
                 console.log(`🔥 Firecrawling: ${url}`);
-                const scrapeResponse = await app.scrapeUrl(url, {
+                const scrapeResponse = await withCassette('firecrawl', { url, formats: ['markdown'] }, () => app.scrapeUrl(url, {
                     formats: ['markdown'],
-                });
+                }));
 
                 if (!scrapeResponse.success) {
                     throw new Error(`Firecrawl failed: ${JSON.stringify(scrapeResponse.error)}`);
@@ -1,98 +1,81 @@
-import Groq from 'groq-sdk';
+/**
+ * groq.ts
+ * Legacy Groq-only entry points, now routed through callLLM (llmProvider.ts)
+ *
+ * callGroqWithFallback / callGroqStructured used to walk a hard-coded Groq model
+ * chain (MODEL_CHAINS) with their own retry loop. They are kept as a
+ * compatibility shim: the chain only selects the TaskType, and the call goes
+ * through callLLM like everything else - configured chains with OpenRouter /
+ * Gemini fallbacks, quotas, circuit breaker, cache, usage and attempt logging.
+ * New code calls callLLM / callLLMStructured with a TaskType directly.
+ */
+
 import dotenv from 'dotenv';
+import { callLLM, callLLMStructured, TaskType } from './llmProvider';
+import { OutputSchema } from './outputSchema';
 
 dotenv.config();
 
-let groq: Groq | null = null;
+// Single Groq client (cassette-aware) shared with the groq model provider plugin
+export { getGroqClient } from './modelProviders';
 
-// ============ MODEL FALLBACK CHAINS ============
-// For each use case, define ordered models (fast/cheap first, heavy last)
+// ============ LEGACY MODEL CHAINS ============
+// Only used to pick the TaskType of a callGroqWithFallback call - the models
+// themselves come from the task's chain (TASK_MODELS / config/models)
+/** @deprecated Call callLLM with a TaskType */
 export const MODEL_CHAINS = {
-    // Low complexity: Keywords, Queries
-    KEYWORDS: [
-        "llama-3.1-8b-instant",    // Fast, cheap
-        "gemma2-9b-it",            // Backup
-        "llama-3.3-70b-versatile"  // Heavy fallback
-    ],
-    // Medium complexity: Summarization, Structuring
-    SUMMARIZE: [
-        "llama-3.1-8b-instant",
-        "llama-3.3-70b-versatile"
-    ],
-    // High complexity: Classification, Verification
-    CLASSIFY: [
-        "llama-3.3-70b-versatile", // Needs reasoning power
-        "llama-3.1-70b-versatile"  // Backup
-    ],
-    // Default fallback
-    DEFAULT: [
-        "llama-3.3-70b-versatile"
-    ]
+    KEYWORDS: ["llama-3.1-8b-instant", "gemma2-9b-it", "llama-3.3-70b-versatile"],
+    SUMMARIZE: ["llama-3.1-8b-instant", "llama-3.3-70b-versatile"],
+    CLASSIFY: ["llama-3.3-70b-versatile"],
+    DEFAULT: ["llama-3.3-70b-versatile"]
 };
 
-export function getGroqClient() {
-    if (!groq) {
-        if (!process.env.GROQ_API_KEY) {
-            console.error("GROQ_API_KEY is missing!");
-            throw new Error("GROQ_API_KEY is missing. Please add it to your environment variables.");
-        }
-        groq = new Groq({
-            apiKey: process.env.GROQ_API_KEY,
-        });
-    }
-    return groq;
-}
+// Keyed by the chain's contents - callers often pass a copy or their own literal.
+// CLASSIFY and DEFAULT list the same model, so that chain maps to the general task;
+// classification callers pass `task: 'CLASSIFY'`.
+const chainKey = (chain: readonly string[]) => chain.join(',');
 
-// ============ GENERIC CALL WITH FALLBACK ============
+const CHAIN_TASKS = new Map<string, TaskType>([
+    [chainKey(MODEL_CHAINS.KEYWORDS), 'KEYWORDS'],
+    [chainKey(MODEL_CHAINS.SUMMARIZE), 'SUMMARIZE'],
+    [chainKey(MODEL_CHAINS.DEFAULT), 'REPORT']
+]);
+
+// Unknown chains get a general-purpose, non-reasoning task
+const DEFAULT_LEGACY_TASK: TaskType = 'REPORT';
+
+// ============ COMPATIBILITY SHIM ============
 interface GroqCallOptions {
     messages: Array<{ role: "user" | "system" | "assistant"; content: string }>;
-    modelChain: string[];
+    modelChain: string[];  // Ignored apart from selecting the task when `task` is not set
     temperature?: number;
     jsonMode?: boolean;
+    task?: TaskType;
+    output?: OutputSchema<unknown>;  // Validate (and repair) every response - see outputSchema.ts
 }
 
-export async function callGroqWithFallback(options: GroqCallOptions): Promise<string> {
-    const groq = getGroqClient();
-    const { messages, modelChain, temperature = 0.3, jsonMode = false } = options;
-
-    for (const model of modelChain) {
-        try {
-            console.log(`[Groq] Trying model: ${model}`);
-
-            const completion = await groq.chat.completions.create({
-                messages,
-                model,
-                temperature,
-                stream: false,
-                ...(jsonMode ? { response_format: { type: "json_object" } } : {})
-            });
-
-            const content = completion.choices[0]?.message?.content || "";
-            console.log(`[Groq] Success with model: ${model}`);
-            return content;
-
-        } catch (error: unknown) {
-            const err = error as Error;
-            console.warn(`[Groq] Model ${model} failed: ${err.message}`);
-
-            // Check if it's a rate limit or quota error
-            if (err.message?.includes("rate_limit") || err.message?.includes("quota")) {
-                console.log(`[Groq] Rate limit hit, trying next model...`);
-                continue;
-            }
+const warnedCallers = new Set<TaskType>();
 
-            // Check if model doesn't exist
-            if (err.message?.includes("model_not_found") || err.message?.includes("does not exist")) {
-                console.log(`[Groq] Model not found, trying next...`);
-                continue;
-            }
-
-            // For other errors, try next model
-            continue;
-        }
+function legacyTask(options: GroqCallOptions, caller: string): TaskType {
+    const task = options.task || CHAIN_TASKS.get(chainKey(options.modelChain || [])) || DEFAULT_LEGACY_TASK;
+    if (!warnedCallers.has(task)) {
+        warnedCallers.add(task);
+        console.warn(`[Groq] ${caller} is deprecated - routing ${task} through callLLM`);
     }
+    return task;
+}
+
+/** @deprecated Call callLLM with a TaskType */
+export async function callGroqWithFallback(options: GroqCallOptions): Promise<string> {
+    // Unset values stay unset so the task's configured defaults apply
+    const { messages, temperature, jsonMode, output } = options;
+    return callLLM({ task: legacyTask(options, 'callGroqWithFallback'), messages, temperature, jsonMode, output });
+}
 
-    throw new Error(`All models in chain failed: ${modelChain.join(", ")}`);
+/** @deprecated Call callLLMStructured with a TaskType */
+export async function callGroqStructured<T>(options: Omit<GroqCallOptions, 'output' | 'jsonMode'>, output: OutputSchema<T>): Promise<T> {
+    const { messages, temperature } = options;
+    return callLLMStructured({ task: legacyTask(options, 'callGroqStructured'), messages, temperature }, output);
 }
 
 // ============ KEYWORD GENERATION (WITH FALLBACK) ============
@@ -123,12 +106,12 @@ Output: ["Sudan civil war", "RSF Rapid Support Forces", "SAF Sudan Army", "Khart
 </example>`;
 
     try {
-        const content = await callGroqWithFallback({
+        const content = await callLLM({
+            task: 'KEYWORDS',
             messages: [
                 { role: "system", content: systemPrompt },
                 { role: "user", content: userPrompt }
             ],
-            modelChain: MODEL_CHAINS.KEYWORDS,
             temperature: 0.4,
             jsonMode: true
         });
@@ -1,5 +1,7 @@
-import { callGroqWithFallback, MODEL_CHAINS, getGroqClient } from './groq';
+import { callLLMStructured } from './llmProvider';
 import { VideoResult } from './youtubeSearch';
+import { defineOutput, object, string, number, boolean, array } from './outputSchema';
+import { definePrompt, renderPrompt } from './promptRegistry';
 
 export interface ClassifiedVideo {
     video_id: string;
@@ -15,27 +17,31 @@ export interface ClassifiedVideo {
     reason: string;
 }
 
-export async function classifyVideosGroq(
-    topic: string,
-    videos: VideoResult[]
-): Promise<ClassifiedVideo[]> {
-    const currentDate = new Date().toISOString().split('T')[0];
-
-    const videoSummaries = videos.map((v, i) => `<video index="${i + 1}" id="${v.id}">
-Title: ${v.title}
-Channel: ${v.channel}
-Views: ${v.views}
-Published: ${v.publishedAt}
-Description: ${v.description?.substring(0, 250) || "No description"}
-</video>`).join("\n");
-
-    const systemPrompt = `You are a video research curator. Score and filter videos for inclusion in a professional research report. Be strict - only recommend high-quality, relevant content. Output ONLY valid JSON.`;
+// What the model returns - merged with the video metadata into ClassifiedVideo
+interface VideoClassification {
+    video_id: string;
+    keep: boolean;
+    score: number;
+    reason: string;
+}
 
-    const userPrompt = `<topic>${topic}</topic>
-<date>${currentDate}</date>
+const CLASSIFIED_VIDEO_OUTPUT = defineOutput<{ classifications: VideoClassification[] }>('ClassifiedVideo', object({
+    classifications: array(object({
+        video_id: string({ nonEmpty: true }),
+        keep: boolean(),
+        score: number({ min: 0, max: 100 }),
+        reason: string()
+    }))
+}));
+
+const CLASSIFY_PROMPT = definePrompt('classify.videos', {
+    v1: {
+        system: `You are a video research curator. Score and filter videos for inclusion in a professional research report. Be strict - only recommend high-quality, relevant content. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
+<date>{{date}}</date>
 
 <videos>
-${videoSummaries}
+{{videos}}
 </videos>
 
 <task>
@@ -67,44 +73,54 @@ Classify each video for research report inclusion.
     {"video_id": "VIDEO_2", "keep": false, "score": 25, "reason": "Music video compilation, not informative"}
   ]
 }
-</example>`;
+</example>`
+    }
+});
 
+export async function classifyVideosGroq(
+    topic: string,
+    videos: VideoResult[]
+): Promise<ClassifiedVideo[]> {
+    const currentDate = new Date().toISOString().split('T')[0];
+
+    const videoSummaries = videos.map((v, i) => `<video index="${i + 1}" id="${v.id}">
+Title: ${v.title}
+Channel: ${v.channel}
+Views: ${v.views}
+Published: ${v.publishedAt}
+Description: ${v.description?.substring(0, 250) || "No description"}
+</video>`).join("\n");
+
+    const prompt = await renderPrompt(CLASSIFY_PROMPT, { topic, date: currentDate, videos: videoSummaries });
 
     try {
-        const text = await callGroqWithFallback({
+        const parsed = await callLLMStructured({
+            task: 'CLASSIFY',
             messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
             ],
-            modelChain: MODEL_CHAINS.CLASSIFY,
-            temperature: 0.1,
-            jsonMode: true
-        });
-
-        console.log("Groq Classification Raw Response:", text.substring(0, 500));
-
-        const parsed = JSON.parse(text);
+            temperature: 0.1
+        }, CLASSIFIED_VIDEO_OUTPUT);
 
         // Build result map - handle both "VIDEO_1" and actual video IDs
         const classificationMap = new Map<string, { keep: boolean; score: number; reason: string }>();
 
-        if (parsed.classifications && Array.isArray(parsed.classifications)) {
-            console.log(`Parsed ${parsed.classifications.length} classifications`);
-
-            parsed.classifications.forEach((c: { video_id: string; keep: boolean; score: number; reason: string }, idx: number) => {
-                // Try VIDEO_X format first
-                const match = c.video_id.match(/VIDEO_(\d+)/i);
-                if (match) {
-                    const vidIdx = parseInt(match[1], 10) - 1;
-                    if (videos[vidIdx]) {
-                        classificationMap.set(videos[vidIdx].id, { keep: c.keep, score: c.score, reason: c.reason });
-                    }
-                } else {
-                    // Assume it's a direct video ID
-                    classificationMap.set(c.video_id, { keep: c.keep, score: c.score, reason: c.reason });
+        console.log(`Parsed ${parsed.classifications.length} classifications`);
+
+        parsed.classifications.forEach((c) => {
+            // Try VIDEO_X format first
+            const match = c.video_id.match(/VIDEO_(\d+)/i);
+            if (match) {
+                const vidIdx = parseInt(match[1], 10) - 1;
+                if (videos[vidIdx]) {
+                    classificationMap.set(videos[vidIdx].id, { keep: c.keep, score: c.score, reason: c.reason });
                 }
-            });
-        }
+            } else {
+                // Assume it's a direct video ID
+                classificationMap.set(c.video_id, { keep: c.keep, score: c.score, reason: c.reason });
+            }
+        });
 
         // Transform to ClassifiedVideo
         const results: ClassifiedVideo[] = videos.map((v) => {
@@ -4,8 +4,10 @@
  * Target audience: Teen to pre-adult (15-25)
  */
 
-import { callLLM } from './llmProvider';
+import { callLLMStructured } from './llmProvider';
 import { DeepAnalysis } from './groqDeepAnalysis';
+import { defineOutput, object, string, number, array, oneOf, optional } from './outputSchema';
+import { definePrompt, renderPrompt } from './promptRegistry';
 
 // ============ OUTPUT INTERFACES ============
 
@@ -36,28 +38,56 @@ export interface ContentIdeasResult {
     };
 }
 
-// ============ PLATFORM-SPECIFIC GENERATORS ============
-
-async function generateReelIdeas(
-    topic: string,
-    analysis: DeepAnalysis
-): Promise<ContentIdea[]> {
-    console.log('[ContentIdeas] Generating Instagram/TikTok Reel ideas...');
-
-    const keyFacts = analysis.key_facts.slice(0, 5).map(f => f.fact).join('\n- ');
-    const keyActors = analysis.geopolitical_analysis.key_actors.slice(0, 3)
-        .map(a => `${a.name}: ${a.role}`).join('\n- ');
+// What the model returns per idea - id and platform are set by each generator
+type GeneratedIdea = Omit<ContentIdea, 'id' | 'platform' | 'visual_style' | 'ethical_notes' | 'source_reference' | 'call_to_action'>
+    & Partial<Pick<ContentIdea, 'id' | 'visual_style' | 'ethical_notes' | 'source_reference' | 'call_to_action'>>;
+
+const CONTENT_IDEAS_OUTPUT = defineOutput<{ ideas: GeneratedIdea[] }>('ContentIdea', object({
+    ideas: array(object({
+        id: optional(string()),
+        hook: string({ nonEmpty: true }),
+        script: string({ nonEmpty: true }),
+        key_message: string({ nonEmpty: true }),
+        visual_style: optional(string()),
+        sensitivity_level: oneOf(['standard', 'cautious', 'sensitive']),
+        ethical_notes: optional(array(string())),
+        source_reference: optional(string()),
+        priority: number({ min: 1, max: 5 }),
+        call_to_action: optional(string()),
+        hashtags: array(string())
+    }), { min: 1 })
+}));
+
+function toContentIdea(idea: GeneratedIdea, platform: ContentIdea['platform'], id: string): ContentIdea {
+    return {
+        id: idea.id || id,
+        platform,
+        hook: idea.hook,
+        script: idea.script,
+        key_message: idea.key_message,
+        visual_style: idea.visual_style || '',
+        sensitivity_level: idea.sensitivity_level,
+        ethical_notes: idea.ethical_notes || [],
+        source_reference: idea.source_reference || '',
+        priority: idea.priority,
+        call_to_action: idea.call_to_action || '',
+        hashtags: idea.hashtags
+    };
+}
 
-    const systemPrompt = `You are a viral content strategist for youth activism. Create engaging, educational content for Instagram/TikTok. Be punchy, authentic, and impactful. Output ONLY valid JSON arrays.`;
+// ============ PROMPTS ============
 
-    const userPrompt = `<topic>${topic}</topic>
+const REELS_PROMPT = definePrompt('contentIdeas.reels', {
+    v1: {
+        system: `You are a viral content strategist for youth activism. Create engaging, educational content for Instagram/TikTok. Be punchy, authentic, and impactful. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <facts>
-- ${keyFacts}
+- {{facts}}
 </facts>
 
 <actors>
-- ${keyActors}
+- {{actors}}
 </actors>
 
 <audience>Youth (15-25), socially conscious, Instagram/TikTok users</audience>
@@ -81,7 +111,7 @@ Generate 3-4 Instagram Reel ideas.
 </avoid>
 
 <example>
-[{
+{"ideas": [{
   "id": "reel_1",
   "platform": "instagram_reel",
   "hook": "Nobody's talking about this",
@@ -94,63 +124,22 @@ Generate 3-4 Instagram Reel ideas.
   "priority": 2,
   "call_to_action": "Share this with someone who needs to know",
   "hashtags": ["#awareness", "#truth", "#news"]
-}]
-</example>`;
-
-    try {
-        const response = await callLLM({
-            task: 'CONTENT_IDEAS',
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: 0.6,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        return (Array.isArray(parsed) ? parsed : []).map((idea: Record<string, unknown>, idx: number) => ({
-            id: String(idea.id || `reel_${idx + 1}`),
-            platform: 'instagram_reel' as const,
-            hook: String(idea.hook || ''),
-            script: String(idea.script || ''),
-            key_message: String(idea.key_message || ''),
-            visual_style: String(idea.visual_style || ''),
-            sensitivity_level: (idea.sensitivity_level as ContentIdea['sensitivity_level']) || 'standard',
-            ethical_notes: Array.isArray(idea.ethical_notes) ? idea.ethical_notes.map(String) : [],
-            source_reference: String(idea.source_reference || ''),
-            priority: Number(idea.priority) || 3,
-            call_to_action: String(idea.call_to_action || ''),
-            hashtags: Array.isArray(idea.hashtags) ? idea.hashtags.map(String) : []
-        }));
-
-    } catch (error) {
-        console.error('[ContentIdeas] Reel generation error:', error);
-        return [];
+}]}
+</example>`
     }
-}
+});
 
-async function generateCarouselIdeas(
-    topic: string,
-    analysis: DeepAnalysis
-): Promise<ContentIdea[]> {
-    console.log('[ContentIdeas] Generating carousel ideas...');
-
-    const predictions = analysis.predictions.slice(0, 3)
-        .map(p => `${p.scenario} (${p.probability})`).join('\n- ');
-    const riskItems = analysis.risk_matrix.slice(0, 3)
-        .map(r => `${r.risk} - ${r.likelihood}`).join('\n- ');
-
-    const systemPrompt = `You are an educational content designer for Instagram. Create informative carousel posts that break down complex topics into digestible slides. Output ONLY valid JSON arrays.`;
-
-    const userPrompt = `<topic>${topic}</topic>
+const CAROUSELS_PROMPT = definePrompt('contentIdeas.carousels', {
+    v1: {
+        system: `You are an educational content designer for Instagram. Create informative carousel posts that break down complex topics into digestible slides. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <insights>
-${analysis.geopolitical_analysis.summary?.substring(0, 500) || 'No summary available'}
+{{insights}}
 </insights>
 
 <predictions>
-- ${predictions}
+- {{predictions}}
 </predictions>
 
 <audience>Youth (15-25), visual learners, Instagram users</audience>
@@ -173,7 +162,7 @@ Generate 2-3 Instagram Carousel ideas (swipe-through educational format).
 </avoid>
 
 <example>
-[{
+{"ideas": [{
   "id": "carousel_1",
   "platform": "carousel",
   "hook": "5 things you need to know about X",
@@ -186,100 +175,133 @@ Generate 2-3 Instagram Carousel ideas (swipe-through educational format).
   "priority": 2,
   "call_to_action": "Save this and share with friends",
   "hashtags": ["#education", "#awareness", "#infographic"]
-}]
-</example>`;
+}]}
+</example>`
+    }
+});
+
+const THREAD_PROMPT = definePrompt('contentIdeas.thread', {
+    v1: {
+        user: `
+TOPIC: "{{topic}}"
+
+GEOPOLITICAL SUMMARY:
+{{summary}}
+
+ISLAMIC PERSPECTIVE:
+{{islamicPerspective}}
+
+RECOMMENDATIONS:
+- {{recommendations}}
+
+AUDIENCE: Youth (15-25 years), Twitter/X users, appreciate nuanced takes
+
+TASK: Generate 1-2 Twitter/X thread ideas.
+
+Each thread should:
+- Have a killer first tweet (hook)
+- Be 5-10 tweets long (outline the thread flow in script)
+- Include a perspective that isn't mainstream
+- End with discussion question or call to action
+
+OUTPUT: JSON object {"ideas": [...]} where each idea has id, hook, script, key_message,
+visual_style, sensitivity_level ("standard" | "cautious" | "sensitive"), ethical_notes,
+source_reference, priority (1-5), call_to_action and hashtags.`
+    }
+});
+
+// ============ PLATFORM-SPECIFIC GENERATORS ============
+
+async function generateReelIdeas(
+    topic: string,
+    analysis: DeepAnalysis
+): Promise<ContentIdea[]> {
+    console.log('[ContentIdeas] Generating Instagram/TikTok Reel ideas...');
+
+    const keyFacts = analysis.key_facts.slice(0, 5).map(f => f.fact).join('\n- ');
+    const keyActors = analysis.geopolitical_analysis.key_actors.slice(0, 3)
+        .map(a => `${a.name}: ${a.role}`).join('\n- ');
+
+    const prompt = await renderPrompt(REELS_PROMPT, { topic, facts: keyFacts, actors: keyActors });
 
     try {
-        const response = await callLLM({
+        const { ideas } = await callLLMStructured({
             task: 'CONTENT_IDEAS',
             messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
             ],
-            temperature: 0.6,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        return (Array.isArray(parsed) ? parsed : []).map((idea: Record<string, unknown>, idx: number) => ({
-            id: String(idea.id || `carousel_${idx + 1}`),
-            platform: 'carousel' as const,
-            hook: String(idea.hook || ''),
-            script: String(idea.script || ''),
-            key_message: String(idea.key_message || ''),
-            visual_style: String(idea.visual_style || ''),
-            sensitivity_level: (idea.sensitivity_level as ContentIdea['sensitivity_level']) || 'standard',
-            ethical_notes: Array.isArray(idea.ethical_notes) ? idea.ethical_notes.map(String) : [],
-            source_reference: String(idea.source_reference || ''),
-            priority: Number(idea.priority) || 3,
-            call_to_action: String(idea.call_to_action || ''),
-            hashtags: Array.isArray(idea.hashtags) ? idea.hashtags.map(String) : []
-        }));
+            temperature: 0.6
+        }, CONTENT_IDEAS_OUTPUT);
+
+        return ideas.map((idea, idx) => toContentIdea(idea, 'instagram_reel', `reel_${idx + 1}`));
 
     } catch (error) {
-        console.error('[ContentIdeas] Carousel generation error:', error);
+        console.error('[ContentIdeas] Reel generation error:', error);
         return [];
     }
 }
 
-async function generateTwitterThread(
+async function generateCarouselIdeas(
     topic: string,
     analysis: DeepAnalysis
 ): Promise<ContentIdea[]> {
-    console.log('[ContentIdeas] Generating Twitter thread ideas...');
-
-    const islamicPerspective = analysis.islamic_perspective.ethical_considerations.join(', ');
-    const recommendations = analysis.recommendations.slice(0, 3)
-        .map(r => `${r.action} (${r.target_audience})`).join('\n- ');
+    console.log('[ContentIdeas] Generating carousel ideas...');
 
-    const prompt = `
-TOPIC: "${topic}"
+    const predictions = analysis.predictions.slice(0, 3)
+        .map(p => `${p.scenario} (${p.probability})`).join('\n- ');
+    const riskItems = analysis.risk_matrix.slice(0, 3)
+        .map(r => `${r.risk} - ${r.likelihood}`).join('\n- ');
 
-GEOPOLITICAL SUMMARY:
-${analysis.geopolitical_analysis.summary}
+    const prompt = await renderPrompt(CAROUSELS_PROMPT, {
+        topic,
+        insights: analysis.geopolitical_analysis.summary?.substring(0, 500) || 'No summary available',
+        predictions
+    });
 
-ISLAMIC PERSPECTIVE:
-${islamicPerspective}
+    try {
+        const { ideas } = await callLLMStructured({
+            task: 'CONTENT_IDEAS',
+            messages: [
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
+            ],
+            temperature: 0.6
+        }, CONTENT_IDEAS_OUTPUT);
 
-RECOMMENDATIONS:
-- ${recommendations}
+        return ideas.map((idea, idx) => toContentIdea(idea, 'carousel', `carousel_${idx + 1}`));
 
-AUDIENCE: Youth (15-25 years), Twitter/X users, appreciate nuanced takes
+    } catch (error) {
+        console.error('[ContentIdeas] Carousel generation error:', error);
+        return [];
+    }
+}
 
-TASK: Generate 1-2 Twitter/X thread ideas.
+async function generateTwitterThread(
+    topic: string,
+    analysis: DeepAnalysis
+): Promise<ContentIdea[]> {
+    console.log('[ContentIdeas] Generating Twitter thread ideas...');
 
-Each thread should:
-- Have a killer first tweet (hook)
-- Be 5-10 tweets long (outline the thread flow in script)
-- Include a perspective that isn't mainstream
-- End with discussion question or call to action
+    const islamicPerspective = analysis.islamic_perspective.ethical_considerations.join(', ');
+    const recommendations = analysis.recommendations.slice(0, 3)
+        .map(r => `${r.action} (${r.target_audience})`).join('\n- ');
 
-OUTPUT: JSON array matching content idea structure.
-Platform should be "twitter_thread".`;
+    const prompt = await renderPrompt(THREAD_PROMPT, {
+        topic,
+        summary: analysis.geopolitical_analysis.summary,
+        islamicPerspective,
+        recommendations
+    });
 
     try {
-        const response = await callLLM({
+        const { ideas } = await callLLMStructured({
             task: 'CONTENT_IDEAS',
-            messages: [{ role: "user", content: prompt }],
-            temperature: 0.6,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        return (Array.isArray(parsed) ? parsed : []).map((idea: Record<string, unknown>, idx: number) => ({
-            id: String(idea.id || `thread_${idx + 1}`),
-            platform: 'twitter_thread' as const,
-            hook: String(idea.hook || ''),
-            script: String(idea.script || ''),
-            key_message: String(idea.key_message || ''),
-            visual_style: String(idea.visual_style || ''),
-            sensitivity_level: (idea.sensitivity_level as ContentIdea['sensitivity_level']) || 'standard',
-            ethical_notes: Array.isArray(idea.ethical_notes) ? idea.ethical_notes.map(String) : [],
-            source_reference: String(idea.source_reference || ''),
-            priority: Number(idea.priority) || 3,
-            call_to_action: String(idea.call_to_action || ''),
-            hashtags: Array.isArray(idea.hashtags) ? idea.hashtags.map(String) : []
-        }));
+            messages: [{ role: "user", content: prompt.user }],
+            temperature: 0.6
+        }, CONTENT_IDEAS_OUTPUT);
+
+        return ideas.map((idea, idx) => toContentIdea(idea, 'twitter_thread', `thread_${idx + 1}`));
 
     } catch (error) {
         console.error('[ContentIdeas] Thread generation error:', error);
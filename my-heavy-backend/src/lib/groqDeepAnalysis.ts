@@ -9,10 +9,15 @@
  * 4. Risk & Predictions
  * 5. Synthesis & Recommendations
  * + Citation Verification
+ *
+ * Quick research runs (fullAnalysis: false) only extract key facts; stages 2-5
+ * are left empty and listed in `skipped_sections`.
  */
 
-import { callLLM } from './llmProvider';
+import { callLLMStructured } from './llmProvider';
 import { CanonicalSource } from './groqNormalize';
+import { defineOutput, object, string, array, oneOf, optional } from './outputSchema';
+import { definePrompt, renderPrompt } from './promptRegistry';
 
 // ============ OUTPUT INTERFACES ============
 
@@ -88,25 +93,83 @@ export interface DeepAnalysis {
     recommendations: Recommendation[];
     humanitarian_impact: HumanitarianImpact;
     quality_metrics: QualityMetrics;
+    skipped_sections?: string[];  // Sections not generated (quick profile)
 }
 
-// ============ STAGE 1: KEY FACTS EXTRACTION ============
-async function extractKeyFacts(
-    topic: string,
-    sources: CanonicalSource[]
-): Promise<KeyFact[]> {
-    console.log('[DeepAnalysis] Stage 1: Extracting key facts...');
-
-    const sourceContext = sources.slice(0, 15).map(s =>
-        `[${s.id}] ${s.title}: ${s.summary}`
-    ).join('\n');
-
-    const systemPrompt = `You are a fact extraction specialist. Identify verifiable factual claims from source material. Be precise and always cite sources. Output ONLY valid JSON arrays.`;
+export interface DeepAnalysisOptions {
+    maxFactSources?: number;  // Sources given to key fact extraction (default 15)
+    fullAnalysis?: boolean;   // false = key facts only, skip stages 2-5 (default true)
+}
 
-    const userPrompt = `<topic>${topic}</topic>
+// ============ STAGE OUTPUT SCHEMAS ============
+// What each stage's model call must return (validated, repaired or retried on the next model)
+
+const LEVEL = ['low', 'medium', 'high'] as const;
+
+const KEY_FACTS_OUTPUT = defineOutput<{ facts: Array<Omit<KeyFact, 'verified'>> }>('DeepAnalysis.key_facts', object({
+    facts: array(object({
+        fact: string({ nonEmpty: true }),
+        source_ids: array(string())
+    }), { min: 1 })
+}));
+
+const GEOPOLITICS_OUTPUT = defineOutput<GeopoliticalAnalysis>('DeepAnalysis.geopolitical_analysis', object({
+    summary: string({ nonEmpty: true }),
+    key_actors: array(object({
+        name: string({ nonEmpty: true }),
+        role: string(),
+        motivations: array(string())
+    })),
+    power_dynamics: string(),
+    regional_implications: string(),
+    claims: array(object({ claim: string(), source_ids: array(string()) }))
+}));
+
+const ISLAMIC_PERSPECTIVE_OUTPUT = defineOutput<Omit<IslamicPerspective, 'disclaimer'> & { disclaimer?: string }>('DeepAnalysis.islamic_perspective', object({
+    disclaimer: optional(string()),
+    ethical_considerations: array(string(), { min: 1 }),
+    relevant_principles: array(string()),
+    community_impact: string()
+}));
+
+const RISKS_OUTPUT = defineOutput<{ risks: RiskItem[]; predictions: Prediction[] }>('DeepAnalysis.risks_and_predictions', object({
+    risks: array(object({
+        risk: string({ nonEmpty: true }),
+        likelihood: oneOf(LEVEL),
+        impact: oneOf(LEVEL),
+        mitigation: string()
+    })),
+    predictions: array(object({
+        scenario: string({ nonEmpty: true }),
+        timeframe: string(),
+        probability: oneOf(['unlikely', 'possible', 'likely']),
+        basis: string()
+    }))
+}));
+
+const RECOMMENDATIONS_OUTPUT = defineOutput<{ recommendations: Recommendation[]; humanitarian: HumanitarianImpact }>('DeepAnalysis.recommendations', object({
+    recommendations: array(object({
+        action: string({ nonEmpty: true }),
+        target_audience: string(),
+        priority: oneOf(LEVEL)
+    })),
+    humanitarian: object({
+        affected_populations: array(string()),
+        immediate_needs: array(string()),
+        long_term_concerns: array(string())
+    })
+}));
+
+// ============ STAGE PROMPTS ============
+// One versioned prompt per stage (promptRegistry.ts)
+
+const KEY_FACTS_PROMPT = definePrompt('deepAnalysis.keyFacts', {
+    v1: {
+        system: `You are a fact extraction specialist. Identify verifiable factual claims from source material. Be precise and always cite sources. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <sources>
-${sourceContext}
+{{sources}}
 </sources>
 
 <task>
@@ -121,61 +184,24 @@ Extract 5-10 key factual claims from these sources.
 </requirements>
 
 <schema>
-[
+{"facts": [
   {"fact": "string", "source_ids": ["article_1", "video_2"]}
-]
-</schema>`;
-
-    try {
-        const response = await callLLM({
-            task: 'EXTRACT_FACTS',
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: 0.2,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        const facts: KeyFact[] = (Array.isArray(parsed) ? parsed : []).map((f: { fact?: string; source_ids?: string[] }) => ({
-            fact: String(f.fact || ''),
-            source_ids: Array.isArray(f.source_ids) ? f.source_ids : [],
-            verified: false  // Will be verified in post-processing
-        }));
-
-        console.log(`[DeepAnalysis] Extracted ${facts.length} key facts`);
-        return facts;
-
-    } catch (error) {
-        console.error('[DeepAnalysis] Stage 1 error:', error);
-        return [];
+]}
+</schema>`
     }
-}
+});
 
-// ============ STAGE 2: GEOPOLITICAL ANALYSIS ============
-async function analyzeGeopolitics(
-    topic: string,
-    sources: CanonicalSource[],
-    facts: KeyFact[]
-): Promise<GeopoliticalAnalysis> {
-    console.log('[DeepAnalysis] Stage 2: Analyzing geopolitics...');
-
-    const factsContext = facts.map(f => `- ${f.fact}`).join('\n');
-    const sourceContext = sources.slice(0, 10).map(s =>
-        `[${s.id}] ${s.title}`
-    ).join('\n');
-
-    const systemPrompt = `You are a geopolitical analyst specializing in conflict analysis. Think step-by-step about actors, motivations, and implications. Output ONLY valid JSON.`;
-
-    const userPrompt = `<topic>${topic}</topic>
+const GEOPOLITICS_PROMPT = definePrompt('deepAnalysis.geopolitics', {
+    v1: {
+        system: `You are a geopolitical analyst specializing in conflict analysis. Think step-by-step about actors, motivations, and implications. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <facts>
-${factsContext}
+{{facts}}
 </facts>
 
 <sources>
-${sourceContext}
+{{sources}}
 </sources>
 
 <task>
@@ -206,58 +232,15 @@ Provide comprehensive geopolitical analysis.
   "regional_implications": "Neighboring countries face refugee flows and potential spillover...",
   "claims": [{"claim": "Over 100 casualties reported", "source_ids": ["article_1", "video_2"]}]
 }
-</example>`;
-
-    try {
-        const response = await callLLM({
-            task: 'REASONING',
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: 0.3,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        return {
-            summary: String(parsed.summary || ''),
-            key_actors: Array.isArray(parsed.key_actors) ? parsed.key_actors : [],
-            power_dynamics: String(parsed.power_dynamics || ''),
-            regional_implications: String(parsed.regional_implications || ''),
-            claims: Array.isArray(parsed.claims) ? parsed.claims : []
-        };
-
-    } catch (error) {
-        console.error('[DeepAnalysis] Stage 2 error:', error);
-        return {
-            summary: '',
-            key_actors: [],
-            power_dynamics: '',
-            regional_implications: '',
-            claims: []
-        };
+</example>`
     }
-}
-
-// ============ STAGE 3: ISLAMIC PERSPECTIVE ============
-async function generateIslamicPerspective(
-    topic: string,
-    facts: KeyFact[],
-    geopolitics: GeopoliticalAnalysis
-): Promise<IslamicPerspective> {
-    console.log('[DeepAnalysis] Stage 3: Generating Islamic perspective...');
-
-    const context = `
-Topic: ${topic}
-Situation: ${geopolitics.summary}
-Key Facts: ${facts.slice(0, 5).map(f => f.fact).join('; ')}
-`;
-
-    const systemPrompt = `You are a balanced Islamic studies scholar. Provide ethical perspectives based on universal Islamic principles (justice, mercy, sanctity of life). Always include a disclaimer. Be non-sectarian. Output ONLY valid JSON.`;
+});
 
-    const userPrompt = `<context>
-${context}
+const ISLAMIC_PERSPECTIVE_PROMPT = definePrompt('deepAnalysis.islamicPerspective', {
+    v1: {
+        system: `You are a balanced Islamic studies scholar. Provide ethical perspectives based on universal Islamic principles (justice, mercy, sanctity of life). Always include a disclaimer. Be non-sectarian. Output ONLY valid JSON.`,
+        user: `<context>
+{{context}}
 </context>
 
 <task>
@@ -278,55 +261,21 @@ Provide an Islamic ethical perspective on this situation.
   "relevant_principles": ["string", "string"],
   "community_impact": "string"
 }
-</schema>`;
-
-    try {
-        const response = await callLLM({
-            task: 'ISLAMIC',
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: 0.4,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        return {
-            disclaimer: String(parsed.disclaimer || 'This represents one perspective and should not be considered authoritative religious guidance.'),
-            ethical_considerations: Array.isArray(parsed.ethical_considerations) ? parsed.ethical_considerations : [],
-            relevant_principles: Array.isArray(parsed.relevant_principles) ? parsed.relevant_principles : [],
-            community_impact: String(parsed.community_impact || '')
-        };
-
-    } catch (error) {
-        console.error('[DeepAnalysis] Stage 3 error:', error);
-        return {
-            disclaimer: 'This represents one perspective and should not be considered authoritative religious guidance.',
-            ethical_considerations: [],
-            relevant_principles: [],
-            community_impact: ''
-        };
+</schema>`
     }
-}
-
-// ============ STAGE 4: RISK & PREDICTIONS ============
-async function assessRisksAndPredictions(
-    topic: string,
-    geopolitics: GeopoliticalAnalysis
-): Promise<{ risks: RiskItem[]; predictions: Prediction[] }> {
-    console.log('[DeepAnalysis] Stage 4: Assessing risks and predictions...');
-
-    const systemPrompt = `You are a risk analyst and forecaster. Assess risks systematically and make evidence-based predictions. Think step-by-step. Output ONLY valid JSON.`;
+});
 
-    const userPrompt = `<topic>${topic}</topic>
+const RISKS_PROMPT = definePrompt('deepAnalysis.risks', {
+    v1: {
+        system: `You are a risk analyst and forecaster. Assess risks systematically and make evidence-based predictions. Think step-by-step. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <situation>
-${geopolitics.summary}
+{{situation}}
 </situation>
 
 <actors>
-${geopolitics.key_actors.map(a => `- ${a.name}: ${a.role}`).join('\n')}
+{{actors}}
 </actors>
 
 <task>
@@ -354,50 +303,21 @@ Generate risk assessment and predictions.
     {"scenario": "Ceasefire within 3 months", "timeframe": "1-3 months", "probability": "possible", "basis": "International pressure mounting"}
   ]
 }
-</example>`;
-
-    try {
-        const response = await callLLM({
-            task: 'REASONING',
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: 0.4,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        return {
-            risks: Array.isArray(parsed.risks) ? parsed.risks : [],
-            predictions: Array.isArray(parsed.predictions) ? parsed.predictions : []
-        };
-
-    } catch (error) {
-        console.error('[DeepAnalysis] Stage 4 error:', error);
-        return { risks: [], predictions: [] };
+</example>`
     }
-}
-
-// ============ STAGE 5: SYNTHESIS & RECOMMENDATIONS ============
-async function synthesizeRecommendations(
-    topic: string,
-    facts: KeyFact[],
-    geopolitics: GeopoliticalAnalysis,
-    risks: RiskItem[]
-): Promise<{ recommendations: Recommendation[]; humanitarian: HumanitarianImpact }> {
-    console.log('[DeepAnalysis] Stage 5: Synthesizing recommendations...');
-
-    const systemPrompt = `You are a policy advisor and humanitarian analyst. Generate actionable recommendations for different stakeholders. Focus on practical, implementable actions. Output ONLY valid JSON.`;
+});
 
-    const userPrompt = `<topic>${topic}</topic>
+const RECOMMENDATIONS_PROMPT = definePrompt('deepAnalysis.recommendations', {
+    v1: {
+        system: `You are a policy advisor and humanitarian analyst. Generate actionable recommendations for different stakeholders. Focus on practical, implementable actions. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <findings>
-${facts.slice(0, 5).map(f => `- ${f.fact}`).join('\n')}
+{{findings}}
 </findings>
 
 <risks>
-${risks.map(r => `- ${r.risk} (${r.likelihood}/${r.impact})`).join('\n')}
+{{risks}}
 </risks>
 
 <task>
@@ -429,27 +349,200 @@ Generate recommendations and humanitarian impact assessment.
     "long_term_concerns": ["Psychological trauma", "Economic recovery", "Infrastructure rebuilding"]
   }
 }
-</example>`;
+</example>`
+    }
+});
+
+// ============ STAGE 1: KEY FACTS EXTRACTION ============
+async function extractKeyFacts(
+    topic: string,
+    sources: CanonicalSource[],
+    maxSources = 15
+): Promise<KeyFact[]> {
+    console.log('[DeepAnalysis] Stage 1: Extracting key facts...');
+
+    const sourceContext = sources.slice(0, maxSources).map(s =>
+        `[${s.id}] ${s.title}: ${s.summary}`
+    ).join('\n');
+
+    const prompt = await renderPrompt(KEY_FACTS_PROMPT, { topic, sources: sourceContext });
 
     try {
-        const response = await callLLM({
+        const parsed = await callLLMStructured({
+            task: 'EXTRACT_FACTS',
+            messages: [
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
+            ],
+            temperature: 0.2
+        }, KEY_FACTS_OUTPUT);
+
+        const facts: KeyFact[] = parsed.facts.map(f => ({
+            fact: f.fact,
+            source_ids: f.source_ids,
+            verified: false  // Will be verified in post-processing
+        }));
+
+        console.log(`[DeepAnalysis] Extracted ${facts.length} key facts`);
+        return facts;
+
+    } catch (error) {
+        console.error('[DeepAnalysis] Stage 1 error:', error);
+        return [];
+    }
+}
+
+// ============ STAGE 2: GEOPOLITICAL ANALYSIS ============
+async function analyzeGeopolitics(
+    topic: string,
+    sources: CanonicalSource[],
+    facts: KeyFact[]
+): Promise<GeopoliticalAnalysis> {
+    console.log('[DeepAnalysis] Stage 2: Analyzing geopolitics...');
+
+    const factsContext = facts.map(f => `- ${f.fact}`).join('\n');
+    const sourceContext = sources.slice(0, 10).map(s =>
+        `[${s.id}] ${s.title}`
+    ).join('\n');
+
+    const prompt = await renderPrompt(GEOPOLITICS_PROMPT, { topic, facts: factsContext, sources: sourceContext });
+
+    try {
+        const parsed = await callLLMStructured({
+            task: 'REASONING',
+            messages: [
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
+            ],
+            temperature: 0.3
+        }, GEOPOLITICS_OUTPUT);
+
+        return {
+            summary: parsed.summary,
+            key_actors: parsed.key_actors,
+            power_dynamics: parsed.power_dynamics,
+            regional_implications: parsed.regional_implications,
+            claims: parsed.claims
+        };
+
+    } catch (error) {
+        console.error('[DeepAnalysis] Stage 2 error:', error);
+        return {
+            summary: '',
+            key_actors: [],
+            power_dynamics: '',
+            regional_implications: '',
+            claims: []
+        };
+    }
+}
+
+// ============ STAGE 3: ISLAMIC PERSPECTIVE ============
+async function generateIslamicPerspective(
+    topic: string,
+    facts: KeyFact[],
+    geopolitics: GeopoliticalAnalysis
+): Promise<IslamicPerspective> {
+    console.log('[DeepAnalysis] Stage 3: Generating Islamic perspective...');
+
+    const context = `
+Topic: ${topic}
+Situation: ${geopolitics.summary}
+Key Facts: ${facts.slice(0, 5).map(f => f.fact).join('; ')}
+`;
+
+    const prompt = await renderPrompt(ISLAMIC_PERSPECTIVE_PROMPT, { context });
+
+    try {
+        const parsed = await callLLMStructured({
+            task: 'ISLAMIC',
+            messages: [
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
+            ],
+            temperature: 0.4
+        }, ISLAMIC_PERSPECTIVE_OUTPUT);
+
+        return {
+            disclaimer: parsed.disclaimer || 'This represents one perspective and should not be considered authoritative religious guidance.',
+            ethical_considerations: parsed.ethical_considerations,
+            relevant_principles: parsed.relevant_principles,
+            community_impact: parsed.community_impact
+        };
+
+    } catch (error) {
+        console.error('[DeepAnalysis] Stage 3 error:', error);
+        return {
+            disclaimer: 'This represents one perspective and should not be considered authoritative religious guidance.',
+            ethical_considerations: [],
+            relevant_principles: [],
+            community_impact: ''
+        };
+    }
+}
+
+// ============ STAGE 4: RISK & PREDICTIONS ============
+async function assessRisksAndPredictions(
+    topic: string,
+    geopolitics: GeopoliticalAnalysis
+): Promise<{ risks: RiskItem[]; predictions: Prediction[] }> {
+    console.log('[DeepAnalysis] Stage 4: Assessing risks and predictions...');
+
+    const prompt = await renderPrompt(RISKS_PROMPT, {
+        topic,
+        situation: geopolitics.summary,
+        actors: geopolitics.key_actors.map(a => `- ${a.name}: ${a.role}`).join('\n')
+    });
+
+    try {
+        const parsed = await callLLMStructured({
+            task: 'REASONING',
+            messages: [
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
+            ],
+            temperature: 0.4
+        }, RISKS_OUTPUT);
+
+        return {
+            risks: parsed.risks,
+            predictions: parsed.predictions
+        };
+
+    } catch (error) {
+        console.error('[DeepAnalysis] Stage 4 error:', error);
+        return { risks: [], predictions: [] };
+    }
+}
+
+// ============ STAGE 5: SYNTHESIS & RECOMMENDATIONS ============
+async function synthesizeRecommendations(
+    topic: string,
+    facts: KeyFact[],
+    geopolitics: GeopoliticalAnalysis,
+    risks: RiskItem[]
+): Promise<{ recommendations: Recommendation[]; humanitarian: HumanitarianImpact }> {
+    console.log('[DeepAnalysis] Stage 5: Synthesizing recommendations...');
+
+    const prompt = await renderPrompt(RECOMMENDATIONS_PROMPT, {
+        topic,
+        findings: facts.slice(0, 5).map(f => `- ${f.fact}`).join('\n'),
+        risks: risks.map(r => `- ${r.risk} (${r.likelihood}/${r.impact})`).join('\n')
+    });
+
+    try {
+        const parsed = await callLLMStructured({
             task: 'RECOMMENDATIONS',
             messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
             ],
-            temperature: 0.3,
-            jsonMode: true
-        });
+            temperature: 0.3
+        }, RECOMMENDATIONS_OUTPUT);
 
-        const parsed = JSON.parse(response);
         return {
-            recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : [],
-            humanitarian: parsed.humanitarian || {
-                affected_populations: [],
-                immediate_needs: [],
-                long_term_concerns: []
-            }
+            recommendations: parsed.recommendations,
+            humanitarian: parsed.humanitarian
         };
 
     } catch (error) {
@@ -526,16 +619,61 @@ function calculateQualityMetrics(
     };
 }
 
+// ============ FACTS-ONLY ANALYSIS ============
+// Empty stage 2-5 results - same shape the stages return when they fail
+const SKIPPED_SECTIONS = [
+    'geopolitical_analysis', 'islamic_perspective', 'risk_matrix',
+    'predictions', 'recommendations', 'humanitarian_impact'
+];
+
+function emptyGeopolitics(): GeopoliticalAnalysis {
+    return { summary: '', key_actors: [], power_dynamics: '', regional_implications: '', claims: [] };
+}
+
+function buildFactsOnlyAnalysis(topic: string, keyFacts: KeyFact[], sources: CanonicalSource[]): DeepAnalysis {
+    const geopolitics = emptyGeopolitics();
+    const { verified, unverified, updatedFacts } = verifyCitations(keyFacts, geopolitics, sources);
+    const qualityMetrics = calculateQualityMetrics(verified, unverified);
+
+    console.log(`[DeepAnalysis] Complete (key facts only). Grade: ${qualityMetrics.confidence_grade}`);
+
+    return {
+        topic,
+        generated_at: new Date().toISOString(),
+        key_facts: updatedFacts,
+        geopolitical_analysis: geopolitics,
+        islamic_perspective: {
+            disclaimer: 'This represents one perspective and should not be considered authoritative religious guidance.',
+            ethical_considerations: [],
+            relevant_principles: [],
+            community_impact: ''
+        },
+        risk_matrix: [],
+        predictions: [],
+        recommendations: [],
+        humanitarian_impact: { affected_populations: [], immediate_needs: [], long_term_concerns: [] },
+        quality_metrics: qualityMetrics,
+        skipped_sections: SKIPPED_SECTIONS
+    };
+}
+
 // ============ MAIN ORCHESTRATOR ============
 export async function runDeepAnalysis(
     topic: string,
-    sources: CanonicalSource[]
+    sources: CanonicalSource[],
+    options: DeepAnalysisOptions = {}
 ): Promise<DeepAnalysis> {
+    const { maxFactSources = 15, fullAnalysis = true } = options;
     console.log(`[DeepAnalysis] Starting analysis for: "${topic}"`);
     console.log(`[DeepAnalysis] Using ${sources.length} sources`);
 
     // Stage 1: Extract key facts
-    const keyFacts = await extractKeyFacts(topic, sources);
+    const keyFacts = await extractKeyFacts(topic, sources, maxFactSources);
+
+    if (!fullAnalysis) {
+        console.log('[DeepAnalysis] Skipping stages 2-5 (quick profile)');
+        return buildFactsOnlyAnalysis(topic, keyFacts, sources);
+    }
 
     // Stage 2: Geopolitical analysis
     const geopolitics = await analyzeGeopolitics(topic, sources, keyFacts);
@@ -4,7 +4,9 @@
  * Uses Groq LLM to extract key facts and unify the structure
  */
 
-import { callGroqWithFallback, MODEL_CHAINS } from './groq';
+import { callLLMStructured } from './llmProvider';
+import { defineOutput, object, string, number, array, oneOf, optional } from './outputSchema';
+import { definePrompt, renderPrompt } from './promptRegistry';
 
 // ============ CANONICAL SOURCE INTERFACE ============
 export interface CanonicalSource {
@@ -25,6 +27,26 @@ export interface CanonicalSource {
     };
 }
 
+// What the model returns per source - ids, type and metadata are filled in afterwards
+type NormalizedSourceFields = Pick<CanonicalSource, 'title' | 'url' | 'source' | 'summary' | 'credibility' | 'keyFacts' | 'relevanceScore'> & {
+    id?: string;
+    date?: string;
+};
+
+const CANONICAL_SOURCES_OUTPUT = defineOutput<{ sources: NormalizedSourceFields[] }>('CanonicalSource', object({
+    sources: array(object({
+        id: optional(string()),
+        title: string({ nonEmpty: true }),
+        url: string(),
+        source: string({ nonEmpty: true }),
+        summary: string({ nonEmpty: true }),
+        date: optional(string()),
+        credibility: oneOf(['high', 'medium', 'low', 'unknown']),
+        keyFacts: array(string()),
+        relevanceScore: number({ min: 0, max: 1 })
+    }), { min: 1 })
+}));
+
 // ============ INPUT TYPES ============
 export interface RawArticle {
     title: string;
@@ -52,18 +74,15 @@ export interface RawVideo {
 }
 
 // ============ NORMALIZE ARTICLES ============
-async function normalizeArticles(articles: RawArticle[], topic: string): Promise<CanonicalSource[]> {
-    if (!articles || articles.length === 0) return [];
-
-    console.log(`[Normalize] Processing ${articles.length} articles...`);
-
-    const prompt = `
+const ARTICLES_PROMPT = definePrompt('normalize.articles', {
+    v1: {
+        user: `
 You are a research assistant. Convert these raw articles into normalized source objects.
 
-TOPIC: "${topic}"
+TOPIC: "{{topic}}"
 
 ARTICLES:
-${JSON.stringify(articles.slice(0, 10), null, 2)}
+{{articles}}
 
 For each article, output a JSON object with:
 - id: Generate a unique ID (article_1, article_2, etc.)
@@ -77,10 +96,10 @@ For each article, output a JSON object with:
 - keyFacts: Array of 3-5 key facts/claims from the article (short phrases)
 - relevanceScore: 0-1 score based on how relevant the article is to the topic
 
-OUTPUT MUST BE A VALID JSON ARRAY. NO MARKDOWN. NO EXPLANATION.
+OUTPUT MUST BE A VALID JSON OBJECT: {"sources": [...]}. NO MARKDOWN. NO EXPLANATION.
 
 Example:
-[
+{"sources": [
   {
     "id": "article_1",
     "type": "article",
@@ -93,28 +112,35 @@ Example:
     "keyFacts": ["100 casualties reported", "Peace talks scheduled", "UN urges ceasefire"],
     "relevanceScore": 0.9
   }
-]`;
+]}`
+    }
+});
+
+async function normalizeArticles(articles: RawArticle[], topic: string): Promise<CanonicalSource[]> {
+    if (!articles || articles.length === 0) return [];
+
+    console.log(`[Normalize] Processing ${articles.length} articles...`);
+
+    const prompt = await renderPrompt(ARTICLES_PROMPT, { topic, articles: JSON.stringify(articles.slice(0, 10), null, 2) });
 
     try {
-        const response = await callGroqWithFallback({
-            messages: [{ role: "user", content: prompt }],
-            modelChain: MODEL_CHAINS.SUMMARIZE,
-            temperature: 0.2,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        const normalized: CanonicalSource[] = (Array.isArray(parsed) ? parsed : [parsed]).map((item: Record<string, unknown>, idx: number) => ({
-            id: String(item.id || `article_${idx + 1}`),
+        const { sources } = await callLLMStructured({
+            task: 'NORMALIZE',
+            messages: [{ role: "user", content: prompt.user }],
+            temperature: 0.2
+        }, CANONICAL_SOURCES_OUTPUT);
+
+        const normalized: CanonicalSource[] = sources.map((item, idx) => ({
+            id: item.id || `article_${idx + 1}`,
             type: 'article' as const,
-            title: String(item.title || ''),
-            url: String(item.url || ''),
-            source: String(item.source || 'Unknown'),
-            summary: String(item.summary || ''),
-            date: String(item.date || 'unknown'),
-            credibility: (item.credibility as CanonicalSource['credibility']) || 'unknown',
-            keyFacts: Array.isArray(item.keyFacts) ? item.keyFacts.map(String) : [],
-            relevanceScore: Number(item.relevanceScore) || 0.5,
+            title: item.title,
+            url: item.url || articles[idx]?.url || '',
+            source: item.source,
+            summary: item.summary,
+            date: item.date || 'unknown',
+            credibility: item.credibility,
+            keyFacts: item.keyFacts,
+            relevanceScore: item.relevanceScore,
             metadata: { originalData: articles[idx] }
         }));
 
@@ -141,18 +167,15 @@ Example:
 }
 
 // ============ NORMALIZE VIDEOS ============
-async function normalizeVideos(videos: RawVideo[], topic: string): Promise<CanonicalSource[]> {
-    if (!videos || videos.length === 0) return [];
-
-    console.log(`[Normalize] Processing ${videos.length} videos...`);
-
-    const prompt = `
+const VIDEOS_PROMPT = definePrompt('normalize.videos', {
+    v1: {
+        user: `
 You are a research assistant. Convert these YouTube videos into normalized source objects.
 
-TOPIC: "${topic}"
+TOPIC: "{{topic}}"
 
 VIDEOS:
-${JSON.stringify(videos.slice(0, 10), null, 2)}
+{{videos}}
 
 For each video, output a JSON object with:
 - id: Generate a unique ID (video_1, video_2, etc.)
@@ -164,30 +187,37 @@ For each video, output a JSON object with:
 - date: ISO date string (YYYY-MM-DD) from publishedAt
 - credibility: "high" for verified news channels, "medium" for established creators, "low" for unknown channels
 - keyFacts: Array of 3-5 key topics/claims the video likely covers (based on title/description)
-- relevanceScore: Use the classification score if available, otherwise estimate 0-1
+- relevanceScore: 0-1 - use the classification score (0-100) divided by 100 if available, otherwise estimate
+
+OUTPUT MUST BE A VALID JSON OBJECT: {"sources": [...]}. NO MARKDOWN. NO EXPLANATION.`
+    }
+});
+
+async function normalizeVideos(videos: RawVideo[], topic: string): Promise<CanonicalSource[]> {
+    if (!videos || videos.length === 0) return [];
+
+    console.log(`[Normalize] Processing ${videos.length} videos...`);
 
-OUTPUT MUST BE A VALID JSON ARRAY. NO MARKDOWN. NO EXPLANATION.`;
+    const prompt = await renderPrompt(VIDEOS_PROMPT, { topic, videos: JSON.stringify(videos.slice(0, 10), null, 2) });
 
     try {
-        const response = await callGroqWithFallback({
-            messages: [{ role: "user", content: prompt }],
-            modelChain: MODEL_CHAINS.SUMMARIZE,
-            temperature: 0.2,
-            jsonMode: true
-        });
-
-        const parsed = JSON.parse(response);
-        const normalized: CanonicalSource[] = (Array.isArray(parsed) ? parsed : [parsed]).map((item: Record<string, unknown>, idx: number) => ({
-            id: String(item.id || `video_${idx + 1}`),
+        const { sources } = await callLLMStructured({
+            task: 'NORMALIZE',
+            messages: [{ role: "user", content: prompt.user }],
+            temperature: 0.2
+        }, CANONICAL_SOURCES_OUTPUT);
+
+        const normalized: CanonicalSource[] = sources.map((item, idx) => ({
+            id: item.id || `video_${idx + 1}`,
             type: 'video' as const,
-            title: String(item.title || ''),
-            url: String(item.url || `https://youtube.com/watch?v=${videos[idx]?.videoId}`),
-            source: String(item.source || videos[idx]?.channelTitle || 'Unknown'),
-            summary: String(item.summary || ''),
-            date: String(item.date || 'unknown'),
-            credibility: (item.credibility as CanonicalSource['credibility']) || 'unknown',
-            keyFacts: Array.isArray(item.keyFacts) ? item.keyFacts.map(String) : [],
-            relevanceScore: Number(item.relevanceScore) || videos[idx]?.classification?.score || 0.5,
+            title: item.title,
+            url: item.url || `https://youtube.com/watch?v=${videos[idx]?.videoId}`,
+            source: item.source,
+            summary: item.summary,
+            date: item.date || 'unknown',
+            credibility: item.credibility,
+            keyFacts: item.keyFacts,
+            relevanceScore: item.relevanceScore,
             metadata: {
                 originalData: videos[idx],
                 views: videos[idx]?.views
@@ -1,12 +1,14 @@
-import { callGroqWithFallback, MODEL_CHAINS, getGroqClient } from './groq';
+import { callLLM } from './llmProvider';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function generateVideoQueriesV2(topic: string, articleSummaries: any[]): Promise<string[]> {
+export async function generateVideoQueriesV2(topic: string, articleSummaries: any[] = [], keywords: string[] = []): Promise<string[]> {
 
-    // 1. Prepare Context from Articles
-    const context = articleSummaries.map((art, i) =>
+    // 1. Prepare Context from Articles (plus search keywords when the caller passes them)
+    const articleContext = articleSummaries.map((art, i) =>
         `[${i + 1}] ${art.headline_summary} (${art.publisher})`
     ).join("\n");
+    const keywordContext = keywords.length > 0 ? `Search keywords: ${keywords.join(", ")}` : "";
+    const context = [articleContext, keywordContext].filter(Boolean).join("\n\n") || "(no additional context)";
 
     const systemPrompt = `You are a YouTube search specialist. Generate precise video search queries to find news footage, interviews, and documentaries. Output ONLY valid JSON arrays.`;
 
@@ -38,12 +40,12 @@ Output: ["Al-Ahli hospital strike footage", "Gaza hospital attack interview", "I
 </example>`;
 
     try {
-        const text = await callGroqWithFallback({
+        const text = await callLLM({
+            task: 'QUERIES',
             messages: [
                 { role: "system", content: systemPrompt },
                 { role: "user", content: userPrompt }
             ],
-            modelChain: MODEL_CHAINS.KEYWORDS,
             temperature: 0.4,
             jsonMode: true
         });
@@ -1,4 +1,6 @@
-import { callGroqWithFallback, MODEL_CHAINS } from './groq';
+import { callLLMStructured } from './llmProvider';
+import { defineOutput, object, string, number, array } from './outputSchema';
+import { definePrompt, renderPrompt } from './promptRegistry';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -15,17 +17,23 @@ export interface StructuredArticle {
     sections: StructuredSection[];
 }
 
-export async function structureArticleGroq(markdown: string, url: string, index: number): Promise<StructuredArticle> {
-
-    const systemPrompt = `You are a news article parser. Extract structured data from raw article content. Output ONLY valid JSON matching the exact schema provided.`;
+const STRUCTURED_ARTICLE_OUTPUT = defineOutput<StructuredArticle>('StructuredArticle', object({
+    id: number(),
+    url: string(),
+    publisher: string({ nonEmpty: true }),
+    sections: array(object({ heading: string(), content: string({ nonEmpty: true }) }), { min: 1 })
+}));
 
-    const userPrompt = `<metadata>
-ID: ${index}
-URL: ${url}
+const ARTICLE_PROMPT = definePrompt('structure.article', {
+    v1: {
+        system: `You are a news article parser. Extract structured data from raw article content. Output ONLY valid JSON matching the exact schema provided.`,
+        user: `<metadata>
+ID: {{index}}
+URL: {{url}}
 </metadata>
 
 <article>
-${markdown.substring(0, 20000)}
+{{article}}
 </article>
 
 <task>
@@ -42,27 +50,29 @@ Parse this article and extract structured sections.
 
 <schema>
 {
-  "id": ${index},
-  "url": "${url}",
+  "id": {{index}},
+  "url": "{{url}}",
   "publisher": "string",
   "sections": [
     {"heading": "string", "content": "string"}
   ]
 }
-</schema>`;
+</schema>`
+    }
+});
+
+export async function structureArticleGroq(markdown: string, url: string, index: number): Promise<StructuredArticle> {
+    const prompt = await renderPrompt(ARTICLE_PROMPT, { index, url, article: markdown.substring(0, 20000) });
 
     try {
-        const text = await callGroqWithFallback({
+        return await callLLMStructured({
+            task: 'STRUCTURE',
             messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
             ],
-            modelChain: MODEL_CHAINS.SUMMARIZE,
-            temperature: 0.1,
-            jsonMode: true
-        });
-
-        return JSON.parse(text) as StructuredArticle;
+            temperature: 0.1
+        }, STRUCTURED_ARTICLE_OUTPUT);
 
     } catch (e) {
         console.error(`Groq Structure failed for ${url}:`, e);
@@ -1,4 +1,5 @@
-import { callGroqWithFallback, MODEL_CHAINS, getGroqClient } from './groq';
+import { callLLM } from './llmProvider';
+import { definePrompt, renderPrompt } from './promptRegistry';
 
 export interface SummarizedArticle {
     id: number;
@@ -19,6 +20,48 @@ function chunkText(text: string): string[] {
     return chunks;
 }
 
+const CHUNK_PROMPT = definePrompt('summarize.chunk', {
+    v1: {
+        system: `You are a news summarizer. Extract key facts as bullet points. Be concise and factual.`,
+        user: `<chunk index="{{index}}" total="{{total}}">
+{{chunk}}
+</chunk>
+
+<task>Extract 3-5 key facts from this text chunk as bullet points.</task>
+
+<requirements>
+- Focus on: dates, numbers, names, events, quotes
+- Ignore: boilerplate, navigation, repetition
+- Format: Markdown bullets (- fact)
+</requirements>`
+    }
+});
+
+const MERGE_PROMPT = definePrompt('summarize.merge', {
+    v1: {
+        system: `You are a news editor. Synthesize bullet points into a cohesive summary. Output ONLY valid JSON.`,
+        user: `<bullets>
+{{bullets}}
+</bullets>
+
+<task>Create a headline and 5-10 summary bullet points from these notes.</task>
+
+<requirements>
+- headline_summary: One powerful sentence capturing the core story
+- summary_bullets: 5-10 distinct, fact-rich bullet points
+- Deduplicate overlapping information
+- Prioritize most newsworthy facts
+</requirements>
+
+<schema>
+{
+  "headline_summary": "string",
+  "summary_bullets": ["string", "string", ...]
+}
+</schema>`
+    }
+});
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function summarizeArticleGroq(article: any): Promise<SummarizedArticle> {
 
@@ -30,28 +73,16 @@ export async function summarizeArticleGroq(article: any): Promise<SummarizedArti
     const chunkSummaries: string[] = [];
 
     // 2. Summarize Chunks (Parallel)
-    const chunkSystemPrompt = `You are a news summarizer. Extract key facts as bullet points. Be concise and factual.`;
-
     const promises = chunks.map(async (chunk, i) => {
         try {
-            const chunkPrompt = `<chunk index="${i + 1}" total="${chunks.length}">
-${chunk}
-</chunk>
-
-<task>Extract 3-5 key facts from this text chunk as bullet points.</task>
-
-<requirements>
-- Focus on: dates, numbers, names, events, quotes
-- Ignore: boilerplate, navigation, repetition
-- Format: Markdown bullets (- fact)
-</requirements>`;
+            const prompt = await renderPrompt(CHUNK_PROMPT, { index: i + 1, total: chunks.length, chunk });
 
-            const result = await callGroqWithFallback({
+            const result = await callLLM({
+                task: 'SUMMARIZE',
                 messages: [
-                    { role: "system", content: chunkSystemPrompt },
-                    { role: "user", content: chunkPrompt }
+                    { role: "system", content: prompt.system },
+                    { role: "user", content: prompt.user }
                 ],
-                modelChain: MODEL_CHAINS.SUMMARIZE,
                 temperature: 0.2
             });
 
@@ -66,35 +97,15 @@ ${chunk}
     const allBullets = results.join("\n");
 
     // 3. Final Merge & Headline
-    const mergeSystemPrompt = `You are a news editor. Synthesize bullet points into a cohesive summary. Output ONLY valid JSON.`;
-
-    const mergePrompt = `<bullets>
-${allBullets.substring(0, 25000)}
-</bullets>
-
-<task>Create a headline and 5-10 summary bullet points from these notes.</task>
-
-<requirements>
-- headline_summary: One powerful sentence capturing the core story
-- summary_bullets: 5-10 distinct, fact-rich bullet points
-- Deduplicate overlapping information
-- Prioritize most newsworthy facts
-</requirements>
-
-<schema>
-{
-  "headline_summary": "string",
-  "summary_bullets": ["string", "string", ...]
-}
-</schema>`;
+    const mergePrompt = await renderPrompt(MERGE_PROMPT, { bullets: allBullets.substring(0, 25000) });
 
     try {
-        const text = await callGroqWithFallback({
+        const text = await callLLM({
+            task: 'SUMMARIZE',
             messages: [
-                { role: "system", content: mergeSystemPrompt },
-                { role: "user", content: mergePrompt }
+                { role: "system", content: mergePrompt.system },
+                { role: "user", content: mergePrompt.user }
             ],
-            modelChain: MODEL_CHAINS.CLASSIFY,
             temperature: 0.2,
             jsonMode: true
         });
@@ -1,9 +1,10 @@
 import { YoutubeTranscript } from 'youtube-transcript';
 import { VideoResult } from './youtubeSearch';
+import { withCassette } from './cassette';
 
 export interface TranscribedVideo extends VideoResult {
     transcript: string;
-    transcript_source: "captions" | "unavailable";
+    transcript_source: "captions" | "description" | "unavailable";
 }
 
 /**
@@ -13,7 +14,7 @@ export interface TranscribedVideo extends VideoResult {
 export async function processVideoWithGroq(video: VideoResult): Promise<TranscribedVideo> {
 
     try {
-        const transcriptItems = await YoutubeTranscript.fetchTranscript(video.url);
+        const transcriptItems = await withCassette('youtube-transcript', { url: video.url }, () => YoutubeTranscript.fetchTranscript(video.url));
         const text = transcriptItems.map((t) => t.text).join(' ');
 
         if (text && text.length > 50) {
@@ -1,5 +1,6 @@
-import { getGroqClient } from './groq';
+import { callLLM } from './llmProvider';
 import { TranscribedVideo } from './groqTranscribe';
+import { definePrompt, renderPrompt } from './promptRegistry';
 
 export interface VerifiedVideo extends TranscribedVideo {
     verification: {
@@ -11,30 +12,17 @@ export interface VerifiedVideo extends TranscribedVideo {
     };
 }
 
-export async function verifyVideosGroq(
-    topic: string,
-    videos: TranscribedVideo[],
-    articleContext: string
-): Promise<VerifiedVideo[]> {
-    const groq = getGroqClient();
-
-    const videoDescriptions = videos.map((v) => `<video id="${v.id}">
-Title: ${v.title}
-Channel: ${v.channel}
-Published: ${v.publishedAt}
-Transcript: ${v.transcript.substring(0, 1500)}
-</video>`).join("\n");
-
-    const systemPrompt = `You are a fact-checking video analyst. Verify videos against known facts. Be strict - only approve videos with genuine, accurate information. Output ONLY valid JSON.`;
-
-    const userPrompt = `<topic>${topic}</topic>
+const VERIFY_PROMPT = definePrompt('verify.videos', {
+    v1: {
+        system: `You are a fact-checking video analyst. Verify videos against known facts. Be strict - only approve videos with genuine, accurate information. Output ONLY valid JSON.`,
+        user: `<topic>{{topic}}</topic>
 
 <verified_facts>
-${articleContext.substring(0, 15000)}
+{{facts}}
 </verified_facts>
 
 <videos>
-${videoDescriptions}
+{{videos}}
 </videos>
 
 <task>
@@ -58,20 +46,34 @@ Verify each video against these criteria:
     }
   ]
 }
-</schema>`;
+</schema>`
+    }
+});
+
+export async function verifyVideosGroq(
+    topic: string,
+    videos: TranscribedVideo[],
+    articleContext: string
+): Promise<VerifiedVideo[]> {
+    const videoDescriptions = videos.map((v) => `<video id="${v.id}">
+Title: ${v.title}
+Channel: ${v.channel}
+Published: ${v.publishedAt}
+Transcript: ${v.transcript.substring(0, 1500)}
+</video>`).join("\n");
+
+    const prompt = await renderPrompt(VERIFY_PROMPT, { topic, facts: articleContext.substring(0, 15000), videos: videoDescriptions });
 
     try {
-        const completion = await groq.chat.completions.create({
+        const text = await callLLM({
+            task: 'VERIFY',
             messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
+                { role: "system", content: prompt.system },
+                { role: "user", content: prompt.user }
             ],
-            model: "llama-3.3-70b-versatile",
             temperature: 0.1,
-            response_format: { type: "json_object" }
-        });
-
-        const text = completion.choices[0]?.message?.content || "{}";
+            jsonMode: true
+        }) || "{}";
         const parsed = JSON.parse(text);
         const verdictMap = new Map<string, any>();
 
@@ -0,0 +1,277 @@
+/**
+ * jobQueue.ts
+ * Background job queue for orchestrated research runs
+ *
+ * POST /v3/orchestrated-workflow only enqueues a job and answers 202.
+ * A worker loop picks queued jobs up and runs the pipeline outside the
+ * request, so proxies, closed tabs or Space restarts of the HTTP connection
+ * no longer kill the run. Clients poll GET /v3/jobs/:id for status/result.
+ *
+ * Jobs live in memory for fast polling and are mirrored to Firestore ("jobs").
+ * Finished jobs are dropped from memory after FINISHED_JOB_TTL_MS (getJob then
+ * reads them from Firestore). Each running job gets an AbortController;
+ * cancelJob() aborts it. Jobs still queued or running in Firestore when the
+ * worker starts were cut off by a restart and are marked failed.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from './firebase';
+import { PipelineRun, PipelineSummary } from './pipelineLogger';
+import { FinalReport } from './reportAssembler';
+import { RunCancelledError } from './cancellation';
+import { ResearchProfile } from './researchProfiles';
+
+// ============ TYPES ============
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ResearchJobConfig {
+    isPublic?: boolean;
+    userId?: string;
+    resume?: boolean;
+    profile?: ResearchProfile;
+}
+
+export interface ResearchJob {
+    id: string;
+    reportId: string;
+    topic: string;
+    config: ResearchJobConfig;
+    status: JobStatus;
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+    pipelineSummary?: PipelineSummary;
+    report?: FinalReport;
+}
+
+export interface JobOutcome {
+    success: boolean;
+    cancelled?: boolean;
+    error?: string;
+    pipeline?: PipelineRun;
+    report?: FinalReport;
+}
+
+export type JobHandler = (job: ResearchJob, signal: AbortSignal) => Promise<JobOutcome>;
+
+// ============ CONFIGURATION ============
+
+const JOBS_COLLECTION = 'jobs';
+const WORKER_POLL_INTERVAL_MS = 2000;
+const MAX_CONCURRENT_JOBS = Number(process.env.MAX_CONCURRENT_JOBS) || 1;
+// How long a finished job stays in memory for fast polling
+const FINISHED_JOB_TTL_MS = Number(process.env.FINISHED_JOB_TTL_MS) || 10 * 60 * 1000;
+const INTERRUPTED_JOB_ERROR = 'Interrupted by a server restart - start the run again to resume from its checkpoints';
+
+// ============ STATE ============
+
+const jobs = new Map<string, ResearchJob>();
+const pendingQueue: string[] = [];
+const controllers = new Map<string, AbortController>();  // Running jobs only
+let runningCount = 0;
+let jobHandler: JobHandler | null = null;
+let workerTimer: NodeJS.Timeout | null = null;
+
+// ============ PERSISTENCE ============
+
+async function persistJob(job: ResearchJob): Promise<void> {
+    try {
+        // JSON round-trip strips undefined values, which Firestore rejects
+        await db.collection(JOBS_COLLECTION).doc(job.id).set(JSON.parse(JSON.stringify(job)));
+    } catch (e) {
+        console.error(`[JobQueue] Failed to persist job ${job.id}:`, e);
+    }
+}
+
+function updateJob(job: ResearchJob, changes: Partial<ResearchJob>): Promise<void> {
+    Object.assign(job, changes);
+    return persistJob(job);
+}
+
+// Firestore keeps the finished job; memory only serves the clients still polling it
+function scheduleEviction(jobId: string): void {
+    setTimeout(() => {
+        const job = jobs.get(jobId);
+        if (job && job.status !== 'queued' && job.status !== 'running') {
+            jobs.delete(jobId);
+        }
+    }, FINISHED_JOB_TTL_MS).unref();
+}
+
+/**
+ * Mark jobs that were queued or running when the previous process stopped as
+ * failed (their report too) - nothing will pick them up again. The run can be
+ * restarted with resume and continues from its checkpoints.
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+    try {
+        const snapshot = await db.collection(JOBS_COLLECTION).select('status', 'reportId').get();
+        const interrupted = snapshot.docs.filter(doc => {
+            const status = doc.get('status');
+            return (status === 'queued' || status === 'running') && !jobs.has(doc.id);
+        });
+
+        for (const doc of interrupted) {
+            const completedAt = new Date().toISOString();
+            await doc.ref.update({ status: 'failed', completedAt, error: INTERRUPTED_JOB_ERROR });
+
+            const reportId = doc.get('reportId');
+            if (typeof reportId === 'string') {
+                try {
+                    await db.collection('reports').doc(reportId).update({ status: 'failed', error: INTERRUPTED_JOB_ERROR });
+                } catch (e) {
+                    console.error(`[JobQueue] Failed to mark report ${reportId} as failed:`, e);
+                }
+            }
+        }
+
+        if (interrupted.length > 0) {
+            console.log(`[JobQueue] Marked ${interrupted.length} interrupted job(s) as failed`);
+        }
+    } catch (e) {
+        console.error('[JobQueue] Failed to recover interrupted jobs:', e);
+    }
+}
+
+// ============ PUBLIC API ============
+
+export function enqueueJob(input: { topic: string; reportId: string; config?: ResearchJobConfig }): ResearchJob {
+    const job: ResearchJob = {
+        id: `job_${randomUUID().split('-')[0]}`,
+        reportId: input.reportId,
+        topic: input.topic,
+        config: input.config || {},
+        status: 'queued',
+        createdAt: new Date().toISOString()
+    };
+
+    jobs.set(job.id, job);
+    pendingQueue.push(job.id);
+    void persistJob(job);
+
+    console.log(`[JobQueue] Enqueued ${job.id} for "${job.topic}" (reportId: ${job.reportId}, queue: ${pendingQueue.length})`);
+
+    // Kick the worker immediately instead of waiting for the next poll
+    drainQueue();
+    return job;
+}
+
+/**
+ * Look up a job - memory first, then Firestore (jobs from before a restart)
+ */
+export async function getJob(jobId: string): Promise<ResearchJob | null> {
+    const cached = jobs.get(jobId);
+    if (cached) return cached;
+
+    try {
+        const snapshot = await db.collection(JOBS_COLLECTION).doc(jobId).get();
+        return snapshot.exists ? (snapshot.data() as ResearchJob) : null;
+    } catch (e) {
+        console.error(`[JobQueue] Failed to load job ${jobId}:`, e);
+        return null;
+    }
+}
+
+/**
+ * Queued or running job for a report, if any (prevents double-starting a run)
+ */
+export function findActiveJobForReport(reportId: string): ResearchJob | null {
+    for (const job of jobs.values()) {
+        if (job.reportId === reportId && (job.status === 'queued' || job.status === 'running')) {
+            return job;
+        }
+    }
+    return null;
+}
+
+/**
+ * Cancel a queued or running job. Queued jobs are dropped right away; running
+ * jobs are aborted and end as 'cancelled' once the handler returns.
+ * Returns false if the job is unknown or already finished.
+ */
+export async function cancelJob(jobId: string, reason = 'Cancelled by user'): Promise<boolean> {
+    const job = jobs.get(jobId);
+    if (!job) return false;
+
+    if (job.status === 'queued') {
+        const index = pendingQueue.indexOf(jobId);
+        if (index !== -1) pendingQueue.splice(index, 1);
+        await updateJob(job, { status: 'cancelled', completedAt: new Date().toISOString(), error: reason });
+        scheduleEviction(jobId);
+        console.log(`[JobQueue] ✖ Cancelled queued job ${jobId}`);
+        return true;
+    }
+
+    const controller = controllers.get(jobId);
+    if (job.status === 'running' && controller) {
+        if (!controller.signal.aborted) {
+            controller.abort(new RunCancelledError(reason));
+            console.log(`[JobQueue] ✖ Cancelling running job ${jobId}...`);
+        }
+        return true;
+    }
+
+    return false;
+}
+
+// ============ WORKER LOOP ============
+
+async function runJob(job: ResearchJob): Promise<void> {
+    runningCount++;
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    await updateJob(job, { status: 'running', startedAt: new Date().toISOString() });
+    console.log(`[JobQueue] ▶ Running ${job.id} (${runningCount}/${MAX_CONCURRENT_JOBS} slots)`);
+
+    try {
+        const outcome = await jobHandler!(job, controller.signal);
+        await updateJob(job, {
+            status: outcome.cancelled ? 'cancelled' : outcome.success ? 'completed' : 'failed',
+            completedAt: new Date().toISOString(),
+            error: outcome.error,
+            pipelineSummary: outcome.pipeline?.summary,
+            report: outcome.report
+        });
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[JobQueue] Job ${job.id} crashed:`, error);
+        await updateJob(job, {
+            status: controller.signal.aborted ? 'cancelled' : 'failed',
+            completedAt: new Date().toISOString(),
+            error: errorMsg
+        });
+    } finally {
+        controllers.delete(job.id);
+        runningCount--;
+        scheduleEviction(job.id);
+        console.log(`[JobQueue] ■ Finished ${job.id} with status: ${job.status}`);
+        drainQueue();
+    }
+}
+
+function drainQueue(): void {
+    if (!jobHandler) return;
+
+    while (runningCount < MAX_CONCURRENT_JOBS && pendingQueue.length > 0) {
+        const jobId = pendingQueue.shift()!;
+        const job = jobs.get(jobId);
+        if (!job || job.status !== 'queued') continue;
+        void runJob(job);
+    }
+}
+
+/**
+ * Start the background worker. The handler runs one job to completion.
+ */
+export function startJobWorker(handler: JobHandler): void {
+    jobHandler = handler;
+    if (workerTimer) return;
+
+    void recoverInterruptedJobs();
+    workerTimer = setInterval(drainQueue, WORKER_POLL_INTERVAL_MS);
+    workerTimer.unref();  // The HTTP server keeps the process alive, not the poll
+    console.log(`[JobQueue] Worker started (max ${MAX_CONCURRENT_JOBS} concurrent job(s))`);
+    drainQueue();
+}
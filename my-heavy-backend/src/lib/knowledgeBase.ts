@@ -5,7 +5,7 @@
  * Extensible design: Add new source types by extending SourceType and adding normalizers.
  */
 
-import { getGroqClient } from './groq';
+import { callLLM } from './llmProvider';
 
 // ============ TYPES ============
 
@@ -141,8 +141,6 @@ export async function enrichSourcesWithGroq(
     topic: string,
     sources: UnifiedSource[]
 ): Promise<UnifiedSource[]> {
-    const groq = getGroqClient();
-
     // Only enrich sources that lack key_facts
     const sourcesNeedingEnrichment = sources.filter(s => s.key_facts.length === 0);
 
@@ -169,17 +167,15 @@ OUTPUT (Strict JSON):
 `;
 
     try {
-        const completion = await groq.chat.completions.create({
+        const text = await callLLM({
+            task: 'CLASSIFY',  // Step 9 merge/enrich
             messages: [
                 { role: "system", content: "You are a JSON-only enrichment agent." },
                 { role: "user", content: prompt }
             ],
-            model: "llama-3.3-70b-versatile",
             temperature: 0.2,
-            response_format: { type: "json_object" }
-        });
-
-        const text = completion.choices[0]?.message?.content || "{}";
+            jsonMode: true
+        }) || "{}";
         const parsed = JSON.parse(text);
 
         if (parsed.enriched && Array.isArray(parsed.enriched)) {
@@ -0,0 +1,239 @@
+/**
+ * llmCache.ts
+ * Optional on-disk cache for LLM responses
+ *
+ * Retries, resumed runs and repeated topics send identical prompts again. With
+ * LLM_CACHE=true, callLLM answers those from disk
+ * instead of spending quota. Entries are keyed by a hash of task, provider/model,
+ * messages, temperature and JSON mode, and expire after LLM_CACHE_TTL_HOURS (24).
+ * The messages are the ones the model was actually sent - cut to its context
+ * window the way callLLM does (modelCapabilities.ts).
+ * A task opts out with `"cache": false` in the model config (modelConfig.ts).
+ *
+ * One JSON file per entry in LLM_CACHE_DIR (default .cache/llm). Hits are logged
+ * on the current pipeline step. The cache is bypassed while cassettes record or
+ * replay, so cassettes always see the real calls. GET/DELETE /v2/cache/llm inspect
+ * and clear it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { hashRequest, getCassetteMode } from './cassette';
+import { getStepContext } from './stepContext';
+import { getPipelineLogger } from './pipelineLogger';
+import { getTaskModelConfig } from './modelConfig';
+import { getModelCapability, getPromptBudget, estimateMessageTokens, trimMessagesToFit } from './modelCapabilities';
+import type { TaskType } from './llmProvider';
+import type { ChatMessage } from './modelProviders';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+// The request fields that make up the cache key (plus provider/model)
+export interface CachedRequest {
+    task: TaskType;
+    messages: ChatMessage[];
+    temperature: number;
+    jsonMode: boolean;
+}
+
+interface CacheEntry {
+    key: string;
+    task: string;
+    provider: string;
+    model: string;
+    content: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export interface CacheHit {
+    provider: string;
+    model: string;
+    content: string;
+    ageMs: number;
+}
+
+export interface LLMCacheStats {
+    enabled: boolean;
+    directory: string;
+    ttlHours: number;
+    entries: number;
+    expired: number;
+    bytes: number;
+    byTask: Record<string, number>;
+    byModel: Record<string, number>;
+    oldest?: string;
+    newest?: string;
+    session: { hits: number; misses: number; writes: number };  // Since this process started
+}
+
+// ============ CONFIGURATION ============
+
+const TTL_MS = (Number(process.env.LLM_CACHE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+function getCacheDir(): string {
+    return process.env.LLM_CACHE_DIR || path.join(process.cwd(), '.cache', 'llm');
+}
+
+const session = { hits: 0, misses: 0, writes: 0 };
+
+/**
+ * Is caching on for this task? (LLM_CACHE=true, no cassette active, task not opted out)
+ */
+export function isCacheEnabled(task: TaskType): boolean {
+    if (process.env.LLM_CACHE !== 'true') return false;
+    if (getCassetteMode() !== 'off') return false;
+    return getTaskModelConfig(task).cache !== false;
+}
+
+const promptBudgetOf = (provider: string, model: string) => getPromptBudget(getModelCapability(provider, model));
+
+// A response to a trimmed prompt is keyed by that prompt, so it never answers the full one
+function keyOf(request: CachedRequest, provider: string, model: string): string {
+    const { task, temperature, jsonMode } = request;
+    const { messages } = trimMessagesToFit(request.messages, promptBudgetOf(provider, model));
+    return hashRequest('llm-cache', { task, provider, model, messages, temperature, jsonMode });
+}
+
+const entryPath = (key: string) => path.join(getCacheDir(), `${key}.json`);
+
+async function readEntry(file: string): Promise<CacheEntry | undefined> {
+    try {
+        return JSON.parse(await fs.promises.readFile(file, 'utf-8')) as CacheEntry;
+    } catch {
+        return undefined;  // Missing or corrupt - a miss
+    }
+}
+
+// ============ LOOKUP / STORE ============
+
+/**
+ * First cached response for any model of the chain (in chain order). Like callLLM,
+ * a model that would need the prompt trimmed is passed over when a later one takes
+ * more of it. Expired entries are deleted. Never throws.
+ */
+export async function getCachedResponse(request: CachedRequest, chain: Array<{ provider: string; model: string }>): Promise<CacheHit | undefined> {
+    if (!isCacheEnabled(request.task)) return undefined;
+
+    const promptTokens = estimateMessageTokens(request.messages);
+    for (let i = 0; i < chain.length; i++) {
+        const { provider, model } = chain[i];
+        const budget = promptBudgetOf(provider, model);
+        if (promptTokens > budget && chain.slice(i + 1).some(next => promptBudgetOf(next.provider, next.model) > budget)) continue;
+
+        const file = entryPath(keyOf(request, provider, model));
+        const entry = await readEntry(file);
+        if (!entry) continue;
+
+        if (new Date(entry.expiresAt).getTime() <= Date.now()) {
+            fs.promises.unlink(file).catch(() => undefined);
+            continue;
+        }
+
+        const hit: CacheHit = { provider, model, content: entry.content, ageMs: Date.now() - new Date(entry.createdAt).getTime() };
+        session.hits++;
+        console.log(`[LLMCache] Hit for ${request.task} (${provider}/${model}, ${Math.round(hit.ageMs / 60000)} min old)`);
+
+        const context = getStepContext();
+        if (context) {
+            getPipelineLogger(context.runId)?.logCacheHit(context.stepId, { task: request.task, provider, model, ageMs: hit.ageMs });
+        }
+        return hit;
+    }
+
+    session.misses++;
+    return undefined;
+}
+
+/**
+ * Store a successful (and, for structured outputs, validated) response. Never throws.
+ */
+export async function setCachedResponse(request: CachedRequest, provider: string, model: string, content: string): Promise<void> {
+    if (!isCacheEnabled(request.task)) return;
+
+    const key = keyOf(request, provider, model);
+    const now = Date.now();
+    const entry: CacheEntry = {
+        key,
+        task: request.task,
+        provider,
+        model,
+        content,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + TTL_MS).toISOString()
+    };
+
+    try {
+        // Write-then-rename so a concurrent reader never sees half an entry
+        await fs.promises.mkdir(getCacheDir(), { recursive: true });
+        const tmp = `${entryPath(key)}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmp, JSON.stringify(entry));
+        await fs.promises.rename(tmp, entryPath(key));
+        session.writes++;
+    } catch (e) {
+        console.error('[LLMCache] Failed to store response:', e);
+    }
+}
+
+// ============ ADMIN ============
+
+async function listEntries(): Promise<Array<{ file: string; bytes: number; entry: CacheEntry }>> {
+    let files: string[];
+    try {
+        files = (await fs.promises.readdir(getCacheDir())).filter(file => file.endsWith('.json'));
+    } catch {
+        return [];  // No cache directory yet
+    }
+
+    const entries = await Promise.all(files.map(async name => {
+        const file = path.join(getCacheDir(), name);
+        const [entry, stat] = await Promise.all([readEntry(file), fs.promises.stat(file).catch(() => undefined)]);
+        return entry && stat ? { file, bytes: stat.size, entry } : undefined;
+    }));
+    return entries.filter((e): e is NonNullable<typeof e> => !!e);
+}
+
+export async function getCacheStats(): Promise<LLMCacheStats> {
+    const entries = await listEntries();
+    const now = Date.now();
+    const byTask: Record<string, number> = {};
+    const byModel: Record<string, number> = {};
+    const created = entries.map(({ entry }) => entry.createdAt).sort();
+
+    entries.forEach(({ entry }) => {
+        byTask[entry.task] = (byTask[entry.task] || 0) + 1;
+        byModel[`${entry.provider}/${entry.model}`] = (byModel[`${entry.provider}/${entry.model}`] || 0) + 1;
+    });
+
+    return {
+        enabled: process.env.LLM_CACHE === 'true' && getCassetteMode() === 'off',
+        directory: getCacheDir(),
+        ttlHours: TTL_MS / (60 * 60 * 1000),
+        entries: entries.length,
+        expired: entries.filter(({ entry }) => new Date(entry.expiresAt).getTime() <= now).length,
+        bytes: entries.reduce((total, { bytes }) => total + bytes, 0),
+        byTask,
+        byModel,
+        oldest: created[0],
+        newest: created[created.length - 1],
+        session: { ...session }
+    };
+}
+
+/**
+ * Delete cache entries - all of them, one task's, or only expired ones. Returns how many were removed.
+ */
+export async function clearCache(filter: { task?: string; expiredOnly?: boolean } = {}): Promise<number> {
+    const now = Date.now();
+    const targets = (await listEntries()).filter(({ entry }) =>
+        (!filter.task || entry.task === filter.task) &&
+        (!filter.expiredOnly || new Date(entry.expiresAt).getTime() <= now)
+    );
+
+    await Promise.all(targets.map(({ file }) => fs.promises.unlink(file).catch(() => undefined)));
+    console.log(`[LLMCache] Cleared ${targets.length} entr${targets.length === 1 ? 'y' : 'ies'}${filter.task ? ` for ${filter.task}` : ''}${filter.expiredOnly ? ' (expired)' : ''}`);
+    return targets.length;
+}
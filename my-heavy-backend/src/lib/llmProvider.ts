@@ -1,30 +1,40 @@
 /**
  * llmProvider.ts
- * Unified LLM provider with multi-provider fallback (OpenRouter + Groq)
+ * Unified LLM provider with multi-provider fallback (Groq, OpenRouter, Gemini, local)
  * 
  * Strategy:
  * - Task-specific model chains
- * - Automatic failover between providers
+ * - Automatic failover between providers (plugins in modelProviders.ts)
  * - Smart error handling with rate limit detection
+ * - Context-length-aware routing (modelCapabilities.ts)
  */
 
-import Groq from 'groq-sdk';
 import dotenv from 'dotenv';
+import { throwIfAborted, RunCancelledError } from './cancellation';
+import { getProviderOverride } from './providers';
+import { getModelProvider } from './modelProviders';
+import { recordUsage } from './usageTracker';
+import { checkQuota, recordRequest, reportRateLimit, reportQuotaExhausted } from './quotaTracker';
+import { canAttempt, recordOutcome, orderByHealth, getModelHealth } from './modelHealth';
+import { getTaskModelConfig } from './modelConfig';
+import { OutputSchema, validateWithRepair, parseOutput, OutputValidationError } from './outputSchema';
+import { getCachedResponse, setCachedResponse } from './llmCache';
+import { startModelAttempt } from './modelAttempts';
+import { getModelCapability, getPromptBudget, estimateMessageTokens, trimMessagesToFit, ContextTrim } from './modelCapabilities';
 
 dotenv.config();
 
 // ============ PROVIDERS ============
 
-type Provider = 'groq' | 'openrouter';
-
 interface ModelConfig {
-    provider: Provider;
+    provider: string;  // Plugin name in modelProviders.ts - 'groq' | 'openrouter' | 'gemini' | 'local' | ...
     model: string;
 }
 
 // ============ TASK-SPECIFIC MODEL CHAINS ============
 // Based on user's optimized assignments (Dec 2025)
 // Each task has PRIMARY → FALLBACK1 → FALLBACK2
+// Defaults - the external config (modelConfig.ts) can override any task
 
 export const TASK_MODELS = {
     // Step 1 & Step 6: Fast/Simple keyword generation
@@ -65,6 +75,7 @@ export const TASK_MODELS = {
     // Step 11a: Extract Key Facts (HUGE CONTEXT - needs 1M tokens)
     EXTRACT_FACTS: [
         { provider: 'openrouter', model: 'google/gemini-2.0-flash-exp:free' }, // Primary: 1M context essential
+        { provider: 'gemini', model: 'gemini-2.0-flash' },                      // Same 1M context, direct API (needs GEMINI_API_KEY)
         { provider: 'openrouter', model: 'qwen/qwen-2.5-72b-instruct:free' },  // 32k-128k context
         { provider: 'groq', model: 'llama-3.3-70b-versatile' }                 // 128k context last resort
     ],
@@ -116,134 +127,201 @@ export const TASK_MODELS = {
 
     REPORT: [
         { provider: 'groq', model: 'llama-3.3-70b-versatile' },
-        { provider: 'openrouter', model: 'google/gemini-2.0-flash-exp:free' }
+        { provider: 'openrouter', model: 'google/gemini-2.0-flash-exp:free' },
+        { provider: 'gemini', model: 'gemini-2.0-flash' }
     ]
 } as const;
 
 export type TaskType = keyof typeof TASK_MODELS;
 
-// ============ CLIENTS ============
-
-let groqClient: Groq | null = null;
-
-function getGroqClient(): Groq {
-    if (!groqClient) {
-        if (!process.env.GROQ_API_KEY) {
-            throw new Error('GROQ_API_KEY is missing');
-        }
-        groqClient = new Groq({ apiKey: process.env.GROQ_API_KEY });
-    }
-    return groqClient;
-}
-
-async function callOpenRouter(
-    model: string,
-    messages: Array<{ role: string; content: string }>,
-    temperature: number,
-    jsonMode: boolean
-): Promise<string> {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) throw new Error('OPENROUTER_API_KEY is missing');
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': 'https://insight.pakyouth.org',
-            'X-Title': 'Insight Research Tool'
-        },
-        body: JSON.stringify({
-            model,
-            messages,
-            temperature,
-            ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
-        })
-    });
-
-    if (!response.ok) {
-        const status = response.status;
-        const text = await response.text();
-
-        if (status === 429) throw new Error('RATE_LIMIT');
-        if (status === 402) throw new Error('QUOTA_EXCEEDED');
-        if (status >= 500) throw new Error('SERVER_ERROR');
-
-        throw new Error(`OpenRouter error ${status}: ${text}`);
-    }
+/**
+ * The chain callLLM walks for a task (configured chain, or TASK_MODELS). With
+ * LOCAL_LLM_BASE_URL + LOCAL_LLM_MODEL set, the local model goes first
+ * (LOCAL_LLM_ONLY=true drops the cloud fallbacks).
+ */
+function getTaskChain(task: TaskType): ModelConfig[] {
+    const chain: ModelConfig[] = [...getTaskModelConfig(task).chain];
+    const localModel = process.env.LOCAL_LLM_MODEL;
+    if (!localModel || !process.env.LOCAL_LLM_BASE_URL) return chain;
 
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
+    const local = { provider: 'local', model: localModel };
+    return process.env.LOCAL_LLM_ONLY === 'true' ? [local] : [local, ...chain];
 }
 
-async function callGroq(
-    model: string,
-    messages: Array<{ role: 'user' | 'system' | 'assistant'; content: string }>,
-    temperature: number,
-    jsonMode: boolean
-): Promise<string> {
-    const client = getGroqClient();
-
-    const completion = await client.chat.completions.create({
-        model,
-        messages,
-        temperature,
-        ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
-    });
-
-    return completion.choices[0]?.message?.content || '';
+/**
+ * Whether a chain entry could take a request right now. Unlike canAttempt this
+ * has no side effects, so it can be used to look ahead in the chain.
+ */
+function couldServe({ provider, model }: ModelConfig): boolean {
+    if (!getModelProvider(provider)?.isConfigured() || !checkQuota(provider, model).allowed) return false;
+    const health = getModelHealth(provider, model);
+    return health.state !== 'open' || Date.parse(health.nextProbeAt || '') <= Date.now();
 }
 
 // ============ MAIN UNIFIED CALL ============
 
-interface LLMCallOptions {
+export interface LLMCallOptions {
     task: TaskType;
     messages: Array<{ role: 'user' | 'system' | 'assistant'; content: string }>;
     temperature?: number;
     jsonMode?: boolean;
+    signal?: AbortSignal;  // Aborts the in-flight request and stops the fallback chain
+    output?: OutputSchema<unknown>;  // Validate (and repair) every response - see outputSchema.ts
 }
 
 export async function callLLM(options: LLMCallOptions): Promise<string> {
-    const { task, messages, temperature = 0.3, jsonMode = false } = options;
-    const modelChain = TASK_MODELS[task];
+    // Injected provider (providers.ts) - no live model calls
+    const injected = getProviderOverride('llm');
+    if (injected) {
+        const content = await injected.complete(options);
+        if (!options.output) return content;
+
+        const check = await validateWithRepair(options.output, options.messages, content,
+            messages => injected.complete({ ...options, messages }), 'injected');
+        if (!check.valid) throw new OutputValidationError(options.output.name, check.issues);
+        return check.text;
+    }
+
+    const { task, messages, signal, output } = options;
+    // A configured temperature is the operator's tuning and wins over the caller's;
+    // JSON mode is part of the caller's contract (a validated output always needs JSON),
+    // so the configured value only fills in when the caller left it unset
+    const taskConfig = getTaskModelConfig(task);
+    const temperature = taskConfig.temperature ?? options.temperature ?? 0.3;
+    const jsonMode = output ? true : (options.jsonMode ?? taskConfig.jsonMode ?? false);
+    // Healthy models first; open circuits go last and are skipped below
+    const modelChain = orderByHealth(getTaskChain(task));
+
+    // Same prompt answered before (retry, resumed run, repeated topic) - no request needed
+    const cacheRequest = { task, messages, temperature, jsonMode };
+    const cached = await getCachedResponse(cacheRequest, modelChain);
+    if (cached && (!output || parseOutput(cached.content, output).valid)) {
+        return cached.content;
+    }
+    const promptTokens = estimateMessageTokens(messages);
+    let skippedForQuota = 0;
+    let skippedForHealth = 0;
+    let skippedForContext = 0;
+    let invalidOutputs = 0;
 
     for (let i = 0; i < modelChain.length; i++) {
         const { provider, model } = modelChain[i];
+        throwIfAborted(signal);
 
-        try {
-            console.log(`[LLM] Task=${task} Provider=${provider} Model=${model}`);
+        // No plugin or no credentials/endpoint for this provider - not a model failure
+        const plugin = getModelProvider(provider);
+        if (!plugin?.isConfigured()) {
+            console.log(`[LLM] Skipping ${model}: provider "${provider}" is ${plugin ? 'not configured' : 'unknown'}`);
+            continue;
+        }
+
+        // Prompt too big for this model: leave it to a later model that can hold more
+        // of it, otherwise cut the context down to what this one takes
+        const capability = getModelCapability(provider, model);
+        const promptBudget = getPromptBudget(capability);
+        let modelMessages = messages;
+        let contextTrim: ContextTrim | undefined;
+        if (promptTokens > promptBudget) {
+            const largerLater = modelChain.slice(i + 1).some(next =>
+                couldServe(next) && getPromptBudget(getModelCapability(next.provider, next.model)) > promptBudget);
+            if (largerLater) {
+                console.log(`[LLM] Skipping ${model}: prompt (~${promptTokens} tokens) exceeds its ${capability.contextWindow}-token context`);
+                skippedForContext++;
+                continue;
+            }
+            ({ messages: modelMessages, trim: contextTrim } = trimMessagesToFit(messages, promptBudget));
+        }
+        // JSON mode only where the API accepts it - the prompt and output schema still ask for JSON
+        const modelJsonMode = jsonMode && capability.jsonMode;
+
+        // Out of budget: skip before spending a request on a certain 429
+        const quota = checkQuota(provider, model);
+        if (!quota.allowed) {
+            console.log(`[LLM] Skipping ${model}: ${quota.reason}`);
+            skippedForQuota++;
+            continue;
+        }
 
-            let result: string;
+        // Circuit breaker: skip models that keep failing (one probe per cooldown)
+        const breaker = canAttempt(provider, model);
+        if (!breaker.allowed) {
+            console.log(`[LLM] Skipping ${model}: ${breaker.reason}`);
+            skippedForHealth++;
+            continue;
+        }
 
-            if (provider === 'groq') {
-                result = await callGroq(model, messages, temperature, jsonMode);
-            } else {
-                result = await callOpenRouter(model, messages, temperature, jsonMode);
+        const startedAt = Date.now();
+        const attempt = startModelAttempt(provider, model, contextTrim);  // Shown on the current pipeline step
+        try {
+            console.log(`[LLM] Task=${task} Provider=${provider} Model=${model}${breaker.probe ? ' (probe)' : ''}`);
+            if (contextTrim) {
+                console.warn(`[LLM] Trimmed ~${contextTrim.droppedTokens} of ~${promptTokens} prompt tokens to fit ${model}`);
             }
+            recordRequest(provider, model);
+
+            const completion = await plugin.complete({ model, messages: modelMessages, temperature, jsonMode: modelJsonMode, signal });
+            recordUsage({ provider, model, task, usage: completion.usage });
+            attempt.addUsage(completion.usage);
+            let result = completion.content;
 
             if (!result || result.trim() === '') {
                 console.warn(`[LLM] Empty response from ${model}, trying next...`);
+                recordOutcome(provider, model, 'failure', Date.now() - startedAt, 'Empty response');
+                attempt.reject('empty_response', 'Empty response');
                 continue;
             }
 
+            // Off-schema output: repair re-prompt on this model, then fall through to the next
+            if (output) {
+                const check = await validateWithRepair(output, modelMessages, result, async repairMessages => {
+                    recordRequest(provider, model);
+                    const repaired = await plugin.complete({ model, messages: repairMessages, temperature, jsonMode: modelJsonMode, signal });
+                    recordUsage({ provider, model, task, usage: repaired.usage });
+                    attempt.addUsage(repaired.usage);
+                    return repaired.content;
+                }, `${provider}/${model}`);
+
+                if (!check.valid) {
+                    console.warn(`[LLM] ${model} returned invalid ${output.name} output, trying next...`);
+                    recordOutcome(provider, model, 'failure', Date.now() - startedAt, `Invalid ${output.name} output: ${check.issues[0]}`);
+                    attempt.reject('invalid_output', `Invalid ${output.name} output: ${check.issues.join('; ')}`, result);
+                    invalidOutputs++;
+                    continue;
+                }
+                result = check.text;
+            }
+
             console.log(`[LLM] Success with ${model}`);
+            recordOutcome(provider, model, 'success', Date.now() - startedAt);
+            attempt.succeed(result);
+            await setCachedResponse(cacheRequest, provider, model, result);
             return result;
 
         } catch (error: unknown) {
-            const err = error as Error;
+            attempt.fail(signal?.aborted ? new RunCancelledError() : error);
+
+            // Cancelled run - don't fall through to the next model
+            if (signal?.aborted) {
+                recordOutcome(provider, model, 'neutral', Date.now() - startedAt);
+                throw new RunCancelledError();
+            }
+
+            const err = error as Error & { status?: number };
             const errorMsg = err?.message || String(error);
 
             console.warn(`[LLM] ${model} failed: ${errorMsg}`);
 
-            // Rate limit: short wait then try next
-            if (errorMsg === 'RATE_LIMIT') {
-                console.log('[LLM] Rate limited, waiting 5s...');
-                await new Promise(r => setTimeout(r, 5000));
-            }
-
-            // Quota exceeded: try next provider immediately
-            if (errorMsg === 'QUOTA_EXCEEDED') {
+            // Rate limit (OpenRouter 'RATE_LIMIT', Groq SDK status 429): cool the model down, try next now
+            if (errorMsg === 'RATE_LIMIT' || err?.status === 429) {
+                reportRateLimit(provider, model);
+                recordOutcome(provider, model, 'neutral', Date.now() - startedAt);
+            } else if (errorMsg === 'QUOTA_EXCEEDED') {
+                // Quota exceeded: the whole provider is out for the day
                 console.log('[LLM] Quota exceeded, switching provider...');
+                reportQuotaExhausted(provider);
+                recordOutcome(provider, model, 'neutral', Date.now() - startedAt);
+            } else {
+                recordOutcome(provider, model, 'failure', Date.now() - startedAt, errorMsg);
             }
 
             // Continue to next model in chain
@@ -251,38 +329,43 @@ export async function callLLM(options: LLMCallOptions): Promise<string> {
         }
     }
 
-    throw new Error(`[LLM] All models failed for task: ${task}`);
+    const skipped = [
+        skippedForQuota > 0 ? `${skippedForQuota} skipped - out of budget` : '',
+        skippedForHealth > 0 ? `${skippedForHealth} skipped - circuit open` : '',
+        skippedForContext > 0 ? `${skippedForContext} skipped - prompt too long` : '',
+        invalidOutputs > 0 ? `${invalidOutputs} returned invalid ${output?.name} output` : ''
+    ].filter(Boolean).join(', ');
+    throw new Error(`[LLM] All models failed for task: ${task}${skipped ? ` (${skipped})` : ''}`);
 }
 
-// ============ LEGACY COMPATIBILITY ============
-// Keep old MODEL_CHAINS for any code that still uses it
-
-export const MODEL_CHAINS = {
-    KEYWORDS: ['llama-3.1-8b-instant', 'llama-3.3-70b-versatile'],
-    SUMMARIZE: ['llama-3.1-8b-instant', 'llama-3.3-70b-versatile'],
-    CLASSIFY: ['llama-3.3-70b-versatile', 'llama-3.1-70b-versatile'],
-    DEFAULT: ['llama-3.3-70b-versatile']
-};
-
-// Legacy function - calls Groq only
-export async function callGroqWithFallback(options: {
-    messages: Array<{ role: 'user' | 'system' | 'assistant'; content: string }>;
-    modelChain: string[];
-    temperature?: number;
-    jsonMode?: boolean;
-}): Promise<string> {
-    const { messages, modelChain, temperature = 0.3, jsonMode = false } = options;
-
-    for (const model of modelChain) {
-        try {
-            return await callGroq(model, messages, temperature, jsonMode);
-        } catch (error) {
-            console.warn(`[Groq] ${model} failed, trying next...`);
-            continue;
-        }
-    }
+/**
+ * callLLM for a JSON output: every response is validated against `output`
+ * (repair re-prompt, then the next model) and the parsed value is returned
+ */
+export async function callLLMStructured<T>(options: Omit<LLMCallOptions, 'output' | 'jsonMode'>, output: OutputSchema<T>): Promise<T> {
+    const text = await callLLM({ ...options, jsonMode: true, output });
+    const check = parseOutput(text, output);
+    if (!check.valid) throw new OutputValidationError(output.name, check.issues);
+    return check.value;
+}
 
-    throw new Error('All Groq models failed');
+/**
+ * Current (health-ordered) model chain of every task, as "provider/model"
+ */
+export function getTaskChains(): Record<TaskType, string[]> {
+    return Object.fromEntries(
+        (Object.keys(TASK_MODELS) as TaskType[]).map(task => [
+            task,
+            orderByHealth(getTaskChain(task)).map(({ provider, model }) => `${provider}/${model}`)
+        ])
+    ) as Record<TaskType, string[]>;
 }
 
-export { getGroqClient };
+/**
+ * Tasks whose entire model chain is currently out of budget (quotaTracker.ts)
+ */
+export function getTasksWithoutBudget(): TaskType[] {
+    return (Object.keys(TASK_MODELS) as TaskType[]).filter(task =>
+        getTaskChain(task).every(({ provider, model }) => !checkQuota(provider, model).allowed)
+    );
+}
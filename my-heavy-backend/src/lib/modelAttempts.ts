@@ -0,0 +1,118 @@
+/**
+ * modelAttempts.ts
+ * Records every provider attempt made by callLLM on the pipeline step that
+ * made it
+ *
+ * The step comes from stepContext.ts (AsyncLocalStorage), so nothing has to be
+ * threaded through the step services. Outside a pipeline step (direct /v2 calls,
+ * scripts) attempts are not logged anywhere.
+ *
+ *   const attempt = startModelAttempt(provider, model);
+ *   attempt.addUsage(completion.usage);   // once per request, repairs included
+ *   attempt.succeed(content);             // or attempt.fail(error) / attempt.reject('empty_response', ...)
+ *
+ * Response previews and error bodies are truncated and redacted by PipelineLogger.
+ */
+
+import { getStepContext } from './stepContext';
+import { getPipelineLogger } from './pipelineLogger';
+import { isCancellation } from './cancellation';
+import type { TokenUsage } from './usageTracker';
+import type { ContextTrim } from './modelCapabilities';
+
+// ============ TYPES ============
+
+export type AttemptErrorType =
+    | 'rate_limit'
+    | 'quota_exceeded'
+    | 'server_error'
+    | 'model_not_found'
+    | 'empty_response'
+    | 'invalid_output'
+    | 'cancelled'
+    | 'error';
+
+export interface AttemptError {
+    type: AttemptErrorType;
+    code: string;
+    message: string;
+    raw?: string;
+}
+
+export interface ModelAttemptRecorder {
+    addUsage(usage?: TokenUsage): void;
+    succeed(response: string): void;
+    fail(error: unknown): void;                                             // Thrown by the provider
+    reject(type: AttemptErrorType, message: string, response?: string): void;  // Answered, but unusable
+}
+
+// ============ ERROR CLASSIFICATION ============
+
+/**
+ * Map a provider error onto the attempt error types shown in the logs UI.
+ * Plugins signal rate limits / quota / 5xx with RATE_LIMIT / QUOTA_EXCEEDED /
+ * SERVER_ERROR messages (modelProviders.ts); the Groq SDK sets `status`.
+ */
+export function classifyModelError(error: unknown): AttemptError {
+    const err = error as Error & { status?: number; code?: string; error?: unknown };
+    const message = err?.message || String(error);
+    const code = err?.status !== undefined ? String(err.status) : err?.code || message.split(/[\s:]/)[0];
+
+    let type: AttemptErrorType = 'error';
+    if (isCancellation(error)) type = 'cancelled';
+    else if (message === 'RATE_LIMIT' || err?.status === 429 || message.includes('rate_limit')) type = 'rate_limit';
+    else if (message === 'QUOTA_EXCEEDED' || err?.status === 402 || message.includes('quota')) type = 'quota_exceeded';
+    else if (message === 'SERVER_ERROR' || (err?.status !== undefined && err.status >= 500)) type = 'server_error';
+    else if (message.includes('model_not_found') || message.includes('does not exist')) type = 'model_not_found';
+
+    // Groq SDK errors carry the provider's error body
+    return { type, code, message, ...(err?.error !== undefined ? { raw: JSON.stringify(err.error) } : {}) };
+}
+
+// ============ RECORDING ============
+
+/**
+ * Start timing one attempt on one model. A no-op recorder outside a pipeline step.
+ * `contextTrim` is what was cut from the prompt to fit the model (modelCapabilities.ts).
+ */
+export function startModelAttempt(provider: string, model: string, contextTrim?: ContextTrim): ModelAttemptRecorder {
+    const context = getStepContext();
+    const startedAt = new Date().toISOString();
+    const tokens: TokenUsage = { tokensIn: 0, tokensOut: 0 };
+    let finished = false;
+
+    const finish = (data: { status: 'success' | 'failed'; response?: string; error?: AttemptError }) => {
+        if (finished || !context) return;
+        finished = true;
+        try {
+            getPipelineLogger(context.runId)?.logModelAttempt(context.stepId, {
+                provider,
+                model,
+                startedAt,
+                tokensIn: tokens.tokensIn,
+                tokensOut: tokens.tokensOut,
+                contextTrim,
+                ...data
+            });
+        } catch (e) {
+            console.error('[ModelAttempts] Failed to log attempt:', e);
+        }
+    };
+
+    return {
+        addUsage(usage) {
+            if (!usage) return;
+            tokens.tokensIn += usage.tokensIn;
+            tokens.tokensOut += usage.tokensOut;
+        },
+        succeed(response) {
+            finish({ status: 'success', response });
+        },
+        fail(error) {
+            finish({ status: 'failed', error: classifyModelError(error) });
+        },
+        reject(type, message, response) {
+            finish({ status: 'failed', response, error: { type, code: type.toUpperCase(), message } });
+        }
+    };
+}
@@ -0,0 +1,154 @@
+/**
+ * modelCapabilities.ts
+ * What each model can take - context window, output limit, JSON mode - and
+ * fitting a prompt into it
+ *
+ * callLLM estimates the prompt size once per call. A model whose window is too
+ * small is skipped while a later model in the chain can hold more of the prompt;
+ * the last model that can hold the most gets the prompt trimmed to fit instead
+ * (trimMessagesToFit), and the trim is recorded on the model attempt.
+ *
+ * Token counts are estimates (~4 characters per token), not tokenizer output.
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export interface ModelCapability {
+    contextWindow: number;    // Prompt + completion, in tokens
+    maxOutputTokens: number;  // Completion limit
+    jsonMode: boolean;        // Accepts response_format / responseMimeType JSON
+}
+
+type Message = { role: 'user' | 'system' | 'assistant'; content: string };
+
+// What was cut from a prompt to fit a model (shown with the model attempt in the logs)
+export interface ContextTrim {
+    budgetTokens: number;    // Prompt budget of the model (getPromptBudget)
+    promptTokens: number;    // Estimated, before trimming
+    keptTokens: number;      // Estimated, after trimming
+    droppedTokens: number;
+    droppedChars: number;
+    droppedLines: number;
+    messageIndex: number;    // Message that was cut (the longest one)
+}
+
+// ============ CAPABILITY TABLE ============
+
+// Keyed "provider/model", like MODEL_PRICES (usageTracker.ts)
+export const MODEL_CAPABILITIES: Record<string, ModelCapability> = {
+    'groq/llama-3.1-8b-instant': { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true },
+    'groq/llama-3.3-70b-versatile': { contextWindow: 131072, maxOutputTokens: 32768, jsonMode: true },
+    'groq/gemma2-9b-it': { contextWindow: 8192, maxOutputTokens: 8192, jsonMode: true },
+    'gemini/gemini-2.0-flash': { contextWindow: 1048576, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/google/gemini-2.0-flash-exp:free': { contextWindow: 1048576, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/qwen/qwen-2.5-72b-instruct:free': { contextWindow: 32768, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/mistralai/mistral-nemo:free': { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/meta-llama/llama-3.3-70b-instruct:free': { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/meta-llama/llama-3.2-3b-instruct:free': { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/nvidia/llama-3.1-nemotron-70b-instruct:free': { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/nousresearch/hermes-3-llama-3.1-405b:free': { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true },
+    'openrouter/deepseek/deepseek-r1:free': { contextWindow: 163840, maxOutputTokens: 32768, jsonMode: false },  // Reasoning output, no JSON mode
+    'openrouter/google/gemma-2-9b-it:free': { contextWindow: 8192, maxOutputTokens: 8192, jsonMode: false },
+    'openrouter/google/gemma-2-27b-it:free': { contextWindow: 8192, maxOutputTokens: 8192, jsonMode: false }
+};
+
+// Models missing from the table (added through the model config) are assumed to be small
+const DEFAULT_CAPABILITY: ModelCapability = { contextWindow: 32768, maxOutputTokens: 4096, jsonMode: true };
+
+// Local servers (Ollama etc.) run with whatever context they were started with
+const LOCAL_CONTEXT_TOKENS = parseInt(process.env.LOCAL_LLM_CONTEXT_TOKENS || '8192', 10);
+
+// Room left for the completion when checking whether a prompt fits
+const OUTPUT_RESERVE_TOKENS = 4096;
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;  // Role and separators
+
+const warnedUnknown = new Set<string>();
+
+export function getModelCapability(provider: string, model: string): ModelCapability {
+    const key = `${provider}/${model}`;
+    const known = MODEL_CAPABILITIES[key];
+    if (known) return known;
+
+    if (provider === 'local') {
+        return { contextWindow: LOCAL_CONTEXT_TOKENS, maxOutputTokens: Math.min(4096, LOCAL_CONTEXT_TOKENS / 2), jsonMode: true };
+    }
+
+    if (!warnedUnknown.has(key)) {
+        warnedUnknown.add(key);
+        console.warn(`[ModelCapabilities] No capabilities for ${key} - assuming a ${DEFAULT_CAPABILITY.contextWindow}-token context`);
+    }
+    return DEFAULT_CAPABILITY;
+}
+
+// ============ TOKEN ESTIMATES ============
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: Message[]): number {
+    return messages.reduce((total, m) => total + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Largest prompt (estimated tokens) the model can take while leaving room for the completion
+ */
+export function getPromptBudget(capability: ModelCapability): number {
+    return capability.contextWindow - Math.min(OUTPUT_RESERVE_TOKENS, capability.maxOutputTokens);
+}
+
+// ============ TRIMMING ============
+
+/**
+ * Cut the middle out of the longest message until the prompt fits `maxTokens`.
+ * Instructions usually sit at the start or end of a prompt and the bulk context
+ * in between, so both ends are kept; cuts land on line boundaries where possible.
+ */
+export function trimMessagesToFit(messages: Message[], maxTokens: number): { messages: Message[]; trim?: ContextTrim } {
+    const promptTokens = estimateMessageTokens(messages);
+    if (promptTokens <= maxTokens) return { messages };
+
+    let messageIndex = 0;
+    messages.forEach((m, i) => {
+        if (m.content.length > messages[messageIndex].content.length) messageIndex = i;
+    });
+    const content = messages[messageIndex].content;
+
+    const overflowChars = (promptTokens - maxTokens) * CHARS_PER_TOKEN;
+    const markerReserve = 120;
+    const keepChars = Math.max(0, content.length - overflowChars - markerReserve);
+
+    // Snap the head back and the tail forward to the nearest newline
+    let head = content.slice(0, Math.ceil(keepChars / 2));
+    let tail = content.slice(content.length - Math.floor(keepChars / 2));
+    const headBreak = head.lastIndexOf('\n');
+    if (headBreak > head.length / 2) head = head.slice(0, headBreak);
+    const tailBreak = tail.indexOf('\n');
+    if (tailBreak >= 0 && tailBreak < tail.length / 2) tail = tail.slice(tailBreak + 1);
+
+    const dropped = content.slice(head.length, content.length - tail.length);
+    const droppedTokens = estimateTokens(dropped);
+    const marker = `\n[... ${droppedTokens} tokens of context omitted to fit the model's context window ...]\n`;
+
+    const trimmed = messages.map((m, i) => i === messageIndex ? { ...m, content: head + marker + tail } : m);
+    const keptTokens = estimateMessageTokens(trimmed);
+
+    return {
+        messages: trimmed,
+        trim: {
+            budgetTokens: maxTokens,
+            promptTokens,
+            keptTokens,
+            droppedTokens,
+            droppedChars: dropped.length,
+            droppedLines: dropped.split('\n').length - 1,
+            messageIndex
+        }
+    };
+}
@@ -0,0 +1,282 @@
+/**
+ * modelConfig.ts
+ * External model-chain configuration (chains, temperature, JSON mode, caching per TaskType)
+ *
+ * Sources, first match wins:
+ * 1. Firestore document config/models - edited from the frontend via PUT /v2/config/models
+ * 2. JSON file at MODEL_CONFIG_PATH
+ * 3. TASK_MODELS in llmProvider.ts
+ *
+ * Only the tasks present in the config are overridden; every other task keeps
+ * its built-in chain. A configured temperature replaces the one passed to callLLM;
+ * a configured JSON mode only applies when the caller sets none. Configs are validated when loaded - an invalid one is
+ * rejected and the last valid config stays active. The active config is
+ * re-read every MODEL_CONFIG_REFRESH_MS (and whenever the file changes), so
+ * edits apply without a restart.
+ *
+ *   {
+ *     "tasks": {
+ *       "SUMMARIZE": {
+ *         "chain": [{ "provider": "groq", "model": "llama-3.1-8b-instant" }],
+ *         "temperature": 0.2,
+ *         "jsonMode": true
+ *       }
+ *     }
+ *   }
+ */
+
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { db } from './firebase';
+import { TASK_MODELS, TaskType } from './llmProvider';
+import { getModelProvider } from './modelProviders';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export interface ChainEntry {
+    provider: string;  // Plugin name in modelProviders.ts
+    model: string;
+}
+
+export interface TaskModelConfig {
+    chain: ChainEntry[];
+    temperature?: number;  // Overrides the caller's temperature when set
+    jsonMode?: boolean;    // Default when the caller passes no JSON mode (callers with an output schema always use JSON)
+    cache?: boolean;       // false = never serve this task from the LLM cache (llmCache.ts)
+}
+
+export interface ModelConfigDocument {
+    tasks: Partial<Record<TaskType, TaskModelConfig>>;
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+export type ModelConfigSource = 'firestore' | 'file' | 'defaults';
+
+export interface ModelConfigState {
+    source: ModelConfigSource;
+    loadedAt: string | null;
+    lastError: string | null;  // Last rejected / failed load - the previous config stayed active
+    config: ModelConfigDocument;
+    effective: Record<TaskType, TaskModelConfig>;  // Config merged over TASK_MODELS
+    defaults: Record<TaskType, TaskModelConfig>;
+}
+
+export class ModelConfigError extends Error {
+    constructor(public issues: string[]) {
+        super(`Invalid model config: ${issues.join('; ')}`);
+        this.name = 'ModelConfigError';
+    }
+}
+
+// ============ CONFIGURATION ============
+
+const CONFIG_COLLECTION = 'config';
+const CONFIG_DOC = 'models';
+const REFRESH_MS = Number(process.env.MODEL_CONFIG_REFRESH_MS) || 60 * 1000;
+const MAX_CHAIN_LENGTH = 10;
+
+// ============ VALIDATION ============
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a config against the schema. Returns the normalized config (unknown
+ * fields dropped) or throws ModelConfigError listing every problem found.
+ */
+export function validateModelConfig(input: unknown): ModelConfigDocument {
+    const issues: string[] = [];
+
+    if (!isRecord(input) || !isRecord(input.tasks)) {
+        throw new ModelConfigError(['"tasks" must be an object keyed by task type']);
+    }
+
+    const tasks: Partial<Record<TaskType, TaskModelConfig>> = {};
+
+    for (const [task, value] of Object.entries(input.tasks)) {
+        if (!(task in TASK_MODELS)) {
+            issues.push(`${task}: unknown task (expected one of ${Object.keys(TASK_MODELS).join(', ')})`);
+            continue;
+        }
+        if (!isRecord(value)) {
+            issues.push(`${task}: must be an object`);
+            continue;
+        }
+
+        const { chain, temperature, jsonMode, cache } = value;
+        const entries: ChainEntry[] = [];
+
+        if (!Array.isArray(chain) || chain.length === 0) {
+            issues.push(`${task}.chain: must be a non-empty array`);
+        } else if (chain.length > MAX_CHAIN_LENGTH) {
+            issues.push(`${task}.chain: at most ${MAX_CHAIN_LENGTH} models`);
+        } else {
+            chain.forEach((entry, i) => {
+                if (!isRecord(entry) || typeof entry.provider !== 'string' || typeof entry.model !== 'string') {
+                    issues.push(`${task}.chain[${i}]: must be { provider: string, model: string }`);
+                } else if (!getModelProvider(entry.provider)) {
+                    issues.push(`${task}.chain[${i}]: unknown provider "${entry.provider}"`);
+                } else if (entry.model.trim() === '') {
+                    issues.push(`${task}.chain[${i}]: model must not be empty`);
+                } else {
+                    entries.push({ provider: entry.provider, model: entry.model.trim() });
+                }
+            });
+        }
+
+        if (temperature !== undefined && (typeof temperature !== 'number' || !Number.isFinite(temperature) || temperature < 0 || temperature > 2)) {
+            issues.push(`${task}.temperature: must be a number between 0 and 2`);
+        }
+        if (jsonMode !== undefined && typeof jsonMode !== 'boolean') {
+            issues.push(`${task}.jsonMode: must be a boolean`);
+        }
+        if (cache !== undefined && typeof cache !== 'boolean') {
+            issues.push(`${task}.cache: must be a boolean`);
+        }
+
+        tasks[task as TaskType] = {
+            chain: entries,
+            ...(temperature !== undefined ? { temperature: temperature as number } : {}),
+            ...(jsonMode !== undefined ? { jsonMode: jsonMode as boolean } : {}),
+            ...(cache !== undefined ? { cache: cache as boolean } : {})
+        };
+    }
+
+    if (issues.length > 0) throw new ModelConfigError(issues);
+
+    return {
+        tasks,
+        ...(typeof input.updatedAt === 'string' ? { updatedAt: input.updatedAt } : {}),
+        ...(typeof input.updatedBy === 'string' ? { updatedBy: input.updatedBy } : {})
+    };
+}
+
+// ============ STATE ============
+
+let active: ModelConfigDocument = { tasks: {} };
+let source: ModelConfigSource = 'defaults';
+let loadedAt: string | null = null;
+let lastError: string | null = null;
+let refreshTimer: NodeJS.Timeout | null = null;
+
+function defaultTaskConfig(task: TaskType): TaskModelConfig {
+    return { chain: TASK_MODELS[task].map(({ provider, model }) => ({ provider, model })) };
+}
+
+/**
+ * Chain, temperature, JSON mode and cache opt-out callLLM uses for a task (never throws)
+ */
+export function getTaskModelConfig(task: TaskType): TaskModelConfig {
+    return active.tasks[task] || defaultTaskConfig(task);
+}
+
+function apply(config: ModelConfigDocument, from: ModelConfigSource): void {
+    const changed = from !== source || JSON.stringify(config.tasks) !== JSON.stringify(active.tasks);
+    active = config;
+    source = from;
+    loadedAt = new Date().toISOString();
+    lastError = null;
+    if (changed) {
+        console.log(`[ModelConfig] Using ${from} config (${Object.keys(config.tasks).length} task overrides)`);
+    }
+}
+
+// ============ LOADING ============
+
+async function readFirestoreConfig(): Promise<unknown | undefined> {
+    const doc = await db.collection(CONFIG_COLLECTION).doc(CONFIG_DOC).get();
+    return doc.exists ? doc.data() : undefined;
+}
+
+function readFileConfig(): unknown | undefined {
+    const filePath = process.env.MODEL_CONFIG_PATH;
+    if (!filePath || !fs.existsSync(filePath)) return undefined;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Re-read the config from Firestore / file. An invalid or unreadable config is
+ * logged and ignored - the current one stays active. Never throws.
+ */
+export async function refreshModelConfig(): Promise<void> {
+    try {
+        const fromFirestore = await readFirestoreConfig();
+        if (fromFirestore !== undefined) {
+            apply(validateModelConfig(fromFirestore), 'firestore');
+            return;
+        }
+    } catch (e) {
+        lastError = `firestore: ${(e as Error).message}`;
+        console.error('[ModelConfig] Failed to load Firestore config - keeping current:', (e as Error).message);
+        // Don't fall back past an invalid admin edit or a transient read error
+        if (e instanceof ModelConfigError || source === 'firestore') return;
+    }
+
+    try {
+        const fromFile = readFileConfig();
+        if (fromFile !== undefined) {
+            apply(validateModelConfig(fromFile), 'file');
+            return;
+        }
+    } catch (e) {
+        lastError = `${process.env.MODEL_CONFIG_PATH}: ${(e as Error).message}`;
+        console.error(`[ModelConfig] Rejected ${process.env.MODEL_CONFIG_PATH} - keeping current:`, (e as Error).message);
+        return;
+    }
+
+    apply({ tasks: {} }, 'defaults');
+}
+
+/**
+ * Load the config now and keep it fresh (polling + file watch). Called once at server startup.
+ */
+export async function startModelConfigRefresh(): Promise<void> {
+    if (refreshTimer) return;
+
+    await refreshModelConfig();
+
+    refreshTimer = setInterval(() => void refreshModelConfig(), REFRESH_MS);
+    refreshTimer.unref();
+
+    const filePath = process.env.MODEL_CONFIG_PATH;
+    if (filePath) {
+        fs.watchFile(filePath, { interval: 2000, persistent: false }, () => void refreshModelConfig());
+    }
+}
+
+// ============ EDITING ============
+
+/**
+ * Validate and store a new config in Firestore; it applies immediately in this
+ * process and within MODEL_CONFIG_REFRESH_MS in every other instance.
+ * Throws ModelConfigError for an invalid config.
+ */
+export async function saveModelConfig(input: unknown, updatedBy?: string): Promise<ModelConfigDocument> {
+    const validated = validateModelConfig(input);
+    const config: ModelConfigDocument = {
+        tasks: validated.tasks,
+        updatedAt: new Date().toISOString(),
+        ...(updatedBy ? { updatedBy } : {})
+    };
+
+    await db.collection(CONFIG_COLLECTION).doc(CONFIG_DOC).set(config);
+    apply(config, 'firestore');
+    console.log(`[ModelConfig] Saved by ${updatedBy || 'unknown'}`);
+    return config;
+}
+
+export function getModelConfigState(): ModelConfigState {
+    const tasks = Object.keys(TASK_MODELS) as TaskType[];
+    return {
+        source,
+        loadedAt,
+        lastError,
+        config: active,
+        effective: Object.fromEntries(tasks.map(task => [task, getTaskModelConfig(task)])) as Record<TaskType, TaskModelConfig>,
+        defaults: Object.fromEntries(tasks.map(task => [task, defaultTaskConfig(task)])) as Record<TaskType, TaskModelConfig>
+    };
+}
@@ -0,0 +1,225 @@
+/**
+ * modelHealth.ts
+ * Per-model circuit breaker and rolling health stats for the LLM chains
+ *
+ * - closed:    model is called normally
+ * - open:      CIRCUIT_FAILURE_THRESHOLD consecutive failures - skipped until the cooldown ends
+ * - half_open: cooldown over - exactly one probe request goes through; success closes
+ *              the circuit, failure re-opens it with a doubled cooldown (capped)
+ *
+ * Chains are re-ordered by health (orderByHealth): healthy models keep their
+ * configured order, degraded ones move behind them and open ones go last.
+ * Rate limits and cancellations don't count as failures - quotaTracker.ts handles limits.
+ *
+ * State is in-memory; GET /v2/models/health exposes it.
+ */
+
+// ============ TYPES ============
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+export type AttemptOutcome = 'success' | 'failure' | 'neutral';
+
+interface Sample {
+    ok: boolean;
+    latencyMs: number;
+}
+
+interface ModelHealthState {
+    provider: string;
+    model: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    cooldownMs: number;
+    openedAt?: number;
+    probeInFlight: boolean;
+    samples: Sample[];  // Rolling window, newest last
+    lastError?: string;
+    lastFailureAt?: number;
+    lastSuccessAt?: number;
+}
+
+export interface ModelHealthStatus {
+    key: string;
+    provider: string;
+    model: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    samples: number;
+    successRate: number | null;   // null until the model has been called
+    avgLatencyMs: number | null;
+    p95LatencyMs: number | null;
+    lastError?: string;
+    lastFailureAt?: string;
+    lastSuccessAt?: string;
+    nextProbeAt?: string;         // When an open circuit allows its half-open probe
+}
+
+export interface BreakerCheck {
+    allowed: boolean;
+    probe?: boolean;  // This request is the half-open probe
+    reason?: string;
+}
+
+// ============ CONFIGURATION ============
+
+const FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 3;
+const BASE_COOLDOWN_MS = Number(process.env.CIRCUIT_COOLDOWN_MS) || 60 * 1000;
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+const WINDOW_SIZE = 50;           // Samples kept per model
+const MIN_SAMPLES_FOR_SCORE = 5;  // Below this a model counts as healthy
+const DEGRADED_SUCCESS_RATE = 0.7;
+
+// ============ STATE ============
+
+const health = new Map<string, ModelHealthState>();
+
+const keyOf = (provider: string, model: string) => `${provider}/${model}`;
+
+function getState(provider: string, model: string): ModelHealthState {
+    const key = keyOf(provider, model);
+    let state = health.get(key);
+    if (!state) {
+        state = { provider, model, state: 'closed', consecutiveFailures: 0, cooldownMs: BASE_COOLDOWN_MS, probeInFlight: false, samples: [] };
+        health.set(key, state);
+    }
+    return state;
+}
+
+function successRate(state: ModelHealthState): number | null {
+    if (state.samples.length === 0) return null;
+    return state.samples.filter(s => s.ok).length / state.samples.length;
+}
+
+function probeDue(state: ModelHealthState, now = Date.now()): boolean {
+    return state.state === 'open' && (state.openedAt || 0) + state.cooldownMs <= now;
+}
+
+function open(state: ModelHealthState, cooldownMs: number): void {
+    state.state = 'open';
+    state.openedAt = Date.now();
+    state.cooldownMs = cooldownMs;
+    console.warn(`[ModelHealth] Circuit OPEN for ${keyOf(state.provider, state.model)} (${state.consecutiveFailures} consecutive failures) - next probe in ${Math.round(cooldownMs / 1000)}s`);
+}
+
+// ============ BREAKER ============
+
+/**
+ * May this model be called now? For a half-open circuit only the first caller
+ * gets through (as the probe) until its outcome is recorded.
+ */
+export function canAttempt(provider: string, model: string): BreakerCheck {
+    const state = getState(provider, model);
+
+    if (state.state === 'open') {
+        if (!probeDue(state)) {
+            const nextProbe = new Date((state.openedAt || 0) + state.cooldownMs).toISOString();
+            return { allowed: false, reason: `circuit open until ${nextProbe}` };
+        }
+        state.state = 'half_open';
+        state.probeInFlight = false;
+    }
+
+    if (state.state === 'half_open') {
+        if (state.probeInFlight) return { allowed: false, reason: 'half-open probe in flight' };
+        state.probeInFlight = true;
+        console.log(`[ModelHealth] Half-open probe for ${keyOf(provider, model)}`);
+        return { allowed: true, probe: true };
+    }
+
+    return { allowed: true };
+}
+
+/**
+ * Record how a request went. 'neutral' (rate limited, cancelled) only releases a half-open probe.
+ */
+export function recordOutcome(provider: string, model: string, outcome: AttemptOutcome, latencyMs: number, error?: string): void {
+    const state = getState(provider, model);
+    const wasProbe = state.state === 'half_open' && state.probeInFlight;
+    state.probeInFlight = false;
+
+    if (outcome === 'neutral') {
+        // Unknown health - let the next caller probe again
+        if (wasProbe) state.state = 'open';
+        return;
+    }
+
+    state.samples.push({ ok: outcome === 'success', latencyMs });
+    if (state.samples.length > WINDOW_SIZE) state.samples.shift();
+
+    if (outcome === 'success') {
+        if (state.state !== 'closed') console.log(`[ModelHealth] Circuit CLOSED for ${keyOf(provider, model)}`);
+        state.state = 'closed';
+        state.consecutiveFailures = 0;
+        state.cooldownMs = BASE_COOLDOWN_MS;
+        state.lastSuccessAt = Date.now();
+        return;
+    }
+
+    state.consecutiveFailures++;
+    state.lastError = error?.slice(0, 300);
+    state.lastFailureAt = Date.now();
+
+    if (wasProbe) {
+        open(state, Math.min(state.cooldownMs * 2, MAX_COOLDOWN_MS));
+    } else if (state.state === 'closed' && state.consecutiveFailures >= FAILURE_THRESHOLD) {
+        open(state, BASE_COOLDOWN_MS);
+    }
+}
+
+// ============ CHAIN ORDERING ============
+
+// 0 = healthy, 1 = degraded or probe due, 2 = open (will be skipped)
+function healthTier(provider: string, model: string): number {
+    const state = health.get(keyOf(provider, model));
+    if (!state) return 0;
+    if (state.state === 'open') return probeDue(state) ? 1 : 2;
+    if (state.state === 'half_open') return 1;
+
+    const rate = successRate(state);
+    if (state.samples.length >= MIN_SAMPLES_FOR_SCORE && rate !== null && rate < DEGRADED_SUCCESS_RATE) return 1;
+    return 0;
+}
+
+/**
+ * Chain re-ordered by health; models in the same tier keep their configured order
+ */
+export function orderByHealth<T extends { provider: string; model: string }>(chain: readonly T[]): T[] {
+    return chain
+        .map((entry, index) => ({ entry, index, tier: healthTier(entry.provider, entry.model) }))
+        .sort((a, b) => a.tier - b.tier || a.index - b.index)
+        .map(({ entry }) => entry);
+}
+
+// ============ STATUS ============
+
+export function getModelHealth(provider: string, model: string): ModelHealthStatus {
+    const state = getState(provider, model);
+    const latencies = state.samples.map(s => s.latencyMs).sort((a, b) => a - b);
+    const rate = successRate(state);
+    const iso = (time?: number) => time ? new Date(time).toISOString() : undefined;
+
+    return {
+        key: keyOf(provider, model),
+        provider,
+        model,
+        state: state.state,
+        consecutiveFailures: state.consecutiveFailures,
+        samples: state.samples.length,
+        successRate: rate === null ? null : Math.round(rate * 1000) / 1000,
+        avgLatencyMs: latencies.length ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length) : null,
+        p95LatencyMs: latencies.length ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : null,
+        lastError: state.lastError,
+        lastFailureAt: iso(state.lastFailureAt),
+        lastSuccessAt: iso(state.lastSuccessAt),
+        nextProbeAt: state.state === 'open' ? iso((state.openedAt || 0) + state.cooldownMs) : undefined
+    };
+}
+
+/**
+ * Health of every model that has been called (or registered through getModelHealth)
+ */
+export function listModelHealth(): ModelHealthStatus[] {
+    return Array.from(health.values())
+        .map(state => getModelHealth(state.provider, state.model))
+        .sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,233 @@
+/**
+ * modelProviders.ts
+ * LLM provider plugins - the APIs a model chain entry ({ provider, model }) can route to
+ *
+ * Built in:
+ * - groq        Groq SDK (GROQ_API_KEY)
+ * - openrouter  OpenRouter (OPENROUTER_API_KEY)
+ * - gemini      Google Gemini via @google/generative-ai (GEMINI_API_KEY)
+ * - local       Any OpenAI-compatible server - Ollama, llama.cpp, vLLM, LM Studio
+ *               (LOCAL_LLM_BASE_URL, e.g. http://localhost:11434/v1; LOCAL_LLM_API_KEY optional)
+ *
+ * More OpenAI-compatible endpoints can be added with
+ *   registerModelProvider(createOpenAICompatibleProvider({ name: 'together', baseUrl, apiKey }))
+ *
+ * Errors follow one convention so callLLM can react the same way for every
+ * provider: 'RATE_LIMIT' (429), 'QUOTA_EXCEEDED' (402), 'SERVER_ERROR' (5xx).
+ */
+
+import Groq from 'groq-sdk';
+import { GoogleGenerativeAI, Content } from '@google/generative-ai';
+import dotenv from 'dotenv';
+import { withCassette, recordCompletions, cassetteApiKey } from './cassette';
+import { fromCompletionUsage, TokenUsage } from './usageTracker';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export interface ChatMessage {
+    role: 'user' | 'system' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature: number;
+    jsonMode: boolean;
+    signal?: AbortSignal;
+}
+
+// Response text plus the provider's token counts
+export interface Completion {
+    content: string;
+    usage?: TokenUsage;
+}
+
+export interface ModelProviderPlugin {
+    name: string;
+    isConfigured(): boolean;  // Credentials / endpoint present - unconfigured providers are skipped
+    complete(request: CompletionRequest): Promise<Completion>;
+}
+
+// ============ REGISTRY ============
+
+const plugins = new Map<string, ModelProviderPlugin>();
+
+export function registerModelProvider(plugin: ModelProviderPlugin): void {
+    plugins.set(plugin.name, plugin);
+}
+
+export function getModelProvider(name: string): ModelProviderPlugin | undefined {
+    return plugins.get(name);
+}
+
+export function listModelProviders(): Array<{ name: string; configured: boolean }> {
+    return Array.from(plugins.values()).map(plugin => ({ name: plugin.name, configured: plugin.isConfigured() }));
+}
+
+// Shared HTTP status -> error convention (see header)
+function statusError(provider: string, status: number, text: string): Error {
+    if (status === 429) return new Error('RATE_LIMIT');
+    if (status === 402) return new Error('QUOTA_EXCEEDED');
+    if (status >= 500) return new Error('SERVER_ERROR');
+    return new Error(`${provider} error ${status}: ${text}`);
+}
+
+// ============ GROQ ============
+
+let groqClient: Groq | null = null;
+
+export function getGroqClient(): Groq {
+    if (!groqClient) {
+        const apiKey = cassetteApiKey(process.env.GROQ_API_KEY);
+        if (!apiKey) {
+            throw new Error('GROQ_API_KEY is missing');
+        }
+        groqClient = recordCompletions('groq', new Groq({ apiKey }));
+    }
+    return groqClient;
+}
+
+const groqProvider: ModelProviderPlugin = {
+    name: 'groq',
+    isConfigured: () => !!cassetteApiKey(process.env.GROQ_API_KEY),
+
+    async complete({ model, messages, temperature, jsonMode, signal }) {
+        const completion = await getGroqClient().chat.completions.create({
+            model,
+            messages,
+            temperature,
+            ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+        }, { signal });
+
+        return {
+            content: completion.choices[0]?.message?.content || '',
+            usage: fromCompletionUsage(completion.usage)
+        };
+    }
+};
+
+// ============ OPENAI-COMPATIBLE (OpenRouter, local servers...) ============
+
+export interface OpenAICompatibleOptions {
+    name: string;
+    baseUrl: () => string | undefined;  // Resolved per call so env changes apply
+    apiKey?: () => string | undefined;
+    requiresApiKey?: boolean;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Provider for any server implementing POST {baseUrl}/chat/completions
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ModelProviderPlugin {
+    const { name, baseUrl, apiKey = () => undefined, requiresApiKey = false, headers = {} } = options;
+
+    return {
+        name,
+        isConfigured: () => !!baseUrl() && (!requiresApiKey || !!apiKey()),
+
+        async complete({ model, messages, temperature, jsonMode, signal }) {
+            const url = baseUrl();
+            const key = apiKey();
+            if (!url) throw new Error(`${name}: base URL is not configured`);
+            if (requiresApiKey && !key) throw new Error(`${name}: API key is missing`);
+
+            // Request and status errors are recorded/replayed as one unit (cassette.ts)
+            return withCassette(name, { model, messages, temperature, jsonMode }, async () => {
+                const response = await fetch(`${url.replace(/\/$/, '')}/chat/completions`, {
+                    method: 'POST',
+                    headers: {
+                        ...(key ? { 'Authorization': `Bearer ${key}` } : {}),
+                        'Content-Type': 'application/json',
+                        ...headers
+                    },
+                    body: JSON.stringify({
+                        model,
+                        messages,
+                        temperature,
+                        ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+                    }),
+                    signal
+                });
+
+                if (!response.ok) {
+                    throw statusError(name, response.status, await response.text());
+                }
+
+                const data = await response.json();
+                return {
+                    content: data.choices?.[0]?.message?.content || '',
+                    usage: fromCompletionUsage(data.usage)
+                };
+            });
+        }
+    };
+}
+
+const openRouterProvider = createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: () => 'https://openrouter.ai/api/v1',
+    apiKey: () => cassetteApiKey(process.env.OPENROUTER_API_KEY),
+    requiresApiKey: true,
+    headers: {
+        'HTTP-Referer': 'https://insight.pakyouth.org',
+        'X-Title': 'Insight Research Tool'
+    }
+});
+
+const localProvider = createOpenAICompatibleProvider({
+    name: 'local',
+    baseUrl: () => process.env.LOCAL_LLM_BASE_URL,
+    apiKey: () => process.env.LOCAL_LLM_API_KEY
+});
+
+// ============ GEMINI ============
+
+// Gemini takes system prompts separately and calls the assistant role "model"
+function toGeminiContents(messages: ChatMessage[]): { systemInstruction?: string; contents: Content[] } {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents = messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+    return { systemInstruction: system || undefined, contents };
+}
+
+const geminiProvider: ModelProviderPlugin = {
+    name: 'gemini',
+    isConfigured: () => !!cassetteApiKey(process.env.GEMINI_API_KEY),
+
+    async complete({ model, messages, temperature, jsonMode, signal }) {
+        const apiKey = cassetteApiKey(process.env.GEMINI_API_KEY);
+        if (!apiKey) throw new Error('GEMINI_API_KEY is missing');
+
+        return withCassette('gemini', { model, messages, temperature, jsonMode }, async () => {
+            const { systemInstruction, contents } = toGeminiContents(messages);
+            const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+                model,
+                systemInstruction,
+                generationConfig: {
+                    temperature,
+                    ...(jsonMode ? { responseMimeType: 'application/json' } : {})
+                }
+            });
+
+            try {
+                const result = await generativeModel.generateContent({ contents }, { signal });
+                const usage = result.response.usageMetadata;
+                return {
+                    content: result.response.text() || '',
+                    usage: usage ? { tokensIn: usage.promptTokenCount || 0, tokensOut: usage.candidatesTokenCount || 0 } : undefined
+                };
+            } catch (error) {
+                const status = (error as { status?: number }).status;
+                if (status) throw statusError('gemini', status, (error as Error).message);
+                throw error;
+            }
+        });
+    }
+};
+
+[groqProvider, openRouterProvider, geminiProvider, localProvider].forEach(registerModelProvider);
@@ -6,21 +6,23 @@
 
 import { callLLM, TaskType } from './llmProvider';
 import { db } from './firebase';
-import { FieldValue } from 'firebase-admin/firestore';
 import {
     getRetryStrategy,
     getStepRetryConfig,
     StrategyType,
     RetryContext,
     getAIStrategyPrompt,
-    getNextAlternativeFunction
+    getNextAlternativeFunction,
+    getRerunRecommendation
 } from './retryStrategies';
 import { createSelfImprover, SelfImprover, ImprovementSuggestion } from './selfImprover';
+import { publishRunEvent } from './runEvents';
+import { throwIfAborted, raceAbort, isCancellation } from './cancellation';
 
 // ============ TYPES ============
 
 export type StepQuality = 'good' | 'partial' | 'empty' | 'error';
-export type AIDecision = 'continue' | 'retry' | 'skip' | 'fallback';
+export type AIDecision = 'continue' | 'retry' | 'skip' | 'fallback' | 'rerun';
 
 export interface StepLog {
     timestamp: number;
@@ -41,7 +43,7 @@ export interface AIEvaluation {
     reason: string;
     modifiedInput?: Record<string, unknown>;
     alternativeFunction?: string;
-    rerunStep?: string;
+    rerunStep?: string;  // With decision 'rerun': upstream step to re-run (the caller re-runs its dependents too)
     strategyUsed?: string;
 }
 
@@ -55,12 +57,14 @@ export interface StepResult<T = unknown> {
 
 export interface StepConfig<T = unknown> {
     name: string;
+    // Called with the retry strategy's modifiedInput on retries (undefined on the first attempt)
     execute: (input?: Record<string, unknown>) => Promise<T>;
     evaluate: (result: T) => StepEvaluation;
     retryStrategy?: StrategyType;
     maxRetries?: number;
     canSkip?: boolean;
     fallback?: () => Promise<T>;
+    signal?: AbortSignal;  // Cancelled run: stop immediately - no retries, no skipping
 }
 
 export interface OrchestratorConfig {
@@ -69,8 +73,11 @@ export interface OrchestratorConfig {
     enableAIDecisions?: boolean;
     enableSelfImprovement?: boolean;
     verbose?: boolean;
+    maxUpstreamReruns?: number;  // Rerun budget per workflow (default: MAX_UPSTREAM_RERUNS env or 2)
 }
 
+const DEFAULT_MAX_UPSTREAM_RERUNS = parseInt(process.env.MAX_UPSTREAM_RERUNS || '2', 10);
+
 // ============ ORCHESTRATOR CLASS ============
 
 export class WorkflowOrchestrator {
@@ -81,12 +88,18 @@ export class WorkflowOrchestrator {
     private stepHistory: StepLog[] = [];
     private selfImprover: SelfImprover | null = null;
     private suggestions: ImprovementSuggestion[] = [];
+    // Latest quality per step - lets a failing step blame poor upstream input
+    private stepQualities: Record<string, { quality: StepQuality }> = {};
+    // Upstream steps re-run so far, in order (each step is re-run at most once)
+    private upstreamReruns: string[] = [];
+    private maxUpstreamReruns: number;
 
     constructor(config: OrchestratorConfig) {
         this.reportId = config.reportId;
         this.topic = config.topic;
         this.enableAI = config.enableAIDecisions ?? true;
         this.verbose = config.verbose ?? true;
+        this.maxUpstreamReruns = config.maxUpstreamReruns ?? DEFAULT_MAX_UPSTREAM_RERUNS;
 
         // Initialize self-improver if enabled
         if (config.enableSelfImprovement ?? true) {
@@ -112,10 +125,20 @@ export class WorkflowOrchestrator {
             console.log(`[Orchestrator] ${prefix} [${step}] ${message}`);
         }
 
+        // Stream AI decisions live to /v3/runs/:id/events
+        if (type === 'ai_decision') {
+            publishRunEvent({
+                type: 'ai_decision',
+                runId: this.reportId,
+                stepKey: step,
+                data: { message, ...(data || {}) }
+            });
+        }
+
         // Save to Firestore
         try {
             await db.collection('reports').doc(this.reportId).update({
-                orchestratorLogs: FieldValue.arrayUnion(JSON.parse(JSON.stringify(logEntry)))
+                orchestratorLogs: db.arrayUnion(JSON.parse(JSON.stringify(logEntry)))
             });
         } catch (e) {
             console.error('[Orchestrator] Failed to save log to Firestore:', e);
@@ -129,7 +152,10 @@ export class WorkflowOrchestrator {
         evaluation: StepEvaluation,
         retryStrategy: StepConfig['retryStrategy'],
         currentRetry: number,
-        maxRetries: number
+        maxRetries: number,
+        canSkip: boolean,
+        currentAlternative?: string,
+        signal?: AbortSignal
     ): Promise<AIEvaluation> {
         // Good quality = continue
         if (evaluation.quality === 'good') {
@@ -141,36 +167,49 @@ export class WorkflowOrchestrator {
         const effectiveStrategy = (retryStrategy || stepConfig.strategy) as StrategyType;
         const effectiveMaxRetries = Math.max(maxRetries, stepConfig.maxRetries);
 
+        // Out of retries: a skippable step is skipped, any other step goes on with what it has
+        // (runStep throws on 'skip' for steps that cannot be skipped)
+        const giveUp = (reason: string): AIEvaluation => ({
+            decision: canSkip ? 'skip' : 'continue',
+            reason: `${reason} ${canSkip ? 'Skipping step.' : 'Continuing with degraded data.'}`
+        });
+
         // Create retry context
         const retryContext: RetryContext = {
             stepName,
             topic: this.topic,
             evaluation,
             retryCount: currentRetry,
-            maxRetries: effectiveMaxRetries
+            maxRetries: effectiveMaxRetries,
+            currentAlternative
         };
 
-        // Error quality - always try to retry first
+        // Error quality - always try to retry first, on the next alternative function if the step has one
         if (evaluation.quality === 'error') {
             if (currentRetry < effectiveMaxRetries) {
-                const strategyResult = getRetryStrategy(effectiveStrategy, retryContext);
+                const errorStrategy = getNextAlternativeFunction(stepName, currentAlternative) ? 'alternative_function' : effectiveStrategy;
+                const strategyResult = getRetryStrategy(errorStrategy, retryContext);
                 return {
                     decision: 'retry',
                     reason: `Error: ${evaluation.issue}. ${strategyResult.reason}`,
-                    modifiedInput: strategyResult.modifiedInput
+                    modifiedInput: strategyResult.modifiedInput,
+                    alternativeFunction: strategyResult.alternativeFunction
                 };
             }
-            return {
-                decision: stepConfig.canSkip ? 'skip' : 'continue',
-                reason: `Max retries (${effectiveMaxRetries}) reached after errors. ${stepConfig.canSkip ? 'Skipping step.' : 'Continuing anyway.'}`
-            };
+            const rerun = this.getRerunDecision(stepName, evaluation);
+            if (rerun) return rerun;
+            return giveUp(`Max retries (${effectiveMaxRetries}) reached after errors.`);
         }
 
         // Empty quality - use retry strategies with AI enhancement
         if (evaluation.quality === 'empty') {
-            if (currentRetry < effectiveMaxRetries && effectiveStrategy !== 'none') {
+            // Steps with alternatives enabled try the next implementation before changing the input
+            const emptyStrategy = stepConfig.alternativesEnabled && getNextAlternativeFunction(stepName, currentAlternative)
+                ? 'alternative_function'
+                : effectiveStrategy;
+            if (currentRetry < effectiveMaxRetries && emptyStrategy !== 'none' && emptyStrategy !== 'rerun_earlier_step') {
                 // Get strategy-based modification
-                const strategyResult = getRetryStrategy(effectiveStrategy, retryContext);
+                const strategyResult = getRetryStrategy(emptyStrategy, retryContext);
 
                 // Optionally enhance with AI reasoning (if enabled and first retry)
                 if (this.enableAI && currentRetry === 0) {
@@ -200,7 +239,8 @@ Respond with JSON:
                                 }
                             ],
                             temperature: 0.2,
-                            jsonMode: true
+                            jsonMode: true,
+                            signal
                         });
 
                         const parsed = JSON.parse(aiResponse);
@@ -210,26 +250,34 @@ Respond with JSON:
                             modifiedInput: {
                                 ...strategyResult.modifiedInput,
                                 aiSuggestion: parsed.suggestion
-                            }
+                            },
+                            alternativeFunction: strategyResult.alternativeFunction
                         };
                     } catch (e) {
+                        if (isCancellation(e)) throw e;
                         console.warn('[Orchestrator] AI enhancement failed, using strategy default:', e);
                     }
                 }
 
                 // Fallback to strategy-only decision
+                if (!strategyResult.shouldRetry) {
+                    const rerun = this.getRerunDecision(stepName, evaluation);
+                    if (rerun) return rerun;
+                    return giveUp(strategyResult.reason);
+                }
                 return {
-                    decision: strategyResult.shouldRetry ? 'retry' : 'skip',
+                    decision: 'retry',
                     reason: strategyResult.reason,
-                    modifiedInput: strategyResult.modifiedInput
+                    modifiedInput: strategyResult.modifiedInput,
+                    alternativeFunction: strategyResult.alternativeFunction
                 };
             }
 
-            // Max retries reached for empty result
-            return {
-                decision: stepConfig.canSkip ? 'skip' : 'continue',
-                reason: `Empty result after ${currentRetry} retries. ${stepConfig.canSkip ? 'Skipping step.' : 'Continuing with empty data.'}`
-            };
+            // Max retries reached (or strategy is rerun_earlier_step) - poor upstream input may be the cause
+            const rerun = this.getRerunDecision(stepName, evaluation);
+            if (rerun) return rerun;
+
+            return giveUp(`Empty result after ${currentRetry} retries.`);
         }
 
         // Partial quality - continue but log the issue
@@ -239,26 +287,73 @@ Respond with JSON:
         };
     }
 
+    // ============ UPSTREAM RE-EXECUTION ============
+
+    /**
+     * Decide whether a poor result should trigger re-running an upstream step
+     * (STEP_DEPENDENCIES). Null when nothing is to blame or the rerun budget is spent.
+     */
+    private getRerunDecision(stepName: string, evaluation: StepEvaluation): AIEvaluation | null {
+        if (this.upstreamReruns.length >= this.maxUpstreamReruns) return null;
+
+        const recommendation = getRerunRecommendation(stepName, evaluation, this.stepQualities, this.upstreamReruns);
+        if (!recommendation.shouldRerun) return null;
+
+        return {
+            decision: 'rerun',
+            reason: recommendation.reason,
+            rerunStep: recommendation.stepToRerun,
+            strategyUsed: 'rerun_earlier_step'
+        };
+    }
+
+    /**
+     * Input changes for an upstream step re-run at a downstream step's request -
+     * the step's own retry strategy, so the re-run differs from the first attempt
+     */
+    getRerunInput(stepName: string, strategy: StrategyType | undefined, reason: string): Record<string, unknown> | undefined {
+        if (!strategy || strategy === 'none' || strategy === 'skip') return undefined;
+
+        const modification = getRetryStrategy(strategy, {
+            stepName,
+            topic: this.topic,
+            evaluation: { quality: 'partial', issue: reason },
+            retryCount: 0,
+            maxRetries: this.maxUpstreamReruns
+        });
+        return modification.alternativeFunction
+            ? { ...modification.modifiedInput, alternativeFunction: modification.alternativeFunction }
+            : modification.modifiedInput;
+    }
+
     // ============ MAIN STEP RUNNER ============
 
     async runStep<T>(config: StepConfig<T>): Promise<StepResult<T>> {
-        const { name, execute, evaluate, retryStrategy = 'none', maxRetries = 2, canSkip = true, fallback } = config;
+        const { name, execute, evaluate, retryStrategy, canSkip = true, fallback, signal } = config;
+        // Same budget getAIDecision retries against (the step's STEP_RETRY_CONFIGS entry may allow more)
+        const maxRetries = Math.max(config.maxRetries ?? 2, getStepRetryConfig(name).maxRetries);
         let retryCount = 0;
         let lastEvaluation: StepEvaluation = { quality: 'error', issue: 'Not executed' };
         let lastData: T | null = null;
+        // Input changes from the last retry decision - passed to execute() on the next attempt
+        let retryInput: Record<string, unknown> | undefined;
+        // Alternative function (ALTERNATIVE_FUNCTIONS) the step switched to - kept for later retries
+        let currentAlternative: string | undefined;
 
         await this.log(name, `Starting step: ${name}`, 'info');
 
         while (retryCount <= maxRetries) {
             try {
                 // Execute the step
+                throwIfAborted(signal);
                 const startTime = Date.now();
-                const result = await execute();
+                const result = await raceAbort(execute(retryInput), signal);
                 const duration = Date.now() - startTime;
 
                 // Evaluate the result
                 lastEvaluation = evaluate(result);
                 lastData = result;
+                this.stepQualities[name] = { quality: lastEvaluation.quality };
 
                 await this.log(name, `Completed in ${duration}ms`, 'info', {
                     quality: lastEvaluation.quality,
@@ -271,7 +366,10 @@ Respond with JSON:
                     lastEvaluation,
                     retryStrategy,
                     retryCount,
-                    maxRetries
+                    maxRetries,
+                    canSkip,
+                    currentAlternative,
+                    signal
                 );
 
                 if (aiDecision.decision !== 'continue' || lastEvaluation.quality !== 'good') {
@@ -299,6 +397,10 @@ Respond with JSON:
 
                 if (aiDecision.decision === 'retry') {
                     retryCount++;
+                    if (aiDecision.alternativeFunction) currentAlternative = aiDecision.alternativeFunction;
+                    retryInput = currentAlternative
+                        ? { ...aiDecision.modifiedInput, alternativeFunction: currentAlternative }
+                        : aiDecision.modifiedInput;
                     const modificationInfo = aiDecision.modifiedInput
                         ? ` with modifications: ${JSON.stringify(aiDecision.modifiedInput)}`
                         : '';
@@ -310,6 +412,24 @@ Respond with JSON:
                     continue;
                 }
 
+                if (aiDecision.decision === 'rerun' && aiDecision.rerunStep) {
+                    this.upstreamReruns.push(aiDecision.rerunStep);
+                    await this.log(name, `↻ Requesting re-run of ${aiDecision.rerunStep} (rerun ${this.upstreamReruns.length}/${this.maxUpstreamReruns})`, 'ai_decision', {
+                        rerunChain: this.upstreamReruns.length,
+                        requestedBy: name,
+                        rerunStep: aiDecision.rerunStep,
+                        reason: aiDecision.reason
+                    });
+                    await this.analyzeStep(name, false, lastEvaluation);
+                    return {
+                        success: false,
+                        data: result,
+                        evaluation: lastEvaluation,
+                        aiDecision,
+                        retryCount
+                    };
+                }
+
                 if (aiDecision.decision === 'fallback' && fallback) {
                     await this.log(name, 'Using fallback strategy', 'warning');
                     const fallbackResult = await fallback();
@@ -339,6 +459,11 @@ Respond with JSON:
                 throw new Error(`Step ${name} cannot be skipped and failed`);
 
             } catch (error) {
+                if (isCancellation(error) || signal?.aborted) {
+                    await this.log(name, 'Step cancelled', 'warning');
+                    throw error;
+                }
+
                 const errorMsg = error instanceof Error ? error.message : String(error);
                 await this.log(name, `Error: ${errorMsg}`, 'error');
 
@@ -346,6 +471,14 @@ Respond with JSON:
 
                 if (retryCount < maxRetries) {
                     retryCount++;
+                    const alternative = getNextAlternativeFunction(name, currentAlternative);
+                    if (alternative) {
+                        currentAlternative = alternative.name;
+                        retryInput = { ...retryInput, alternativeFunction: alternative.name };
+                        await this.log(name, `Switching to alternative: ${alternative.description} (${alternative.name})`, 'warning', {
+                            alternativeFunction: alternative.name
+                        });
+                    }
                     await this.log(name, `Retrying after error (${retryCount}/${maxRetries})...`, 'warning');
                     continue;
                 }
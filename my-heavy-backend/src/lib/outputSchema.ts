@@ -0,0 +1,177 @@
+/**
+ * outputSchema.ts
+ * Runtime schemas for structured (JSON) LLM outputs, plus the repair loop
+ *
+ * Modules declare the shape they expect next to their interfaces:
+ *
+ *   const ARTICLE_OUTPUT = defineOutput<StructuredArticle>('StructuredArticle', object({
+ *       publisher: string(),
+ *       sections: array(object({ heading: string(), content: string() }), { min: 1 })
+ *   }));
+ *
+ * and call callLLMStructured with it. Every response is validated; an invalid
+ * one gets a repair re-prompt listing the errors, and if that fails too the
+ * call falls through to the next model in the chain.
+ * Object schemas only check the listed fields - extra fields are allowed.
+ */
+
+import type { ChatMessage } from './modelProviders';
+
+// ============ SCHEMAS ============
+
+export interface Schema {
+    check(value: unknown, path: string): string[];  // Issues found, empty when valid
+    optional?: boolean;
+}
+
+const typeName = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+const at = (path: string) => path || 'response';
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema {
+    return {
+        check: (value, path) => {
+            if (typeof value !== 'string') return [`${at(path)}: expected string, got ${typeName(value)}`];
+            if (options.nonEmpty && value.trim() === '') return [`${at(path)}: must not be empty`];
+            return [];
+        }
+    };
+}
+
+export function number(options: { min?: number; max?: number } = {}): Schema {
+    return {
+        check: (value, path) => {
+            if (typeof value !== 'number' || !Number.isFinite(value)) return [`${at(path)}: expected number, got ${typeName(value)}`];
+            if (options.min !== undefined && value < options.min) return [`${at(path)}: must be >= ${options.min}`];
+            if (options.max !== undefined && value > options.max) return [`${at(path)}: must be <= ${options.max}`];
+            return [];
+        }
+    };
+}
+
+export function boolean(): Schema {
+    return {
+        check: (value, path) => typeof value === 'boolean' ? [] : [`${at(path)}: expected boolean, got ${typeName(value)}`]
+    };
+}
+
+export function oneOf(values: readonly string[]): Schema {
+    return {
+        check: (value, path) => typeof value === 'string' && values.includes(value)
+            ? []
+            : [`${at(path)}: expected one of ${values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`]
+    };
+}
+
+export function array(item: Schema, options: { min?: number } = {}): Schema {
+    return {
+        check: (value, path) => {
+            if (!Array.isArray(value)) return [`${at(path)}: expected array, got ${typeName(value)}`];
+            if (options.min !== undefined && value.length < options.min) return [`${at(path)}: needs at least ${options.min} item(s)`];
+            return value.flatMap((element, i) => item.check(element, `${path}[${i}]`));
+        }
+    };
+}
+
+export function object(shape: Record<string, Schema>): Schema {
+    return {
+        check: (value, path) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${at(path)}: expected object, got ${typeName(value)}`];
+            }
+            const record = value as Record<string, unknown>;
+            return Object.entries(shape).flatMap(([key, schema]) => {
+                const fieldPath = path ? `${path}.${key}` : key;
+                if (record[key] === undefined) return schema.optional ? [] : [`${fieldPath}: missing`];
+                return schema.check(record[key], fieldPath);
+            });
+        }
+    };
+}
+
+export function optional(schema: Schema): Schema {
+    return { ...schema, optional: true };
+}
+
+// ============ OUTPUTS ============
+
+export interface OutputSchema<T> {
+    name: string;    // Shown in logs and repair prompts ("StructuredArticle")
+    schema: Schema;
+    readonly _type?: T;  // Type-only marker, never set
+}
+
+export function defineOutput<T>(name: string, schema: Schema): OutputSchema<T> {
+    return { name, schema };
+}
+
+export type OutputCheck<T> =
+    | { valid: true; value: T; text: string }  // text = the (possibly repaired) response
+    | { valid: false; issues: string[] };
+
+const MAX_ISSUES_REPORTED = 15;
+
+/**
+ * Parse a response (code fences tolerated) and check it against the output schema
+ */
+export function parseOutput<T>(text: string, output: OutputSchema<T>): OutputCheck<T> {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    let value: unknown;
+    try {
+        value = JSON.parse(fenced ? fenced[1].trim() : text.trim());
+    } catch (e) {
+        return { valid: false, issues: [`response is not valid JSON (${(e as Error).message})`] };
+    }
+
+    const issues = output.schema.check(value, '');
+    return issues.length === 0
+        ? { valid: true, value: value as T, text }
+        : { valid: false, issues: issues.slice(0, MAX_ISSUES_REPORTED) };
+}
+
+// ============ REPAIR LOOP ============
+
+const REPAIR_ATTEMPTS = Number(process.env.OUTPUT_REPAIR_ATTEMPTS ?? 1);
+
+function repairMessages(messages: ChatMessage[], response: string, output: OutputSchema<unknown>, issues: string[]): ChatMessage[] {
+    return [
+        ...messages,
+        { role: 'assistant', content: response.slice(0, 8000) },
+        {
+            role: 'user',
+            content: `Your response does not match the required ${output.name} schema:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReturn the corrected JSON only - same content, fixed structure. No markdown, no explanation.`
+        }
+    ];
+}
+
+/**
+ * Validate a model's response; on failure re-prompt the same model with the
+ * validation errors (REPAIR_ATTEMPTS times). `complete` sends a follow-up
+ * request to that model. Invalid after the repairs = the caller moves on to
+ * the next model.
+ */
+export async function validateWithRepair<T>(
+    output: OutputSchema<T>,
+    messages: ChatMessage[],
+    response: string,
+    complete: (messages: ChatMessage[]) => Promise<string>,
+    label: string
+): Promise<OutputCheck<T>> {
+    let current = response;
+    let check = parseOutput(current, output);
+
+    for (let attempt = 1; !check.valid && attempt <= REPAIR_ATTEMPTS; attempt++) {
+        console.warn(`[Output] ${label}: invalid ${output.name} (${check.issues.length} issues) - repair attempt ${attempt}: ${check.issues.slice(0, 3).join('; ')}`);
+        current = await complete(repairMessages(messages, current, output, check.issues));
+        check = parseOutput(current, output);
+        if (check.valid) console.log(`[Output] ${label}: ${output.name} repaired`);
+    }
+
+    return check;
+}
+
+export class OutputValidationError extends Error {
+    constructor(public output: string, public issues: string[]) {
+        super(`Invalid ${output} output: ${issues.slice(0, 5).join('; ')}`);
+        this.name = 'OutputValidationError';
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * pipelineEngine.ts
+ * Declarative DAG runner for multi-step pipelines
+ *
+ * A pipeline is a list of steps that declare their dependencies, how to build
+ * their input from upstream outputs, and how to run. The engine starts every
+ * step as soon as its dependencies finish, so independent branches (e.g. news
+ * and video research) run in parallel without any hand-written sequencing.
+ *
+ * Logging, evaluation and checkpointing are left to the StepRunner supplied by
+ * the caller - the engine only handles ordering and data flow.
+ *
+ * A runner can throw RerunRequest to re-execute an upstream step: once the current
+ * round settles, that step and all of its dependents run again (other outputs are kept).
+ *
+ * Optional steps can declare `when` to be left out of a run (e.g. by research profile);
+ * their output is undefined and dependents fall back as they would for a skipped step.
+ */
+
+import { StepEvaluation } from './orchestrator';
+import { StrategyType } from './retryStrategies';
+
+// ============ TYPES ============
+
+// Outputs of finished steps, keyed by step key
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type StepOutputs = Record<string, any>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface PipelineStep<TContext, TInput = any, TOutput = any> {
+    key: string;                      // STEP_REGISTRY key - also where the output is stored
+    dependsOn: string[];              // Step keys that must finish first
+    input: (outputs: StepOutputs, ctx: TContext) => TInput;
+    run: (input: TInput, ctx: TContext) => Promise<TOutput>;
+    logInput?: (input: TInput) => unknown;                    // Compact input for the pipeline log
+    meta?: (input: TInput) => Record<string, unknown>;        // Extra fields for the pipeline log
+    evaluate?: (output: TOutput) => StepEvaluation;
+    retryStrategy?: StrategyType;
+    // Apply a retry strategy's modifiedInput (broader topic, AI suggestion...) to the original input
+    applyRetry?: (input: TInput, modification: Record<string, unknown>, ctx: TContext) => RetryAdjustment<TInput>;
+    canSkip: boolean;
+    when?: (ctx: TContext) => boolean;  // Run the step only if true (canSkip steps only)
+}
+
+export interface RetryAdjustment<TInput> {
+    input: TInput;
+    changes: string[];  // Human-readable list of what was changed (logged)
+}
+
+export interface PipelineDefinition<TContext> {
+    name: string;
+    steps: PipelineStep<TContext>[];
+}
+
+// Why a step is running again (passed to the runner on re-runs only)
+export interface RerunInfo {
+    requestedBy: string;
+    reason: string;
+    round: number;  // 1 for the first rerun chain of the run
+}
+
+/**
+ * Executes one step with its resolved input and returns the step output
+ */
+export type StepRunner<TContext> = (step: PipelineStep<TContext>, input: unknown, rerun?: RerunInfo) => Promise<unknown>;
+
+export interface RunPipelineOptions<TContext> {
+    // Called instead of the runner for steps whose `when` returned false
+    onSkip?: (step: PipelineStep<TContext>) => void | Promise<void>;
+    // Called before a rerun round with the re-run step and every step that will run again
+    onRerun?: (request: RerunRequest, invalidated: string[], round: number) => void | Promise<void>;
+}
+
+/**
+ * Thrown by a StepRunner to ask for an upstream step (and its dependents) to be re-run
+ */
+export class RerunRequest extends Error {
+    constructor(
+        public readonly requestedBy: string,
+        public readonly stepKey: string,
+        public readonly reason: string
+    ) {
+        super(`${requestedBy} requested a re-run of ${stepKey}: ${reason}`);
+        this.name = 'RerunRequest';
+    }
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Check keys and dependencies, and return the steps in a valid execution order.
+ * Throws on duplicate keys, unknown dependencies or cycles.
+ */
+export function validatePipeline<TContext>(definition: PipelineDefinition<TContext>): PipelineStep<TContext>[] {
+    const byKey = new Map<string, PipelineStep<TContext>>();
+    for (const step of definition.steps) {
+        if (byKey.has(step.key)) {
+            throw new Error(`[PipelineEngine] ${definition.name}: duplicate step "${step.key}"`);
+        }
+        byKey.set(step.key, step);
+    }
+
+    for (const step of definition.steps) {
+        for (const dep of step.dependsOn) {
+            if (!byKey.has(dep)) {
+                throw new Error(`[PipelineEngine] ${definition.name}: "${step.key}" depends on unknown step "${dep}"`);
+            }
+        }
+        if (step.when && !step.canSkip) {
+            throw new Error(`[PipelineEngine] ${definition.name}: "${step.key}" has a run condition but cannot be skipped`);
+        }
+    }
+
+    // Depth-first topological sort (keeps declaration order where possible)
+    const ordered: PipelineStep<TContext>[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (step: PipelineStep<TContext>, path: string[]) => {
+        const current = state.get(step.key);
+        if (current === 'done') return;
+        if (current === 'visiting') {
+            throw new Error(`[PipelineEngine] ${definition.name}: dependency cycle ${[...path, step.key].join(' -> ')}`);
+        }
+
+        state.set(step.key, 'visiting');
+        step.dependsOn.forEach(dep => visit(byKey.get(dep)!, [...path, step.key]));
+        state.set(step.key, 'done');
+        ordered.push(step);
+    };
+
+    definition.steps.forEach(step => visit(step, []));
+    return ordered;
+}
+
+/**
+ * Every step that (transitively) depends on `key`, in execution order
+ */
+export function getDependents<TContext>(ordered: PipelineStep<TContext>[], key: string): string[] {
+    const affected = new Set<string>([key]);
+    const dependents: string[] = [];
+    for (const step of ordered) {
+        if (step.dependsOn.some(dep => affected.has(dep))) {
+            affected.add(step.key);
+            dependents.push(step.key);
+        }
+    }
+    return dependents;
+}
+
+// ============ EXECUTION ============
+
+/**
+ * Run all steps, each as soon as its dependencies are done.
+ * Waits for every branch to settle; if any step failed, the first failure
+ * (in execution order) is rethrown and its dependents never run.
+ * A RerunRequest for an upstream step starts another round instead (the caller caps how often).
+ */
+export async function runPipeline<TContext>(
+    definition: PipelineDefinition<TContext>,
+    ctx: TContext,
+    runStep: StepRunner<TContext>,
+    options: RunPipelineOptions<TContext> = {}
+): Promise<StepOutputs> {
+    const ordered = validatePipeline(definition);
+    const outputs: StepOutputs = {};
+    let rerun: { key: string; info: RerunInfo } | null = null;
+
+    for (let round = 1; ; round++) {
+        const running = new Map<string, Promise<void>>();
+
+        for (const step of ordered) {
+            // Outputs from earlier rounds are kept unless invalidated by a rerun
+            if (step.key in outputs) {
+                running.set(step.key, Promise.resolve());
+                continue;
+            }
+
+            const dependencies = step.dependsOn.map(dep => running.get(dep)!);
+            const rerunInfo = rerun?.key === step.key ? rerun.info : undefined;
+
+            running.set(step.key, Promise.all(dependencies).then(async () => {
+                if (step.when && !step.when(ctx)) {
+                    outputs[step.key] = undefined;
+                    await options.onSkip?.(step);
+                    return;
+                }
+                const input = step.input(outputs, ctx);
+                outputs[step.key] = await runStep(step, input, rerunInfo);
+            }));
+        }
+
+        const settled = await Promise.allSettled(running.values());
+        const failures = settled
+            .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+            .map(result => result.reason);
+        if (failures.length === 0) return outputs;
+
+        // Real failures win over rerun requests
+        const failure = failures.find(reason => !(reason instanceof RerunRequest)) || failures[0];
+        if (!(failure instanceof RerunRequest)) throw failure;
+
+        const requester = ordered.find(step => step.key === failure.requestedBy);
+        const invalidated = [failure.stepKey, ...getDependents(ordered, failure.stepKey)];
+        if (!requester || !invalidated.includes(requester.key)) {
+            throw new Error(`[PipelineEngine] ${definition.name}: ${failure.requestedBy} cannot re-run "${failure.stepKey}" - not an upstream step`);
+        }
+
+        invalidated.forEach(key => delete outputs[key]);
+        rerun = { key: failure.stepKey, info: { requestedBy: failure.requestedBy, reason: failure.reason, round } };
+        await options.onRerun?.(failure, invalidated, round);
+    }
+}
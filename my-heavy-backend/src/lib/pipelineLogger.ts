@@ -11,12 +11,15 @@
  */
 
 import { randomUUID } from 'crypto';
+import { publishRunEvent, clearRunEvents } from './runEvents';
+import { UsageRecord, UsageTotals, ModelUsage, emptyTotals, addToTotals } from './usageTracker';
+import type { ContextTrim } from './modelCapabilities';
 
 // ============ TYPE DEFINITIONS ============
 
 export interface ModelAttempt {
     order: number;
-    provider: 'groq' | 'openrouter';
+    provider: string;        // Plugin name (modelProviders.ts)
     model: string;
     status: 'success' | 'failed';
     startedAt: string;
@@ -25,6 +28,7 @@ export interface ModelAttempt {
     tokensIn?: number;
     tokensOut?: number;
     responsePreview?: string;  // Truncated response
+    contextTrim?: ContextTrim; // Prompt was cut to fit this model's context window
     // Failure data
     error?: {
         type: string;
@@ -45,6 +49,7 @@ export interface DataSnapshot {
 export interface StepLog {
     id: string;              // Unique: "step_5_a1b2c3d4"
     parentId?: string;       // For parallel child steps
+    stepKey?: string;        // STEP_REGISTRY key: "step5_summarize"
     name: string;            // "Summarize: BBC Article"
     order: number;
     status: 'pending' | 'running' | 'success' | 'failed' | 'skipped';
@@ -52,6 +57,9 @@ export interface StepLog {
     completedAt?: string;
     duration?: number;
     modelAttempts: ModelAttempt[];
+    usage?: UsageTotals;     // LLM requests/tokens/cost made while this step ran
+    cacheHits?: CacheHitLog[];  // LLM responses served from llmCache.ts instead of a request
+    prompts?: PromptUse[];      // Prompt versions rendered in this step (promptRegistry.ts)
     input: DataSnapshot;
     output: DataSnapshot;
     error?: {
@@ -62,9 +70,38 @@ export interface StepLog {
     meta: Record<string, any>;
 }
 
+// Model attempts of one step, stored on the report when the run ends (logs page)
+export interface StepModelAttempts {
+    stepId: string;
+    stepKey?: string;
+    name: string;
+    attempts: ModelAttempt[];
+}
+
+export interface PromptUse {
+    prompt: string;
+    version: string;
+    experiment?: string;  // Experiment that picked the version
+}
+
+export interface CacheHitLog {
+    task: string;
+    provider: string;
+    model: string;
+    ageMs: number;  // How old the cached response was
+}
+
 export interface PipelineSummary {
     totalDuration: number;
     totalTokens: number;
+    tokensIn: number;
+    tokensOut: number;
+    llmRequests: number;
+    llmCacheHits: number;      // Responses served from the LLM cache (not in llmRequests)
+    estimatedCost: number;     // USD, from MODEL_PRICES (usageTracker.ts)
+    usageByModel: ModelUsage[];
+    promptVersions: Record<string, string>;     // Prompt name -> version used in this run
+    promptExperiments: Record<string, string>;  // Experiment name -> variant (version) this run got
     modelsUsed: string[];
     modelsSucceeded: string[];
     modelsFailed: string[];
@@ -79,8 +116,9 @@ export interface PipelineRun {
     topic: string;
     startedAt: string;
     completedAt?: string;
-    status: 'running' | 'completed' | 'failed';
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
     currentStepName?: string;  // For display only, not used for tracking
+    progress: number;          // 0-100, share of STEP_REGISTRY steps finished or skipped
     steps: StepLog[];
     summary: PipelineSummary;
 }
@@ -100,10 +138,11 @@ export interface LiteStepLog {
 export interface LitePipelineRun {
     id: string;
     topic: string;
-    status: 'running' | 'completed' | 'failed';
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
     startedAt: string;
     completedAt?: string;
     currentStepName?: string;
+    progress: number;
     summary: PipelineSummary;
     steps: LiteStepLog[];
 }
@@ -212,6 +251,17 @@ export const STEP_REGISTRY: Record<string, StepDefinition> = {
     }
 };
 
+const TOTAL_REGISTERED_STEPS = Object.keys(STEP_REGISTRY).length;
+
+/**
+ * Progress (0-100) once `finishedSteps` registry steps are done (finished or skipped).
+ * Counted rather than read off the highest `order` seen - the article and video
+ * branches run in parallel and finish out of order.
+ */
+export function getStepProgress(finishedSteps: number): number {
+    return Math.round((Math.min(finishedSteps, TOTAL_REGISTERED_STEPS) / TOTAL_REGISTERED_STEPS) * 100);
+}
+
 // ============ PIPELINE LOGGER CLASS ============
 
 const MAX_PREVIEW_LENGTH = 500;
@@ -232,6 +282,8 @@ function redactSensitiveData(str: string): string {
     result = result.replace(/sk-[a-zA-Z0-9]{20,}/g, '[OPENAI_KEY]');
     result = result.replace(/gsk_[a-zA-Z0-9]{20,}/g, '[GROQ_KEY]');
     result = result.replace(/or-[a-zA-Z0-9]{20,}/g, '[OPENROUTER_KEY]');
+    result = result.replace(/AIza[a-zA-Z0-9_-]{35}/g, '[GOOGLE_KEY]');
+    result = result.replace(/Bearer\s+[a-zA-Z0-9._-]{20,}/g, 'Bearer [TOKEN]');
     return result;
 }
 
@@ -246,6 +298,9 @@ export class PipelineLogger {
     // Model attempt counter per step
     private modelAttemptCounters = new Map<string, number>();
 
+    // Registry steps finished or skipped so far - drives the progress bar
+    private finishedStepKeys = new Set<string>();
+
     constructor(runId: string, topic: string) {
         this.runId = runId;
         this.topic = topic;
@@ -254,10 +309,19 @@ export class PipelineLogger {
             topic,
             startedAt: new Date().toISOString(),
             status: 'running',
+            progress: 0,
             steps: [],
             summary: {
                 totalDuration: 0,
                 totalTokens: 0,
+                tokensIn: 0,
+                tokensOut: 0,
+                llmRequests: 0,
+                llmCacheHits: 0,
+                estimatedCost: 0,
+                usageByModel: [],
+                promptVersions: {},
+                promptExperiments: {},
                 modelsUsed: [],
                 modelsSucceeded: [],
                 modelsFailed: [],
@@ -287,6 +351,7 @@ export class PipelineLogger {
         const step: StepLog = {
             id: stepId,
             parentId: config.parentId,
+            stepKey: config.stepKey,
             name: config.name,
             order: config.order,
             status: 'running',
@@ -309,31 +374,34 @@ export class PipelineLogger {
         this.logs.summary.stepsRunning++;
 
         console.log(`[PipelineLogger] Started: ${config.name} (${stepId})`);
+        this.publish('step_start', step, { progress: this.advanceProgress(step.stepKey, false) });
         return stepId;
     }
 
     /**
      * Log a model attempt (success or failure)
-     * Called by LLM provider wrapper
+     * Called by modelAttempts.ts for calls made inside the step's context
      */
     logModelAttempt(stepId: string, data: {
-        provider: 'groq' | 'openrouter';
+        provider: string;
         model: string;
         status: 'success' | 'failed';
         startedAt: string;
         tokensIn?: number;
         tokensOut?: number;
         response?: string;
+        contextTrim?: ContextTrim;
         error?: { type: string; code: string; message: string; raw?: string };
     }): void {
-        const step = this.activeSteps.get(stepId);
+        // Late attempts (e.g. a parallel call finishing after endStep) still belong to the step
+        const step = this.activeSteps.get(stepId) || this.logs.steps.find(s => s.id === stepId);
         if (!step) {
-            console.warn(`[PipelineLogger] Cannot log model attempt - step ${stepId} not active`);
+            console.warn(`[PipelineLogger] Cannot log model attempt - unknown step ${stepId}`);
             return;
         }
 
-        // Increment counter
-        const order = (this.modelAttemptCounters.get(stepId) || 0) + 1;
+        // Increment counter (reset by endStep, so late attempts continue from the list)
+        const order = Math.max(this.modelAttemptCounters.get(stepId) || 0, step.modelAttempts.length) + 1;
         this.modelAttemptCounters.set(stepId, order);
 
         const duration = Date.now() - new Date(data.startedAt).getTime();
@@ -347,7 +415,8 @@ export class PipelineLogger {
             duration,
             tokensIn: data.tokensIn,
             tokensOut: data.tokensOut,
-            responsePreview: data.response?.slice(0, MAX_PREVIEW_LENGTH)
+            responsePreview: data.response !== undefined ? redactSensitiveData(data.response.slice(0, MAX_PREVIEW_LENGTH)) : undefined,
+            contextTrim: data.contextTrim
         };
 
         // Handle error with size limits
@@ -355,8 +424,8 @@ export class PipelineLogger {
             attempt.error = {
                 type: data.error.type,
                 code: data.error.code,
-                message: data.error.message,
-                raw: data.error.raw?.slice(0, MAX_RAW_ERROR_LENGTH)
+                message: redactSensitiveData(data.error.message),
+                raw: data.error.raw !== undefined ? redactSensitiveData(data.error.raw.slice(0, MAX_RAW_ERROR_LENGTH)) : undefined
             };
         }
 
@@ -368,8 +437,8 @@ export class PipelineLogger {
             this.logs.summary.modelsUsed.push(modelKey);
         }
 
+        // Token totals come from logUsage (usageTracker.ts), which sees every request
         if (data.status === 'success') {
-            this.logs.summary.totalTokens += (data.tokensIn || 0) + (data.tokensOut || 0);
             if (!this.logs.summary.modelsSucceeded.includes(modelKey)) {
                 this.logs.summary.modelsSucceeded.push(modelKey);
             }
@@ -378,6 +447,69 @@ export class PipelineLogger {
                 this.logs.summary.modelsFailed.push(modelKey);
             }
         }
+
+        this.publish('model_attempt', step, {
+            data: {
+                provider: attempt.provider,
+                model: attempt.model,
+                status: attempt.status,
+                duration: attempt.duration,
+                error: attempt.error?.message
+            }
+        });
+    }
+
+    /**
+     * Add one LLM request's tokens and cost to the step and the run summary
+     * Called by usageTracker.ts for calls made inside the step's context
+     */
+    logUsage(stepId: string, record: UsageRecord): void {
+        const usage: UsageTotals = { requests: 1, tokensIn: record.tokensIn, tokensOut: record.tokensOut, cost: record.cost };
+
+        // Late responses (e.g. a parallel call finishing after endStep) still count
+        const step = this.activeSteps.get(stepId) || this.logs.steps.find(s => s.id === stepId);
+        if (step) {
+            step.usage = step.usage || emptyTotals();
+            addToTotals(step.usage, usage);
+        }
+
+        const summary = this.logs.summary;
+        summary.llmRequests++;
+        summary.tokensIn += record.tokensIn;
+        summary.tokensOut += record.tokensOut;
+        summary.totalTokens += record.tokensIn + record.tokensOut;
+
+        let modelUsage = summary.usageByModel.find(m => m.provider === record.provider && m.model === record.model);
+        if (!modelUsage) {
+            modelUsage = { provider: record.provider, model: record.model, ...emptyTotals() };
+            summary.usageByModel.push(modelUsage);
+        }
+        addToTotals(modelUsage, usage);
+        summary.estimatedCost = summary.usageByModel.reduce((total, m) => total + m.cost, 0);
+    }
+
+    /**
+     * Record an LLM response served from the cache (llmCache.ts) for a call made inside the step
+     */
+    logCacheHit(stepId: string, hit: CacheHitLog): void {
+        const step = this.activeSteps.get(stepId) || this.logs.steps.find(s => s.id === stepId);
+        if (step) {
+            step.cacheHits = [...(step.cacheHits || []), hit];
+        }
+        this.logs.summary.llmCacheHits++;
+    }
+
+    /**
+     * Record which version of a prompt a step rendered
+     * Called by promptRegistry.ts for prompts rendered inside the step's context
+     */
+    logPromptVersion(stepId: string, use: PromptUse): void {
+        const step = this.activeSteps.get(stepId) || this.logs.steps.find(s => s.id === stepId);
+        if (step && !step.prompts?.some(p => p.prompt === use.prompt && p.version === use.version)) {
+            step.prompts = [...(step.prompts || []), use];
+        }
+        this.logs.summary.promptVersions[use.prompt] = use.version;
+        if (use.experiment) this.logs.summary.promptExperiments[use.experiment] = use.version;
     }
 
     /**
@@ -411,6 +543,10 @@ export class PipelineLogger {
         this.modelAttemptCounters.delete(stepId);
 
         console.log(`[PipelineLogger] Completed: ${step.name} (${step.duration}ms)`);
+        this.publish('step_end', step, {
+            progress: this.advanceProgress(step.stepKey, true),
+            data: { duration: step.duration }
+        });
     }
 
     /**
@@ -447,6 +583,7 @@ export class PipelineLogger {
         this.modelAttemptCounters.delete(stepId);
 
         console.log(`[PipelineLogger] Failed: ${step.name} - ${step.error.message}`);
+        this.publish('step_fail', step, { data: { error: step.error.message } });
     }
 
     /**
@@ -454,24 +591,81 @@ export class PipelineLogger {
      */
     skipStep(stepId: string, reason?: string): void {
         const step = this.activeSteps.get(stepId);
-        if (!step) return;
+        if (!step) {
+            console.warn(`[PipelineLogger] Cannot skip step - ${stepId} not active`);
+            return;
+        }
 
+        const now = new Date();
         step.status = 'skipped';
+        step.completedAt = now.toISOString();
+        step.duration = step.startedAt
+            ? now.getTime() - new Date(step.startedAt).getTime()
+            : 0;
         step.meta.skipReason = reason;
 
+        // Update summary
+        this.logs.summary.stepsRunning = Math.max(0, this.logs.summary.stepsRunning - 1);
+
+        // Cleanup
         this.activeSteps.delete(stepId);
         this.modelAttemptCounters.delete(stepId);
+
+        console.log(`[PipelineLogger] Skipped: ${step.name}${reason ? ` - ${reason}` : ''}`);
+        // A skipped step counts as done for the progress bar
+        this.publish('step_skip', step, {
+            progress: this.advanceProgress(step.stepKey, true),
+            data: { reason }
+        });
     }
 
     // ============ RUN LIFECYCLE ============
 
-    endRun(status: 'completed' | 'failed'): PipelineRun {
+    endRun(status: 'completed' | 'failed' | 'cancelled'): PipelineRun {
         this.logs.completedAt = new Date().toISOString();
         this.logs.status = status;
+        if (status === 'completed') this.logs.progress = 100;
         this.updateDuration();
+
+        publishRunEvent({
+            type: 'run_end',
+            runId: this.runId,
+            progress: this.logs.progress,
+            data: { status, summary: this.logs.summary }
+        });
         return this.logs;
     }
 
+    // ============ LIVE EVENTS ============
+
+    /**
+     * Progress after a registry step starts or finishes. Steps without a registry
+     * key (e.g. parallel children) and re-runs of a finished step don't move the bar.
+     */
+    private advanceProgress(stepKey: string | undefined, finished: boolean): number {
+        if (finished && stepKey && STEP_REGISTRY[stepKey]) {
+            this.finishedStepKeys.add(stepKey);
+            this.logs.progress = Math.max(this.logs.progress, getStepProgress(this.finishedStepKeys.size));
+        }
+        return this.logs.progress;
+    }
+
+    private publish(
+        type: 'step_start' | 'step_end' | 'step_fail' | 'step_skip' | 'model_attempt',
+        step: StepLog,
+        extra: { progress?: number; data?: Record<string, unknown> } = {}
+    ): void {
+        publishRunEvent({
+            type,
+            runId: this.runId,
+            stepId: step.id,
+            stepKey: step.stepKey,
+            stepName: step.name,
+            progress: extra.progress ?? this.logs.progress,
+            data: extra.data
+        });
+    }
+
     private updateDuration(): void {
         if (this.logs.startedAt) {
             const endTime = this.logs.completedAt
@@ -537,6 +731,7 @@ export class PipelineLogger {
             startedAt: this.logs.startedAt,
             completedAt: this.logs.completedAt,
             currentStepName: this.logs.currentStepName,
+            progress: this.logs.progress,
             summary: this.logs.summary,
             steps: this.logs.steps.map(step => ({
                 id: step.id,
@@ -559,6 +754,17 @@ export class PipelineLogger {
         return this.logs;
     }
 
+    /**
+     * Model attempts grouped by step, steps without LLM calls left out
+     */
+    getModelAttemptLog(): StepModelAttempts[] {
+        const log = this.logs.steps
+            .filter(step => step.modelAttempts.length > 0)
+            .map(step => ({ stepId: step.id, stepKey: step.stepKey, name: step.name, attempts: step.modelAttempts }));
+        // JSON round-trip drops undefined fields, which Firestore rejects
+        return JSON.parse(JSON.stringify(log));
+    }
+
     /**
      * Get specific step details (for on-demand expansion)
      */
@@ -566,6 +772,18 @@ export class PipelineLogger {
         return this.logs.steps.find(s => s.id === stepId);
     }
 
+    getRunId(): string {
+        return this.runId;
+    }
+
+    getStartedAt(): string {
+        return this.logs.startedAt;
+    }
+
+    isRunning(): boolean {
+        return this.logs.status === 'running';
+    }
+
     /**
      * Legacy method for compatibility
      */
@@ -584,19 +802,69 @@ export class PipelineLogger {
     }
 }
 
-// ============ SINGLETON MANAGEMENT ============
+// ============ LOGGER REGISTRY ============
+// One logger per run, keyed by run/report ID, so concurrent research runs
+// don't overwrite each other's /pipeline-status data.
+// Finished runs stay readable for a while, then get evicted.
+
+const FINISHED_RUN_TTL_MS = Number(process.env.PIPELINE_LOG_TTL_MS) || 15 * 60 * 1000;  // 15 minutes
 
-let currentPipelineLogger: PipelineLogger | null = null;
+interface RegistryEntry {
+    logger: PipelineLogger;
+    evictionTimer?: NodeJS.Timeout;
+}
+
+const pipelineLoggers = new Map<string, RegistryEntry>();
 
 export function createPipelineLogger(runId: string, topic: string): PipelineLogger {
-    currentPipelineLogger = new PipelineLogger(runId, topic);
-    return currentPipelineLogger;
+    // A re-run of the same report replaces its previous logger
+    const existing = pipelineLoggers.get(runId);
+    if (existing?.evictionTimer) clearTimeout(existing.evictionTimer);
+    clearRunEvents(runId);
+
+    const logger = new PipelineLogger(runId, topic);
+    pipelineLoggers.set(runId, { logger });
+    return logger;
 }
 
-export function getCurrentPipelineLogger(): PipelineLogger | null {
-    return currentPipelineLogger;
+export function getPipelineLogger(runId: string): PipelineLogger | null {
+    return pipelineLoggers.get(runId)?.logger || null;
 }
 
-export function clearPipelineLogger(): void {
-    currentPipelineLogger = null;
+/**
+ * All tracked runs - running first, then most recently started
+ */
+export function listPipelineLoggers(): PipelineLogger[] {
+    return Array.from(pipelineLoggers.values())
+        .map(entry => entry.logger)
+        .sort((a, b) => {
+            if (a.isRunning() !== b.isRunning()) return a.isRunning() ? -1 : 1;
+            return b.getStartedAt().localeCompare(a.getStartedAt());
+        });
+}
+
+/**
+ * Most relevant single run (for legacy single-run endpoints)
+ */
+export function getLatestPipelineLogger(): PipelineLogger | null {
+    return listPipelineLoggers()[0] || null;
+}
+
+/**
+ * Mark a run as finished - it stays queryable until the TTL expires
+ */
+export function releasePipelineLogger(runId: string): void {
+    const entry = pipelineLoggers.get(runId);
+    if (!entry) return;
+
+    if (entry.evictionTimer) clearTimeout(entry.evictionTimer);
+    entry.evictionTimer = setTimeout(() => {
+        // Only evict if the entry wasn't replaced by a newer run in the meantime
+        if (pipelineLoggers.get(runId) === entry) {
+            pipelineLoggers.delete(runId);
+            clearRunEvents(runId);
+            console.log(`[PipelineLogger] Evicted finished run ${runId}`);
+        }
+    }, FINISHED_RUN_TTL_MS);
+    entry.evictionTimer.unref();
 }
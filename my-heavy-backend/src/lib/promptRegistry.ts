@@ -0,0 +1,403 @@
+/**
+ * promptRegistry.ts
+ * Named, versioned prompt templates and A/B experiments between versions
+ *
+ * Modules declare their prompts next to the code that sends them:
+ *
+ *   const ARTICLE_PROMPT = definePrompt('structure.article', {
+ *       v1: { system: 'You are a news article parser...', user: '<article>{{markdown}}</article>...' }
+ *   });
+ *
+ *   const { system, user } = await renderPrompt(ARTICLE_PROMPT, { markdown });
+ *
+ * {{name}} placeholders are filled from the variables; a missing variable throws.
+ * The last version listed is the default. A new variant is added as a new
+ * version - existing versions are never edited, so recorded runs stay comparable.
+ *
+ * Experiments (Firestore config/promptExperiments, edited via PUT /v3/prompts/experiments)
+ * split runs between versions of one prompt by weight. The variant is picked from
+ * a hash of the run ID, so every call in a run uses the same one. Each run records
+ * the versions it used (PipelineSummary.promptVersions); completed runs in an
+ * experiment store their QualityCheck.grade and quality_metrics under
+ * promptExperiments/{name}/runs, which GET /v3/prompts/experiments/results compares.
+ */
+
+import { createHash } from 'crypto';
+import dotenv from 'dotenv';
+import { db } from './firebase';
+import { getStepContext } from './stepContext';
+import { getPipelineLogger } from './pipelineLogger';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export interface PromptTemplate {
+    system?: string;  // Omitted for single-message prompts
+    user: string;
+}
+
+export interface PromptDefinition {
+    name: string;
+    versions: Record<string, PromptTemplate>;
+    defaultVersion: string;
+}
+
+export interface RenderedPrompt {
+    system: string;   // '' for single-message prompts
+    user: string;
+    name: string;
+    version: string;
+    experiment?: string;  // Set when an experiment picked the version
+}
+
+export interface ExperimentVariant {
+    version: string;
+    weight: number;  // Relative share of runs
+}
+
+export interface PromptExperiment {
+    name: string;
+    prompt: string;
+    variants: ExperimentVariant[];
+    enabled: boolean;
+}
+
+export interface PromptExperimentsDocument {
+    experiments: PromptExperiment[];
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+// Quality of one completed run in an experiment (promptExperiments/{name}/runs/{reportId})
+export interface ExperimentRunResult {
+    reportId: string;
+    prompt: string;
+    version: string;
+    grade: 'A' | 'B' | 'C' | 'D';              // QualityCheck.grade (reportAssembler.ts)
+    confidenceGrade?: 'A' | 'B' | 'C' | 'D';   // DeepAnalysis quality_metrics.confidence_grade
+    sourceCoverage?: number;
+    verifiedClaims?: number;
+    unverifiedClaims?: number;
+    needsHumanReview?: boolean;
+    completedAt: string;
+}
+
+export interface VariantResults {
+    version: string;
+    runs: number;
+    grades: Record<'A' | 'B' | 'C' | 'D', number>;
+    averageGrade: number | null;            // A=4 ... D=1
+    averageConfidenceGrade: number | null;  // A=4 ... D=1
+    averageSourceCoverage: number | null;
+    averageVerifiedClaims: number | null;
+    humanReviewRate: number | null;         // Share of runs flagged needs_human_review
+}
+
+export interface ExperimentResults {
+    experiment: string;
+    prompt: string;
+    enabled: boolean;
+    variants: VariantResults[];
+}
+
+export class PromptConfigError extends Error {
+    constructor(public issues: string[]) {
+        super(`Invalid prompt experiments: ${issues.join('; ')}`);
+        this.name = 'PromptConfigError';
+    }
+}
+
+// ============ REGISTRY ============
+
+const registry = new Map<string, PromptDefinition>();
+
+/**
+ * Register a prompt's versions (in order - the last one is the default)
+ */
+export function definePrompt(name: string, versions: Record<string, PromptTemplate>): PromptDefinition {
+    const keys = Object.keys(versions);
+    if (keys.length === 0) throw new Error(`[Prompts] ${name} has no versions`);
+    if (registry.has(name)) throw new Error(`[Prompts] ${name} is already defined`);
+
+    const definition: PromptDefinition = { name, versions, defaultVersion: keys[keys.length - 1] };
+    registry.set(name, definition);
+    return definition;
+}
+
+export function getPrompt(name: string): PromptDefinition | undefined {
+    return registry.get(name);
+}
+
+export function listPrompts(): Array<{ name: string; versions: string[]; defaultVersion: string }> {
+    return Array.from(registry.values()).map(({ name, versions, defaultVersion }) => ({
+        name,
+        versions: Object.keys(versions),
+        defaultVersion
+    }));
+}
+
+function fill(template: string, variables: Record<string, string | number>, label: string): string {
+    const missing = new Set<string>();
+    const text = template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+        if (variables[key] === undefined) {
+            missing.add(key);
+            return '';
+        }
+        return String(variables[key]);
+    });
+    if (missing.size > 0) throw new Error(`[Prompts] ${label}: missing variable(s) ${Array.from(missing).join(', ')}`);
+    return text;
+}
+
+// ============ EXPERIMENTS ============
+
+const EXPERIMENTS_COLLECTION = 'promptExperiments';
+const CONFIG_COLLECTION = 'config';
+const CONFIG_DOC = 'promptExperiments';
+const REFRESH_MS = Number(process.env.PROMPT_EXPERIMENTS_REFRESH_MS) || 60 * 1000;
+
+let experiments: PromptExperiment[] = [];
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check an experiments config against the registry. Returns the normalized
+ * config or throws PromptConfigError listing every problem found.
+ */
+export function validatePromptExperiments(input: unknown): PromptExperimentsDocument {
+    if (!isRecord(input) || !Array.isArray(input.experiments)) {
+        throw new PromptConfigError(['"experiments" must be an array']);
+    }
+
+    const issues: string[] = [];
+    const result: PromptExperiment[] = [];
+    const names = new Set<string>();
+    const activePrompts = new Set<string>();
+
+    input.experiments.forEach((value, i) => {
+        const label = `experiments[${i}]`;
+        if (!isRecord(value) || typeof value.name !== 'string' || !/^[\w.-]+$/.test(value.name)) {
+            issues.push(`${label}.name: must be a string of letters, digits, ".", "-" or "_"`);
+            return;
+        }
+        if (names.has(value.name)) issues.push(`${label}: duplicate experiment "${value.name}"`);
+        names.add(value.name);
+
+        const prompt = typeof value.prompt === 'string' ? registry.get(value.prompt) : undefined;
+        if (!prompt) {
+            issues.push(`${value.name}.prompt: unknown prompt ${JSON.stringify(value.prompt)}`);
+            return;
+        }
+
+        const enabled = value.enabled !== false;
+        if (enabled && activePrompts.has(prompt.name)) issues.push(`${value.name}: another enabled experiment already targets ${prompt.name}`);
+        if (enabled) activePrompts.add(prompt.name);
+
+        const variants: ExperimentVariant[] = [];
+        if (!Array.isArray(value.variants) || value.variants.length < 2) {
+            issues.push(`${value.name}.variants: needs at least 2 variants`);
+        } else {
+            value.variants.forEach((variant, j) => {
+                if (!isRecord(variant) || typeof variant.version !== 'string' || !(variant.version in prompt.versions)) {
+                    issues.push(`${value.name}.variants[${j}].version: must be one of ${Object.keys(prompt.versions).join(', ')}`);
+                } else if (typeof variant.weight !== 'number' || !Number.isFinite(variant.weight) || variant.weight <= 0) {
+                    issues.push(`${value.name}.variants[${j}].weight: must be a positive number`);
+                } else {
+                    variants.push({ version: variant.version, weight: variant.weight });
+                }
+            });
+        }
+
+        result.push({ name: value.name, prompt: prompt.name, variants, enabled });
+    });
+
+    if (issues.length > 0) throw new PromptConfigError(issues);
+    return { experiments: result };
+}
+
+async function loadExperiments(): Promise<void> {
+    try {
+        const doc = await db.collection(CONFIG_COLLECTION).doc(CONFIG_DOC).get();
+        experiments = doc.exists ? validatePromptExperiments(doc.data()).experiments : [];
+    } catch (e) {
+        console.error('[Prompts] Failed to load experiments - keeping current:', (e as Error).message);
+    }
+    loadedAt = Date.now();
+}
+
+async function getExperiments(): Promise<PromptExperiment[]> {
+    if (Date.now() - loadedAt > REFRESH_MS) {
+        loading = loading || loadExperiments().finally(() => { loading = null; });
+        await loading;
+    }
+    return experiments;
+}
+
+/**
+ * Weighted variant for a run - stable for the run ID, so all its calls agree
+ */
+function pickVariant(experiment: PromptExperiment, runId: string): string {
+    const hash = createHash('sha256').update(`${experiment.name}:${runId}`).digest();
+    const point = hash.readUInt32BE(0) / 0x100000000;
+    const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+    let cumulative = 0;
+    for (const variant of experiment.variants) {
+        cumulative += variant.weight / total;
+        if (point < cumulative) return variant.version;
+    }
+    return experiment.variants[experiment.variants.length - 1].version;
+}
+
+// ============ RENDERING ============
+
+/**
+ * Fill a prompt's template. Inside a pipeline run an enabled experiment on the
+ * prompt picks the version, and the version used is recorded on the step.
+ */
+export async function renderPrompt(prompt: PromptDefinition, variables: Record<string, string | number>): Promise<RenderedPrompt> {
+    const context = getStepContext();
+
+    let version = prompt.defaultVersion;
+    let experiment: PromptExperiment | undefined;
+    if (context) {
+        experiment = (await getExperiments()).find(e => e.enabled && e.prompt === prompt.name && e.variants.length > 0);
+        if (experiment) version = pickVariant(experiment, context.runId);
+    }
+
+    const template = prompt.versions[version] || prompt.versions[prompt.defaultVersion];
+    const label = `${prompt.name}@${version}`;
+    const rendered: RenderedPrompt = {
+        name: prompt.name,
+        version,
+        ...(experiment ? { experiment: experiment.name } : {}),
+        system: fill(template.system || '', variables, label),
+        user: fill(template.user, variables, label)
+    };
+
+    if (context) {
+        getPipelineLogger(context.runId)?.logPromptVersion(context.stepId, {
+            prompt: prompt.name,
+            version,
+            ...(experiment ? { experiment: experiment.name } : {})
+        });
+    }
+    return rendered;
+}
+
+// ============ CONFIG ============
+
+export async function getPromptExperiments(): Promise<PromptExperiment[]> {
+    return getExperiments();
+}
+
+/**
+ * Validate and store the experiments config; applies immediately in this
+ * process and within PROMPT_EXPERIMENTS_REFRESH_MS in every other instance.
+ * Throws PromptConfigError for an invalid config.
+ */
+export async function savePromptExperiments(input: unknown, updatedBy?: string): Promise<PromptExperimentsDocument> {
+    const validated = validatePromptExperiments(input);
+    const config: PromptExperimentsDocument = {
+        experiments: validated.experiments,
+        updatedAt: new Date().toISOString(),
+        ...(updatedBy ? { updatedBy } : {})
+    };
+
+    await db.collection(CONFIG_COLLECTION).doc(CONFIG_DOC).set(config);
+    experiments = config.experiments;
+    loadedAt = Date.now();
+    console.log(`[Prompts] Experiments saved by ${updatedBy || 'unknown'} (${config.experiments.filter(e => e.enabled).length} enabled)`);
+    return config;
+}
+
+// ============ RESULTS ============
+
+const GRADE_SCORE: Record<string, number> = { A: 4, B: 3, C: 2, D: 1 };
+
+/**
+ * Store a completed run's quality under every experiment it took part in.
+ * `used` is PipelineSummary.promptExperiments (experiment -> version). Never throws.
+ */
+export async function recordExperimentRun(
+    reportId: string,
+    used: Record<string, string>,
+    quality: {
+        grade: 'A' | 'B' | 'C' | 'D';
+        metrics?: { confidence_grade?: 'A' | 'B' | 'C' | 'D'; source_coverage?: number; verified_claims?: number; unverified_claims?: number; needs_human_review?: boolean };
+    }
+): Promise<void> {
+    for (const [name, version] of Object.entries(used)) {
+        const experiment = experiments.find(e => e.name === name);
+        const result: ExperimentRunResult = {
+            reportId,
+            prompt: experiment?.prompt || '',
+            version,
+            grade: quality.grade,
+            completedAt: new Date().toISOString(),
+            ...(quality.metrics?.confidence_grade ? { confidenceGrade: quality.metrics.confidence_grade } : {}),
+            ...(quality.metrics?.source_coverage !== undefined ? { sourceCoverage: quality.metrics.source_coverage } : {}),
+            ...(quality.metrics?.verified_claims !== undefined ? { verifiedClaims: quality.metrics.verified_claims } : {}),
+            ...(quality.metrics?.unverified_claims !== undefined ? { unverifiedClaims: quality.metrics.unverified_claims } : {}),
+            ...(quality.metrics?.needs_human_review !== undefined ? { needsHumanReview: quality.metrics.needs_human_review } : {})
+        };
+
+        try {
+            await db.collection(EXPERIMENTS_COLLECTION).doc(name).collection('runs').doc(reportId).set(result);
+        } catch (e) {
+            console.error(`[Prompts] Failed to record ${name} result for ${reportId}:`, e);
+        }
+    }
+}
+
+function average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+}
+
+function summarizeVariant(version: string, runs: ExperimentRunResult[]): VariantResults {
+    const grades = { A: 0, B: 0, C: 0, D: 0 };
+    runs.forEach(run => { if (run.grade in grades) grades[run.grade]++; });
+    const reviewed = runs.filter(run => run.needsHumanReview !== undefined);
+
+    return {
+        version,
+        runs: runs.length,
+        grades,
+        averageGrade: average(runs.map(run => GRADE_SCORE[run.grade]).filter(score => score !== undefined)),
+        averageConfidenceGrade: average(runs.map(run => GRADE_SCORE[run.confidenceGrade || '']).filter(score => score !== undefined)),
+        averageSourceCoverage: average(runs.flatMap(run => run.sourceCoverage !== undefined ? [run.sourceCoverage] : [])),
+        averageVerifiedClaims: average(runs.flatMap(run => run.verifiedClaims !== undefined ? [run.verifiedClaims] : [])),
+        humanReviewRate: reviewed.length > 0 ? average(reviewed.map(run => run.needsHumanReview ? 1 : 0)) : null
+    };
+}
+
+/**
+ * Per-variant quality of every configured experiment (or just `name`)
+ */
+export async function getExperimentResults(name?: string): Promise<ExperimentResults[]> {
+    const configured = (await getExperiments()).filter(e => !name || e.name === name);
+    const results: ExperimentResults[] = [];
+
+    for (const experiment of configured) {
+        const snapshot = await db.collection(EXPERIMENTS_COLLECTION).doc(experiment.name).collection('runs').get();
+        const runs = snapshot.docs.map(doc => doc.data() as ExperimentRunResult);
+
+        // Configured variants first, then versions that were dropped from the config since
+        const versions = [...experiment.variants.map(v => v.version), ...runs.map(run => run.version)]
+            .filter((version, i, all) => all.indexOf(version) === i);
+
+        results.push({
+            experiment: experiment.name,
+            prompt: experiment.prompt,
+            enabled: experiment.enabled,
+            variants: versions.map(version => summarizeVariant(version, runs.filter(run => run.version === version)))
+        });
+    }
+    return results;
+}
@@ -0,0 +1,132 @@
+/**
+ * providers.ts
+ * Provider interfaces for everything the pipeline talks to, plus injection
+ *
+ * Lib modules keep calling their usual entry points (callLLM, `db`, the step
+ * services, generateEmbedding...). Each entry point checks for an injected
+ * provider first and only falls back to the live client (Groq / OpenRouter,
+ * Firestore, Tavily, Firecrawl, YouTube, HuggingFace, Supabase) when none is set.
+ *
+ *   setProviders({ llm: new FakeLLM(), documents: new InMemoryDocumentStore() });
+ *   ...run the orchestrator / pipeline without network...
+ *   resetProviders();
+ *
+ * In-memory fakes for every interface live in fakeProviders.ts.
+ */
+
+import type { LLMCallOptions } from './llmProvider';
+import type { SearchResult } from './tavily';
+import type { ScrapeResult } from './firecrawl';
+import type { VideoResult, YouTubeSearchOptions } from './youtubeSearch';
+import type { TranscribedVideo } from './groqTranscribe';
+import type { SourceEmbeddingRow, SearchResult as EmbeddingMatch } from './embeddings';
+
+// ============ MODEL / SEARCH / MEDIA PROVIDERS ============
+
+export interface LLMProvider {
+    complete(options: LLMCallOptions): Promise<string>;
+}
+
+// Options for providers that back a step with alternative implementations
+export interface ProviderCallOptions {
+    alternative?: string;  // Name from ALTERNATIVE_FUNCTIONS (retryStrategies.ts), undefined = default
+    signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+    search(keywords: string[], options?: ProviderCallOptions): Promise<SearchResult[]>;
+}
+
+export interface ScrapeProvider {
+    scrape(urls: string[], options?: ProviderCallOptions): Promise<ScrapeResult[]>;
+}
+
+export interface VideoProvider {
+    search(queries: string[], options?: YouTubeSearchOptions): Promise<VideoResult[]>;
+    transcribe(videos: VideoResult[], options?: ProviderCallOptions): Promise<TranscribedVideo[]>;
+}
+
+export interface EmbeddingProvider {
+    embed(text: string): Promise<number[]>;
+}
+
+// Supabase pgvector operations used by embeddings.ts (errors are returned, like supabase-js)
+export interface VectorStore {
+    insert(row: SourceEmbeddingRow): Promise<{ error: unknown }>;
+    match(embedding: number[], threshold: number, count: number): Promise<{ data: EmbeddingMatch[] | null; error: unknown }>;
+    listByTopic(topic: string, limit: number): Promise<{ data: EmbeddingMatch[] | null; error: unknown }>;
+}
+
+// ============ DOCUMENT STORE ============
+// The Firestore subset the lib modules and server use - Firestore itself satisfies it
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DocumentData = { [field: string]: any };  // Same as Firestore's DocumentData
+
+export interface DocumentSnapshot {
+    id: string;
+    exists: boolean;
+    ref: DocumentRef;
+    data(): DocumentData | undefined;
+    get(field: string): unknown;
+}
+
+export interface QuerySnapshot {
+    docs: DocumentSnapshot[];
+    size: number;
+    empty: boolean;
+    forEach(callback: (doc: DocumentSnapshot) => void): void;
+}
+
+export interface DocumentRef {
+    id: string;
+    get(): Promise<DocumentSnapshot>;
+    set(data: DocumentData, options?: { merge?: boolean }): Promise<unknown>;
+    update(data: DocumentData): Promise<unknown>;
+    delete(): Promise<unknown>;
+    collection(path: string): CollectionRef;
+}
+
+export interface CollectionRef {
+    doc(id: string): DocumentRef;
+    add(data: DocumentData): Promise<DocumentRef>;
+    get(): Promise<QuerySnapshot>;
+    select(...fields: string[]): { get(): Promise<QuerySnapshot> };
+}
+
+export interface DocumentStore {
+    collection(path: string): CollectionRef;
+    arrayUnion(...elements: unknown[]): unknown;  // Firestore FieldValue.arrayUnion
+}
+
+// ============ REGISTRY ============
+
+export interface Providers {
+    llm: LLMProvider;
+    search: SearchProvider;
+    scrape: ScrapeProvider;
+    video: VideoProvider;
+    embeddings: EmbeddingProvider;
+    vectorStore: VectorStore;
+    documents: DocumentStore;
+}
+
+const overrides: Partial<Providers> = {};
+
+/**
+ * Replace providers (typically with fakes). Unset kinds keep using the live clients.
+ */
+export function setProviders(providers: Partial<Providers>): void {
+    Object.assign(overrides, providers);
+}
+
+/**
+ * Back to the live clients for every provider
+ */
+export function resetProviders(): void {
+    (Object.keys(overrides) as Array<keyof Providers>).forEach(kind => delete overrides[kind]);
+}
+
+export function getProviderOverride<K extends keyof Providers>(kind: K): Providers[K] | undefined {
+    return overrides[kind];
+}
@@ -0,0 +1,253 @@
+/**
+ * quotaTracker.ts
+ * Per-minute / per-day request budgets for LLM providers and models
+ *
+ * callLLM (and the legacy Groq chains) ask here before every request and skip
+ * models that are out of budget instead of discovering it through a 429.
+ * Limits apply per model ("groq/llama-3.3-70b-versatile") and per provider
+ * ("openrouter" - the free tier is shared across all :free models).
+ *
+ * Counters are persisted to .cache/quota.json so a restart doesn't forget
+ * today's spend. Override limits with QUOTA_LIMITS, e.g.
+ *   QUOTA_LIMITS='{"providers":{"openrouter":{"perDay":1000}},"models":{"groq/llama-3.1-8b-instant":{"perMinute":60}}}'
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { isReplaying } from './cassette';
+
+dotenv.config();
+
+// ============ TYPES ============
+
+export interface QuotaLimit {
+    perMinute?: number;
+    perDay?: number;
+}
+
+export interface QuotaConfig {
+    providers: Record<string, QuotaLimit>;  // Shared by every model of the provider
+    models: Record<string, QuotaLimit>;     // Keyed "provider/model"
+}
+
+export interface QuotaCheck {
+    allowed: boolean;
+    reason?: string;
+}
+
+export interface BudgetStatus {
+    limit: number;
+    used: number;
+    remaining: number;
+}
+
+export interface QuotaStatus {
+    key: string;  // "openrouter" or "groq/llama-3.3-70b-versatile"
+    scope: 'provider' | 'model';
+    perMinute?: BudgetStatus;
+    perDay?: BudgetStatus;
+    blockedUntil?: string;  // Set after a provider-reported rate limit / quota error
+}
+
+interface QuotaStore {
+    version: 1;
+    date: string;                        // UTC day the daily counters belong to
+    daily: Record<string, number>;       // key -> requests today
+    recent: Record<string, number[]>;    // key -> request timestamps in the last minute
+    blockedUntil: Record<string, number>;
+}
+
+// ============ CONFIGURATION ============
+
+// Groq free tier: 30 RPM per model; OpenRouter free models: ~20 RPM / ~200 requests per day (AI_MODELS.text);
+// Gemini free tier: 15 RPM / 1500 per day. Local models have no limits.
+const DEFAULT_QUOTAS: QuotaConfig = {
+    providers: {
+        openrouter: { perMinute: 20, perDay: 200 }
+    },
+    models: {
+        'groq/llama-3.1-8b-instant': { perMinute: 30, perDay: 14400 },
+        'groq/llama-3.3-70b-versatile': { perMinute: 30, perDay: 1000 },
+        'groq/gemma2-9b-it': { perMinute: 30, perDay: 14400 },
+        'gemini/gemini-2.0-flash': { perMinute: 15, perDay: 1500 }
+    }
+};
+
+const MINUTE_MS = 60 * 1000;
+const RATE_LIMIT_COOLDOWN_MS = Number(process.env.QUOTA_RATE_LIMIT_COOLDOWN_MS) || MINUTE_MS;
+const SAVE_DEBOUNCE_MS = 2000;
+
+function loadQuotaConfig(): QuotaConfig {
+    if (!process.env.QUOTA_LIMITS) return DEFAULT_QUOTAS;
+    try {
+        const custom = JSON.parse(process.env.QUOTA_LIMITS) as Partial<QuotaConfig>;
+        return {
+            providers: { ...DEFAULT_QUOTAS.providers, ...custom.providers },
+            models: { ...DEFAULT_QUOTAS.models, ...custom.models }
+        };
+    } catch (e) {
+        console.error('[Quota] Invalid QUOTA_LIMITS - using defaults:', e);
+        return DEFAULT_QUOTAS;
+    }
+}
+
+const quotaConfig = loadQuotaConfig();
+
+function getStorePath(): string {
+    return process.env.QUOTA_STORE_PATH || path.join(process.cwd(), '.cache', 'quota.json');
+}
+
+// ============ STORE ============
+
+let store: QuotaStore | null = null;
+let saveTimer: NodeJS.Timeout | null = null;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function emptyStore(): QuotaStore {
+    return { version: 1, date: today(), daily: {}, recent: {}, blockedUntil: {} };
+}
+
+function getStore(): QuotaStore {
+    if (!store) {
+        store = emptyStore();
+        try {
+            if (fs.existsSync(getStorePath())) {
+                store = { ...emptyStore(), ...JSON.parse(fs.readFileSync(getStorePath(), 'utf-8')) as QuotaStore };
+                console.log(`[Quota] Loaded counters from ${getStorePath()}`);
+            }
+        } catch (e) {
+            console.error('[Quota] Failed to load counters - starting fresh:', e);
+        }
+    }
+
+    // New UTC day: daily budgets reset
+    if (store.date !== today()) {
+        store.date = today();
+        store.daily = {};
+    }
+    return store;
+}
+
+function scheduleSave(): void {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        const target = getStorePath();
+        const snapshot = JSON.stringify(store);
+        // Write-then-rename so a crash mid-write never leaves a corrupt file
+        fs.promises.mkdir(path.dirname(target), { recursive: true })
+            .then(() => fs.promises.writeFile(`${target}.tmp`, snapshot))
+            .then(() => fs.promises.rename(`${target}.tmp`, target))
+            .catch(e => console.error('[Quota] Failed to save counters:', e));
+    }, SAVE_DEBOUNCE_MS);
+    saveTimer.unref();
+}
+
+function recentRequests(current: QuotaStore, key: string, now: number): number[] {
+    const recent = (current.recent[key] || []).filter(timestamp => now - timestamp < MINUTE_MS);
+    current.recent[key] = recent;
+    return recent;
+}
+
+// The provider-wide and the model's own budget both apply to a request
+function budgetKeys(provider: string, model: string): Array<{ key: string; scope: 'provider' | 'model'; limit?: QuotaLimit }> {
+    const modelKey = `${provider}/${model}`;
+    return [
+        { key: provider, scope: 'provider', limit: quotaConfig.providers[provider] },
+        { key: modelKey, scope: 'model', limit: quotaConfig.models[modelKey] }
+    ];
+}
+
+// ============ PUBLIC API ============
+
+/**
+ * Can this model be called right now? (Always allowed while replaying a cassette.)
+ */
+export function checkQuota(provider: string, model: string): QuotaCheck {
+    if (isReplaying()) return { allowed: true };
+
+    const current = getStore();
+    const now = Date.now();
+
+    for (const { key, limit } of budgetKeys(provider, model)) {
+        const blockedUntil = current.blockedUntil[key];
+        if (blockedUntil && blockedUntil > now) {
+            return { allowed: false, reason: `${key} blocked after a provider limit error until ${new Date(blockedUntil).toISOString()}` };
+        }
+        if (limit?.perDay !== undefined && (current.daily[key] || 0) >= limit.perDay) {
+            return { allowed: false, reason: `${key} daily budget used (${limit.perDay}/day)` };
+        }
+        if (limit?.perMinute !== undefined && recentRequests(current, key, now).length >= limit.perMinute) {
+            return { allowed: false, reason: `${key} per-minute budget used (${limit.perMinute}/min)` };
+        }
+    }
+    return { allowed: true };
+}
+
+/**
+ * Count a request against the provider's and model's budgets (call right before sending it)
+ */
+export function recordRequest(provider: string, model: string): void {
+    if (isReplaying()) return;
+
+    const current = getStore();
+    const now = Date.now();
+    for (const { key } of budgetKeys(provider, model)) {
+        current.daily[key] = (current.daily[key] || 0) + 1;
+        current.recent[key] = [...recentRequests(current, key, now), now];
+    }
+    scheduleSave();
+}
+
+/**
+ * The provider answered 429 - skip the model until the cooldown ends
+ */
+export function reportRateLimit(provider: string, model: string, cooldownMs = RATE_LIMIT_COOLDOWN_MS): void {
+    getStore().blockedUntil[`${provider}/${model}`] = Date.now() + cooldownMs;
+    console.log(`[Quota] ${provider}/${model} rate limited - skipping it for ${Math.round(cooldownMs / 1000)}s`);
+    scheduleSave();
+}
+
+/**
+ * The provider reported its quota exhausted (402) - skip all its models until the next UTC day
+ */
+export function reportQuotaExhausted(provider: string): void {
+    const tomorrow = new Date(`${today()}T00:00:00.000Z`).getTime() + 24 * 60 * MINUTE_MS;
+    getStore().blockedUntil[provider] = tomorrow;
+    console.log(`[Quota] ${provider} quota exhausted - skipping its models until ${new Date(tomorrow).toISOString()}`);
+    scheduleSave();
+}
+
+/**
+ * Remaining budget for every configured (or already used) provider / model
+ */
+export function getQuotaStatus(): QuotaStatus[] {
+    const current = getStore();
+    const now = Date.now();
+    const keys = new Set([
+        ...Object.keys(quotaConfig.providers),
+        ...Object.keys(quotaConfig.models),
+        ...Object.keys(current.daily)
+    ]);
+
+    return Array.from(keys).sort().map(key => {
+        const scope = key.includes('/') ? 'model' as const : 'provider' as const;
+        const limit = scope === 'provider' ? quotaConfig.providers[key] : quotaConfig.models[key];
+        const status: QuotaStatus = { key, scope };
+
+        if (limit?.perMinute !== undefined) {
+            const used = recentRequests(current, key, now).length;
+            status.perMinute = { limit: limit.perMinute, used, remaining: Math.max(0, limit.perMinute - used) };
+        }
+        if (limit?.perDay !== undefined) {
+            const used = current.daily[key] || 0;
+            status.perDay = { limit: limit.perDay, used, remaining: Math.max(0, limit.perDay - used) };
+        }
+        if (current.blockedUntil[key] > now) {
+            status.blockedUntil = new Date(current.blockedUntil[key]).toISOString();
+        }
+        return status;
+    });
+}
@@ -0,0 +1,326 @@
+/**
+ * researchPipeline.ts
+ * The 13-step research pipeline as data (run by pipelineEngine)
+ *
+ * DAG:
+ *   step1_keywords ─ step2_search ─ step3_scrape ─ step4_structure ─ step5_summarize
+ *   step5_summarize ─┬─ step6_queries ─ step7_videos ─ step8_transcribe ─┐
+ *                    └───────────────────────────────────────────────────┴─ step9_merge
+ *   step9_merge ─┬─ step10_normalize ────────────────┬─ step13_report
+ *                └─ step11_analyze ─ step12_content ─┘
+ *
+ * Video queries are written from the article summaries, so the video branch
+ * follows the news branch; normalization runs alongside analysis.
+ *
+ * Names and display order come from STEP_REGISTRY (pipelineLogger.ts);
+ * step logic is called in-process from stepServices.ts.
+ *
+ * Per-run limits and optional stages come from the run's research profile
+ * (researchProfiles.ts) - quick runs leave out the video branch entirely.
+ */
+
+import { PipelineDefinition, PipelineStep, RetryAdjustment } from './pipelineEngine';
+import { StepEvaluation } from './orchestrator';
+import {
+    runKeywordsStep, runSearchStep, runScrapeStep, runStructureStep, runSummarizeStep,
+    runQueriesStep, runVideosStep, runTranscribeStep, runMergeStep, runNormalizeStep,
+    runAnalyzeStep, runContentStep, runReportStep
+} from './stepServices';
+import {
+    evaluateKeywords, evaluateSearch, evaluateScrape, evaluateStructure, evaluateSummarize,
+    evaluateQueries, evaluateVideos, evaluateTranscribe, evaluateMerge, evaluateNormalize,
+    evaluateAnalysis, evaluateContentIdeas, evaluateReport, getEvaluatorThresholds
+} from './stepEvaluators';
+import { ResearchProfile } from './researchProfiles';
+import { UnifiedSource } from './knowledgeBase';
+import { RawArticle, RawVideo } from './groqNormalize';
+
+// ============ CONTEXT ============
+
+export interface ResearchContext {
+    topic: string;
+    reportId: string;
+    profile: ResearchProfile;
+    signal?: AbortSignal;  // Aborted by POST /v3/runs/:id/cancel
+}
+
+// ============ EVALUATION ============
+
+// Fallback for steps without a dedicated evaluator (stepEvaluators.ts)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const genericEvaluator = (data: any): StepEvaluation => {
+    if (!data) return { quality: 'error', issue: 'No data returned' };
+    const keys = Object.keys(data);
+    if (keys.length === 0) return { quality: 'empty', issue: 'Empty object' };
+    return { quality: 'good', metrics: { keys: keys.length } };
+};
+
+// ============ RETRY ADJUSTMENTS ============
+// Retry strategies (retryStrategies.ts) return a modifiedInput such as { topic: "simplified topic" }.
+// Adjustments always start from the step's original input - strategies escalate per retry themselves.
+
+const broaden = (query: string, words = 2) => query.split(/\s+/).slice(0, words).join(' ');
+const unique = (items: string[]) => Array.from(new Set(items.map(item => item.trim()).filter(Boolean)));
+
+function retryTopic(modification: Record<string, unknown>): string | undefined {
+    return typeof modification.topic === 'string' && modification.topic.trim() ? modification.topic.trim() : undefined;
+}
+
+// Switch to the implementation chosen by the orchestrator (alternativeFunctions.ts)
+function withAlternative<T extends { alternative?: string }>(
+    adjustment: RetryAdjustment<T>,
+    modification: Record<string, unknown>
+): RetryAdjustment<T> {
+    const alternative = typeof modification.alternativeFunction === 'string' ? modification.alternativeFunction : undefined;
+    if (!alternative || alternative === adjustment.input.alternative) return adjustment;
+    return {
+        input: { ...adjustment.input, alternative },
+        changes: [...adjustment.changes, `implementation → ${alternative}`]
+    };
+}
+
+// Tavily: lead with the simplified topic and shorten every keyword
+function broaderKeywords<T extends { keywords: string[] }>(input: T, modification: Record<string, unknown>): RetryAdjustment<T> {
+    const topic = retryTopic(modification);
+    if (!topic) return { input, changes: [] };
+    const keywords = unique([topic, ...input.keywords.map(k => broaden(k))]);
+    return {
+        input: { ...input, keywords },
+        changes: [`keywords broadened: [${input.keywords.join(', ')}] → [${keywords.join(', ')}]`]
+    };
+}
+
+// YouTube: alternate queries built from the simplified topic, plus shortened originals
+function alternateVideoQueries<T extends { queries: string[] }>(input: T, modification: Record<string, unknown>): RetryAdjustment<T> {
+    const topic = retryTopic(modification);
+    if (!topic) return { input, changes: [] };
+    const queries = unique([
+        topic, `${topic} news`, `${topic} interview`,
+        ...input.queries.map(q => broaden(q))
+    ]);
+    return {
+        input: { ...input, queries },
+        changes: [`video queries replaced: [${input.queries.join(', ')}] → [${queries.join(', ')}]`]
+    };
+}
+
+// ============ INPUT MAPPING ============
+
+// step10_normalize takes raw search/video results; feed it the sources merged in step9
+function mergedToRawSources(sources: UnifiedSource[]): { articles: RawArticle[]; videos: RawVideo[] } {
+    const articles: RawArticle[] = [];
+    const videos: RawVideo[] = [];
+    for (const source of sources) {
+        if (source.type === 'video') {
+            const views = Number(source.metadata.views);
+            videos.push({
+                videoId: source.id.replace(/^video_/, ''),
+                title: source.title,
+                description: source.summary,
+                channelTitle: source.publisher,
+                publishedAt: source.date,
+                views: Number.isFinite(views) ? views : undefined
+            });
+        } else {
+            articles.push({
+                title: source.title,
+                url: source.url,
+                summary: source.summary,
+                content: source.key_facts.join('\n') || undefined,
+                published_date: source.date || undefined,
+                source: source.publisher
+            });
+        }
+    }
+    return { articles, videos };
+}
+
+// ============ STEPS ============
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const steps: PipelineStep<ResearchContext>[] = [
+    // ---------- NEWS BRANCH (Steps 1-5) ----------
+    {
+        key: 'step1_keywords',
+        dependsOn: [],
+        input: (_, ctx) => ({ topic: ctx.topic }),
+        run: (input) => runKeywordsStep(input),
+        evaluate: evaluateKeywords,
+        retryStrategy: 'broader_query',
+        applyRetry: (input, modification) => {
+            const topic = retryTopic(modification);
+            if (!topic) return { input, changes: [] };
+            return { input: { topic }, changes: [`topic "${input.topic}" → "${topic}"`] };
+        },
+        canSkip: false
+    },
+    {
+        key: 'step2_search',
+        dependsOn: ['step1_keywords'],
+        input: (outputs) => ({ keywords: outputs.step1_keywords?.keywords || [] }),
+        run: (input, ctx) => runSearchStep(input, { signal: ctx.signal }),
+        evaluate: evaluateSearch,
+        meta: (input) => ({ keywordCount: input.keywords.length }),
+        retryStrategy: 'broader_query',
+        applyRetry: (input, modification) => withAlternative(broaderKeywords(input, modification), modification),
+        canSkip: false
+    },
+    {
+        key: 'step3_scrape',
+        dependsOn: ['step2_search'],
+        input: (outputs, ctx) => ({
+            urls: (outputs.step2_search?.results || []).slice(0, ctx.profile.limits.maxArticlesToScrape).map((r: any) => r.url)
+        }),
+        run: (input, ctx) => runScrapeStep(input, { signal: ctx.signal }),
+        evaluate: evaluateScrape,
+        meta: (input) => ({ urlCount: input.urls.length }),
+        retryStrategy: 'alternative_function',  // Firecrawl → Jina → Cheerio
+        applyRetry: (input, modification) => withAlternative({ input, changes: [] }, modification),
+        canSkip: true
+    },
+    {
+        key: 'step4_structure',
+        dependsOn: ['step3_scrape'],
+        input: (outputs) => ({
+            articles: (outputs.step3_scrape?.results || [])
+                .filter((r: any) => r.markdown && r.markdown.length > getEvaluatorThresholds().scrape.minArticleLength)
+                .map((r: any) => ({ markdown: r.markdown, url: r.metadata?.sourceURL || r.url }))
+        }),
+        run: (input) => runStructureStep(input),
+        evaluate: evaluateStructure,
+        logInput: (input) => ({ articleCount: input.articles.length }),
+        canSkip: true
+    },
+    {
+        key: 'step5_summarize',
+        dependsOn: ['step4_structure'],
+        input: (outputs) => ({ articles: outputs.step4_structure?.articles || [] }),
+        run: (input) => runSummarizeStep(input),
+        evaluate: evaluateSummarize,
+        logInput: (input) => ({ articleCount: input.articles.length }),
+        canSkip: true
+    },
+
+    // ---------- VIDEO BRANCH (Steps 6-8) ----------
+    {
+        key: 'step6_queries',
+        dependsOn: ['step5_summarize'],
+        input: (outputs, ctx) => ({ topic: ctx.topic, articles: outputs.step5_summarize?.articles || [] }),
+        run: (input) => runQueriesStep(input),
+        evaluate: evaluateQueries,
+        retryStrategy: 'broader_query',
+        applyRetry: (input, modification) => {
+            const topic = retryTopic(modification);
+            if (!topic) return { input, changes: [] };
+            return { input: { ...input, topic }, changes: [`query topic "${input.topic}" → "${topic}"`] };
+        },
+        canSkip: true,
+        when: (ctx) => ctx.profile.stages.videos
+    },
+    {
+        key: 'step7_videos',
+        dependsOn: ['step6_queries'],
+        input: (outputs, ctx) => ({
+            queries: outputs.step6_queries?.queries || [ctx.topic],
+            maxQueries: ctx.profile.limits.maxVideoQueries,
+            resultsPerQuery: ctx.profile.limits.videosPerQuery
+        }),
+        run: (input, ctx) => runVideosStep(input, { signal: ctx.signal }),
+        evaluate: evaluateVideos,
+        retryStrategy: 'broader_query',
+        applyRetry: alternateVideoQueries,
+        canSkip: true,
+        when: (ctx) => ctx.profile.stages.videos
+    },
+    {
+        key: 'step8_transcribe',
+        dependsOn: ['step7_videos'],
+        input: (outputs, ctx) => ({ videos: (outputs.step7_videos?.videos || []).slice(0, ctx.profile.limits.maxVideosToTranscribe) }),
+        run: (input, ctx) => runTranscribeStep(input, { signal: ctx.signal }),
+        evaluate: evaluateTranscribe,
+        logInput: (input) => ({ videoCount: input.videos.length }),
+        retryStrategy: 'alternative_function',  // Captions → video descriptions
+        applyRetry: (input, modification) => withAlternative({ input, changes: [] }, modification),
+        canSkip: true,
+        when: (ctx) => ctx.profile.stages.videos
+    },
+
+    // ---------- MERGE (Steps 9-10) ----------
+    {
+        // Verify/classify skipped for speed - merge with enrichment is stronger
+        key: 'step9_merge',
+        dependsOn: ['step5_summarize', 'step8_transcribe'],
+        input: (outputs, ctx) => ({
+            topic: ctx.topic,
+            articles: outputs.step5_summarize?.articles || [],
+            videos: outputs.step8_transcribe?.videos
+                || (outputs.step7_videos?.videos || []).slice(0, ctx.profile.limits.maxVideosToTranscribe),
+            enrich: true
+        }),
+        run: (input) => runMergeStep(input),
+        evaluate: evaluateMerge,
+        logInput: (input) => ({ topic: input.topic, articleCount: input.articles.length, videoCount: input.videos.length }),
+        canSkip: false  // Critical step
+    },
+    {
+        // Rates credibility and relevance of the merged sources for the report; analysis reads step9's output
+        key: 'step10_normalize',
+        dependsOn: ['step9_merge'],
+        input: (outputs, ctx) => ({ topic: ctx.topic, ...mergedToRawSources(outputs.step9_merge?.sources || []) }),
+        run: (input) => runNormalizeStep(input),
+        evaluate: evaluateNormalize,
+        logInput: (input) => ({ topic: input.topic, articleCount: input.articles.length, videoCount: input.videos.length }),
+        canSkip: true
+    },
+
+    // ---------- FINAL REPORT (Steps 11-13) ----------
+    {
+        key: 'step11_analyze',
+        dependsOn: ['step9_merge'],
+        input: (outputs, ctx) => ({
+            topic: ctx.topic,
+            sources: outputs.step9_merge?.sources || [],
+            maxFactSources: ctx.profile.limits.maxFactSources,
+            fullAnalysis: ctx.profile.stages.deepAnalysis
+        }),
+        run: (input) => runAnalyzeStep(input),
+        evaluate: evaluateAnalysis,
+        logInput: (input) => ({ topic: input.topic, sourceCount: input.sources.length, fullAnalysis: input.fullAnalysis }),
+        canSkip: false
+    },
+    {
+        key: 'step12_content',
+        dependsOn: ['step11_analyze'],
+        input: (outputs) => ({ analysis: outputs.step11_analyze || {} }),
+        run: (input) => runContentStep(input),
+        evaluate: evaluateContentIdeas,
+        logInput: (input) => ({ hasAnalysis: !!input.analysis.executive_summary }),
+        canSkip: true
+    },
+    {
+        key: 'step13_report',
+        dependsOn: ['step9_merge', 'step10_normalize', 'step11_analyze', 'step12_content'],
+        input: (outputs, ctx) => {
+            const analysis = outputs.step11_analyze || {};
+            const normalized = outputs.step10_normalize?.sources || [];
+            return {
+                topic: ctx.topic,
+                // Normalized sources carry credibility; the merged ones when normalization was skipped
+                sources: normalized.length > 0 ? normalized : outputs.step9_merge?.sources || [],
+                deep_analysis: analysis,
+                content_ideas: outputs.step12_content || {},
+                executive_summary: analysis.executive_summary
+            };
+        },
+        run: (input) => runReportStep(input),
+        evaluate: evaluateReport,
+        logInput: (input) => ({ topic: input.topic, sourceCount: input.sources.length }),
+        canSkip: false
+    }
+];
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export const RESEARCH_PIPELINE: PipelineDefinition<ResearchContext> = {
+    name: 'research',
+    steps
+};
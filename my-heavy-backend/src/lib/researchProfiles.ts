@@ -0,0 +1,129 @@
+/**
+ * researchProfiles.ts
+ * Research depth profiles (quick / standard / deep) for orchestrated runs
+ *
+ * A profile sets how much material each step works with (articles scraped,
+ * videos searched and transcribed, sources fed to fact extraction) and which
+ * optional stages run at all. `standard` matches the limits the pipeline has
+ * always used. Callers pick a profile by name and can override single values:
+ *
+ *   { "profile": "quick", "profileOverrides": { "maxArticlesToScrape": 4 } }
+ *
+ * The resolved profile is stored on the report so resumed runs use the same one.
+ */
+
+// ============ TYPES ============
+
+export type ResearchProfileName = 'quick' | 'standard' | 'deep';
+
+export interface ResearchLimits {
+    maxArticlesToScrape: number;     // Search results passed to step 3
+    maxVideoQueries: number;         // YouTube queries actually searched (step 7)
+    videosPerQuery: number;          // YouTube results per query (step 7)
+    maxVideosToTranscribe: number;   // Top videos transcribed (step 8)
+    maxFactSources: number;          // Sources given to key fact extraction (step 11)
+}
+
+export interface ResearchStages {
+    videos: boolean;        // Video intelligence branch (steps 6-8)
+    deepAnalysis: boolean;  // Geopolitics, perspective, risks and recommendations (step 11 stages 2-5)
+}
+
+export type ResearchProfileOverrides = Partial<ResearchLimits & ResearchStages>;
+
+export interface ResearchProfile {
+    name: ResearchProfileName;
+    limits: ResearchLimits;
+    stages: ResearchStages;
+    overrides?: ResearchProfileOverrides;  // Only present when the caller customised the profile
+}
+
+export class ResearchProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ResearchProfileError';
+    }
+}
+
+// ============ PROFILES ============
+
+export const DEFAULT_RESEARCH_PROFILE: ResearchProfileName = 'standard';
+
+export const RESEARCH_PROFILES: Record<ResearchProfileName, Omit<ResearchProfile, 'overrides'>> = {
+    quick: {
+        name: 'quick',
+        limits: { maxArticlesToScrape: 3, maxVideoQueries: 3, videosPerQuery: 2, maxVideosToTranscribe: 2, maxFactSources: 10 },
+        stages: { videos: false, deepAnalysis: false }
+    },
+    standard: {
+        name: 'standard',
+        limits: { maxArticlesToScrape: 5, maxVideoQueries: 5, videosPerQuery: 3, maxVideosToTranscribe: 3, maxFactSources: 15 },
+        stages: { videos: true, deepAnalysis: true }
+    },
+    deep: {
+        name: 'deep',
+        limits: { maxArticlesToScrape: 10, maxVideoQueries: 8, videosPerQuery: 5, maxVideosToTranscribe: 6, maxFactSources: 30 },
+        stages: { videos: true, deepAnalysis: true }
+    }
+};
+
+// Allowed range for custom limits - keeps a single run within provider quotas
+const LIMIT_BOUNDS: Record<keyof ResearchLimits, [number, number]> = {
+    maxArticlesToScrape: [1, 20],
+    maxVideoQueries: [1, 10],
+    videosPerQuery: [1, 10],
+    maxVideosToTranscribe: [1, 10],
+    maxFactSources: [5, 50]
+};
+
+// ============ RESOLUTION ============
+
+function isProfileName(name: unknown): name is ResearchProfileName {
+    return typeof name === 'string' && name in RESEARCH_PROFILES;
+}
+
+/**
+ * Build the profile for a run from a profile name and optional overrides
+ * (both straight from the request body). Throws ResearchProfileError on bad input.
+ */
+export function resolveResearchProfile(name?: unknown, overrides?: unknown): ResearchProfile {
+    const profileName = name === undefined || name === null || name === '' ? DEFAULT_RESEARCH_PROFILE : name;
+    if (!isProfileName(profileName)) {
+        throw new ResearchProfileError(`Unknown research profile "${String(profileName)}" (expected one of: ${Object.keys(RESEARCH_PROFILES).join(', ')})`);
+    }
+
+    const base = RESEARCH_PROFILES[profileName];
+    const limits = { ...base.limits };
+    const stages = { ...base.stages };
+
+    if (overrides === undefined || overrides === null) {
+        return { name: profileName, limits, stages };
+    }
+    if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+        throw new ResearchProfileError('profileOverrides must be an object');
+    }
+
+    const applied: ResearchProfileOverrides = {};
+    for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+        if (key in LIMIT_BOUNDS) {
+            const [min, max] = LIMIT_BOUNDS[key as keyof ResearchLimits];
+            if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+                throw new ResearchProfileError(`${key} must be an integer between ${min} and ${max}`);
+            }
+            limits[key as keyof ResearchLimits] = value;
+            applied[key as keyof ResearchLimits] = value;
+        } else if (key in stages) {
+            if (typeof value !== 'boolean') {
+                throw new ResearchProfileError(`${key} must be true or false`);
+            }
+            stages[key as keyof ResearchStages] = value;
+            applied[key as keyof ResearchStages] = value;
+        } else {
+            throw new ResearchProfileError(`Unknown profile override "${key}"`);
+        }
+    }
+
+    return Object.keys(applied).length > 0
+        ? { name: profileName, limits, stages, overrides: applied }
+        : { name: profileName, limits, stages };
+}
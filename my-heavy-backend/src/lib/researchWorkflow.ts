@@ -0,0 +1,333 @@
+/**
+ * researchWorkflow.ts
+ * Runs the 13-step V2 research pipeline (researchPipeline.ts) with AI evaluation (V3)
+ *
+ * Runs independently of any HTTP request - the job worker calls it in the
+ * background so a dropped connection no longer kills the run.
+ *
+ * Each step's output is checkpointed; with `resume` the run restores those
+ * outputs and only executes steps downstream of the first missing checkpoint.
+ *
+ * When a step blames poor upstream input, the orchestrator asks for that upstream
+ * step to be re-run; the engine then re-runs it and all of its dependents.
+ */
+
+import { db } from './firebase';
+import { createOrchestrator, StepLog as OrchestratorLog, StepResult } from './orchestrator';
+import { createPipelineLogger, releasePipelineLogger, PipelineRun, STEP_REGISTRY } from './pipelineLogger';
+import { FinalReport } from './reportAssembler';
+import { saveCheckpoint, loadCheckpoints, deleteCheckpoints } from './checkpointStore';
+import { runPipeline, StepRunner, PipelineStep, RerunRequest } from './pipelineEngine';
+import { throwIfAborted, isCancellation } from './cancellation';
+import { RESEARCH_PIPELINE, ResearchContext, genericEvaluator } from './researchPipeline';
+import { ResearchProfile, resolveResearchProfile } from './researchProfiles';
+import { runInStepContext } from './stepContext';
+import { flushUsage } from './usageTracker';
+import { recordExperimentRun } from './promptRegistry';
+
+// ============ TYPES ============
+
+export interface ResearchWorkflowParams {
+    topic: string;
+    reportId: string;
+    isPublic?: boolean;
+    userId?: string;
+    resume?: boolean;  // Restore checkpointed step outputs instead of re-running them
+    profile?: ResearchProfile;  // Research depth (defaults to the standard profile)
+    signal?: AbortSignal;  // Aborted by POST /v3/runs/:id/cancel
+}
+
+export interface ResearchWorkflowResult {
+    success: boolean;
+    cancelled?: boolean;
+    reportId: string;
+    error?: string;
+    logs: OrchestratorLog[];
+    pipeline: PipelineRun;
+    report?: FinalReport;
+}
+
+// ============ WORKFLOW ============
+
+export async function runResearchWorkflow(params: ResearchWorkflowParams): Promise<ResearchWorkflowResult> {
+    const { topic, reportId, signal } = params;
+    const profile = params.profile || resolveResearchProfile();
+
+    // Checkpoints from a previous attempt (only when resuming)
+    const checkpoints = params.resume ? await loadCheckpoints(reportId) : new Map<string, unknown>();
+    // A step is restored only if all its dependencies were restored too - anything
+    // downstream of a re-executed step must run again on that step's fresh output
+    const restoredSteps = new Set<string>();
+
+    // Create pipeline logger for this run
+    const pipelineLogger = createPipelineLogger(reportId, topic);
+
+    const orchestrator = createOrchestrator({
+        reportId,
+        topic,
+        enableAIDecisions: true,
+        verbose: true
+    });
+
+    const context: ResearchContext = { topic, reportId, profile, signal };
+
+    // On retries, turn the strategy's modifiedInput into the step's new input and log what changed
+    const applyRetryInput = async (
+        step: PipelineStep<ResearchContext>,
+        input: unknown,
+        modifiedInput?: Record<string, unknown>
+    ): Promise<unknown> => {
+        if (!modifiedInput) return input;
+
+        if (!step.applyRetry) {
+            await orchestrator.log(step.key, 'Step does not support retry input changes - retrying with original input', 'warning', { modifiedInput });
+            return input;
+        }
+
+        const adjusted = step.applyRetry(input, modifiedInput, context);
+        if (adjusted.changes.length === 0) {
+            await orchestrator.log(step.key, 'No applicable retry input changes - retrying with original input', 'warning', { modifiedInput });
+        } else {
+            await orchestrator.log(step.key, `Retry input modified: ${adjusted.changes.join('; ')}`, 'info', {
+                modifiedInput,
+                changes: adjusted.changes
+            });
+        }
+        return adjusted.input;
+    };
+
+    // Runs one pipeline step: pipeline logging, checkpoint restore/save, AI evaluation
+    const runLoggedStep: StepRunner<ResearchContext> = async (step, input, rerun) => {
+        throwIfAborted(signal);  // Don't start new steps once the run is cancelled
+        const definition = STEP_REGISTRY[step.key];
+        const meta = step.meta?.(input);
+        // stepKey ties the log entry to STEP_REGISTRY (drives live progress events)
+        const stepId = pipelineLogger.startStep(
+            { name: definition?.name || step.key, order: definition?.order || 0, stepKey: step.key },
+            step.logInput ? step.logInput(input) : input
+        );
+
+        if (!rerun && checkpoints.has(step.key) && step.dependsOn.every(dep => restoredSteps.has(dep))) {
+            const restored = checkpoints.get(step.key);
+            restoredSteps.add(step.key);
+            pipelineLogger.endStep(stepId, restored, { ...meta, restoredFromCheckpoint: true });
+            await orchestrator.log(step.key, 'Restored output from checkpoint', 'info');
+            return restored;
+        }
+        if (checkpoints.size > 0 && !rerun) {
+            await orchestrator.log(step.key, 'No usable checkpoint - executing step', 'info');
+        }
+
+        // Re-run requested downstream: start from the step's retry strategy instead of the original input
+        let baseInput = input;
+        if (rerun) {
+            await orchestrator.log(step.key, `↻ Re-running at the request of ${rerun.requestedBy}`, 'ai_decision', {
+                rerunChain: rerun.round,
+                requestedBy: rerun.requestedBy,
+                reason: rerun.reason
+            });
+            baseInput = await applyRetryInput(step, input, orchestrator.getRerunInput(step.key, step.retryStrategy, rerun.reason));
+        }
+
+        let result: StepResult<unknown>;
+        try {
+            // LLM calls made inside the step are attributed to it (usage, cost)
+            result = await runInStepContext({ runId: reportId, stepId, stepKey: step.key }, () => orchestrator.runStep({
+                name: step.key,
+                execute: async (modifiedInput) => step.run(await applyRetryInput(step, baseInput, modifiedInput), context),
+                evaluate: step.evaluate || genericEvaluator,
+                retryStrategy: step.retryStrategy,
+                canSkip: step.canSkip,
+                signal
+            }));
+        } catch (error) {
+            pipelineLogger.failStep(stepId, error instanceof Error ? error : new Error(String(error)));
+            throw error;
+        }
+
+        if (result.aiDecision?.decision === 'rerun' && result.aiDecision.rerunStep) {
+            pipelineLogger.endStep(stepId, result.data, { ...meta, rerunRequested: result.aiDecision.rerunStep });
+            throw new RerunRequest(step.key, result.aiDecision.rerunStep, result.aiDecision.reason);
+        }
+
+        pipelineLogger.endStep(stepId, result.data, { ...meta, ...(rerun ? { rerunChain: rerun.round } : {}) });
+        await saveCheckpoint(reportId, step.key, result.data);
+        return result.data;
+    };
+
+    // Upstream rerun: everything downstream of the re-run step is stale
+    const onRerun = async (request: RerunRequest, invalidated: string[], round: number) => {
+        invalidated.forEach(key => restoredSteps.delete(key));
+        await deleteCheckpoints(reportId, invalidated);
+        await orchestrator.log('workflow', `↻ Rerun chain ${round}: ${request.requestedBy} → ${request.stepKey} → re-running ${invalidated.join(', ')}`, 'ai_decision', {
+            rerunChain: round,
+            requestedBy: request.requestedBy,
+            rerunStep: request.stepKey,
+            invalidated,
+            reason: request.reason
+        });
+    };
+
+    // Step left out by the research profile - logged as skipped; it doesn't block
+    // downstream checkpoint restores since it would be skipped again on resume
+    const onSkip = async (step: PipelineStep<ResearchContext>) => {
+        const definition = STEP_REGISTRY[step.key];
+        const stepId = pipelineLogger.startStep(
+            { name: definition?.name || step.key, order: definition?.order || 0, stepKey: step.key },
+            { profile: profile.name }
+        );
+        pipelineLogger.skipStep(stepId, `Not part of the ${profile.name} research profile`);
+        restoredSteps.add(step.key);
+        await orchestrator.log(step.key, `Skipped - not part of the ${profile.name} research profile`, 'info');
+    };
+
+    // Cancelled run: record it as 'cancelled' (not failed) - it can still be resumed later
+    const cancelWorkflow = async (): Promise<ResearchWorkflowResult> => {
+        await orchestrator.log('workflow', 'Pipeline cancelled by user', 'warning');
+        const pipelineRun = pipelineLogger.endRun('cancelled');
+        await flushUsage();
+
+        try {
+            await db.collection('reports').doc(reportId).update({
+                status: 'cancelled',
+                error: null,
+                cancelledAt: new Date().toISOString(),
+                pipelineSummary: pipelineRun.summary,
+                modelAttempts: pipelineLogger.getModelAttemptLog()
+            });
+        } catch (e) {
+            console.error('[V3 Orchestrator] Failed to update report status:', e);
+        }
+
+        console.log(`[V3 Orchestrator] ✖ Workflow cancelled for reportId: ${reportId}`);
+        releasePipelineLogger(reportId);
+
+        return {
+            success: false,
+            cancelled: true,
+            reportId,
+            error: 'Cancelled by user',
+            logs: orchestrator.getHistory(),
+            pipeline: pipelineRun
+        };
+    };
+
+    // Tokens and estimated cost go out with pipelineSummary; daily history gets this run's calls now
+    const logUsageSummary = async (pipelineRun: PipelineRun) => {
+        const { llmRequests, llmCacheHits, totalTokens, estimatedCost } = pipelineRun.summary;
+        await orchestrator.log('workflow', `LLM usage: ${llmRequests} request(s), ${llmCacheHits} cache hit(s), ${totalTokens} tokens, ~$${estimatedCost.toFixed(4)}`, 'info', {
+            usageByModel: pipelineRun.summary.usageByModel
+        });
+        await flushUsage();
+    };
+
+    try {
+        await orchestrator.log('workflow', `Starting V2 Pipeline Orchestration for: ${topic}`, 'info');
+        if (params.resume) {
+            await orchestrator.log('workflow', `Resume requested - ${checkpoints.size} checkpointed step(s) available`, 'info');
+        }
+
+        await orchestrator.log('workflow', `Research profile: ${profile.name}${profile.overrides ? ' (customised)' : ''}`, 'info', {
+            limits: profile.limits,
+            stages: profile.stages
+        });
+        // Stored on the report so the run can be resumed with the same profile
+        try {
+            await db.collection('reports').doc(reportId).set({ researchProfile: profile }, { merge: true });
+        } catch (e) {
+            console.error('[V3 Orchestrator] Failed to store research profile:', e);
+        }
+
+        // Independent branches (news / video) run in parallel
+        const outputs = await runPipeline(RESEARCH_PIPELINE, context, runLoggedStep, { onRerun, onSkip });
+        const step13Result = outputs.step13_report;
+        throwIfAborted(signal);  // Cancelled while the last step was finishing - don't mark completed
+
+        // Get the report data from step13
+        const reportData = step13Result || {};
+
+        await orchestrator.log('workflow', 'V2 Pipeline Completed Successfully', 'success');
+        await orchestrator.finalize(true);
+
+        // Finalize pipeline logger
+        const pipelineRun = pipelineLogger.endRun('completed');
+        await logUsageSummary(pipelineRun);
+
+        // Save complete report to Firestore
+        await db.collection('reports').doc(reportId).update({
+            status: 'completed',
+            // Fields the frontend expects
+            summary: reportData?.formatted_report || '',  // Main report content
+            ideas: reportData?.data?.content_ideas ?
+                reportData.data.content_ideas.map((idea: any) =>
+                    `**${idea.platform}**: ${idea.hook}\n${idea.script}\n`
+                ).join('\n---\n') : '',  // Content ideas formatted
+            // Additional data
+            report_id: reportData?.report_id,
+            quality_check: reportData?.quality_check,
+            sources: reportData?.data?.sources,
+            generated_at: reportData?.generated_at,
+            completedAt: new Date().toISOString(),
+            // Pipeline metrics
+            pipelineSummary: pipelineRun.summary,
+            modelAttempts: pipelineLogger.getModelAttemptLog()  // Which model in each chain failed / succeeded
+        });
+
+        // Runs in a prompt experiment report their quality for the variant comparison
+        if (reportData?.quality_check && Object.keys(pipelineRun.summary.promptExperiments).length > 0) {
+            await recordExperimentRun(reportId, pipelineRun.summary.promptExperiments, {
+                grade: reportData.quality_check.grade,
+                metrics: reportData.data?.deep_analysis?.quality_metrics
+            });
+        }
+
+        console.log(`[V3 Orchestrator] ✅ Workflow completed for reportId: ${reportId}`);
+
+        // Keep the run queryable for a while, then evict it
+        releasePipelineLogger(reportId);
+
+        return {
+            success: true,
+            reportId,
+            logs: orchestrator.getHistory(),
+            pipeline: pipelineRun,  // Include full pipeline log
+            report: step13Result || undefined
+        };
+
+    } catch (error) {
+        if (signal?.aborted || isCancellation(error)) {
+            return cancelWorkflow();
+        }
+
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        await orchestrator.log('workflow', `Pipeline Failed: ${errorMsg}`, 'error');
+        await orchestrator.finalize(false);
+
+        // Finalize pipeline logger with failure
+        const pipelineRun = pipelineLogger.endRun('failed');
+        await logUsageSummary(pipelineRun);
+
+        // Update Firestore report status to 'failed'
+        try {
+            await db.collection('reports').doc(reportId).update({
+                status: 'failed',
+                error: errorMsg,
+                pipelineSummary: pipelineRun.summary,
+                modelAttempts: pipelineLogger.getModelAttemptLog()
+            });
+        } catch (e) {
+            console.error('[V3 Orchestrator] Failed to update report status:', e);
+        }
+
+        // Keep the failed run queryable for a while, then evict it
+        releasePipelineLogger(reportId);
+
+        return {
+            success: false,
+            reportId,
+            error: errorMsg,
+            logs: orchestrator.getHistory(),
+            pipeline: pipelineRun  // Include pipeline log even on failure
+        };
+    }
+}
@@ -15,6 +15,7 @@ export interface RetryContext {
     retryCount: number;
     maxRetries: number;
     previousStepResults?: Record<string, unknown>; // For step re-execution
+    currentAlternative?: string; // Alternative function the step is currently using
 }
 
 export interface RetryModification {
@@ -29,62 +30,88 @@ export interface RetryModification {
 // ============ ALTERNATIVE FUNCTION REGISTRY ============
 
 /**
- * Registry of alternative functions per step
- * Each step can have multiple alternative implementations
+ * Registry of alternative functions per pipeline step key
+ * Priority 1 is the step's default; implementations live in alternativeFunctions.ts.
+ * Entries with `unavailable` are planned fallbacks without an implementation yet -
+ * listed so the gap stays visible, never switched to.
  */
 export interface AlternativeFunction {
     name: string;
     description: string;
     priority: number; // Lower = higher priority
+    unavailable?: string; // Why it can't be used yet
 }
 
 export const ALTERNATIVE_FUNCTIONS: Record<string, AlternativeFunction[]> = {
-    videos: [
-        { name: 'searchYouTube', description: 'Primary YouTube search', priority: 1 },
-        { name: 'searchYouTubeAlternate', description: 'YouTube with broader queries', priority: 2 },
-        { name: 'searchVideoEmbeds', description: 'Search for embedded videos in articles', priority: 3 }
-    ],
-    news: [
+    step2_search: [
         { name: 'searchTavily', description: 'Tavily news search', priority: 1 },
-        { name: 'searchSerper', description: 'Serper Google search', priority: 2 },
-        { name: 'searchNewsAPI', description: 'News API fallback', priority: 3 }
+        { name: 'searchSerper', description: 'Serper Google News search', priority: 2 },
+        { name: 'searchNewsAPI', description: 'NewsAPI.org search', priority: 3 }
     ],
-    scrape: [
+    step3_scrape: [
         { name: 'scrapeFirecrawl', description: 'Firecrawl scraper', priority: 1 },
         { name: 'scrapeJina', description: 'Jina AI reader', priority: 2 },
         { name: 'scrapeCheerio', description: 'Basic HTML parsing', priority: 3 }
     ],
-    transcribe: [
+    step7_videos: [
+        { name: 'searchYouTube', description: 'Primary YouTube search', priority: 1 },
+        {
+            name: 'searchYouTubeAlternate', description: 'YouTube with broader queries', priority: 2,
+            unavailable: 'Covered by the step\'s broader_query retries for now'
+        },
+        {
+            name: 'searchVideoEmbeds', description: 'Search for embedded videos in articles', priority: 3,
+            unavailable: 'Needs the scraped article HTML, which step 7 does not receive'
+        }
+    ],
+    step8_transcribe: [
         { name: 'getYouTubeTranscript', description: 'YouTube captions API', priority: 1 },
-        { name: 'transcribeWithWhisper', description: 'Whisper audio transcription', priority: 2 },
+        {
+            name: 'transcribeWithWhisper', description: 'Whisper audio transcription', priority: 2,
+            unavailable: 'No audio download for YouTube videos yet'
+        },
         { name: 'extractFromDescription', description: 'Use video description as fallback', priority: 3 }
     ],
-    report: [
-        { name: 'generateWithGroq', description: 'Groq LLM', priority: 1 },
-        { name: 'generateWithOpenRouter', description: 'OpenRouter fallback', priority: 2 },
-        { name: 'generateWithGemini', description: 'Gemini Flash', priority: 3 }
+    step11_analyze: [
+        {
+            name: 'generateWithGroq', description: 'Groq LLM', priority: 1,
+            unavailable: 'Model fallback runs inside callLLM (task chains in llmProvider.ts / config/models)'
+        },
+        {
+            name: 'generateWithOpenRouter', description: 'OpenRouter fallback', priority: 2,
+            unavailable: 'Model fallback runs inside callLLM (task chains in llmProvider.ts / config/models)'
+        },
+        {
+            name: 'generateWithGemini', description: 'Gemini Flash', priority: 3,
+            unavailable: 'Model fallback runs inside callLLM (task chains in llmProvider.ts / config/models)'
+        }
     ]
 };
 
-export function getNextAlternativeFunction(stepName: string, currentRetry: number): AlternativeFunction | null {
-    const alternatives = ALTERNATIVE_FUNCTIONS[stepName];
-    if (!alternatives || currentRetry >= alternatives.length) {
-        return null;
-    }
-    return alternatives[currentRetry];
+/**
+ * The next usable alternative after `current` (or after the default when the step hasn't switched yet)
+ */
+export function getNextAlternativeFunction(stepName: string, current?: string): AlternativeFunction | null {
+    const alternatives = [...(ALTERNATIVE_FUNCTIONS[stepName] || [])].sort((a, b) => a.priority - b.priority);
+    const currentIndex = current ? alternatives.findIndex(a => a.name === current) : 0;
+    return alternatives.slice(Math.max(currentIndex, 0) + 1).find(a => !a.unavailable) || null;
 }
 
 // ============ STEP DEPENDENCY GRAPH ============
 
 /**
- * Defines which steps depend on which previous steps
- * Used for intelligent step re-execution
+ * Upstream steps (pipeline step keys) worth re-running when a step's result is poor
+ * Used for intelligent step re-execution - closest suspect first
  */
 export const STEP_DEPENDENCIES: Record<string, string[]> = {
-    deepResearch: ['news'],
-    videos: ['news', 'deepResearch'],
-    transcribe: ['videos'],
-    report: ['news', 'deepResearch', 'videos', 'transcribe']
+    step2_search: ['step1_keywords'],
+    step3_scrape: ['step2_search'],
+    step4_structure: ['step3_scrape'],
+    step6_queries: ['step5_summarize'],
+    step7_videos: ['step6_queries', 'step1_keywords'],
+    step8_transcribe: ['step7_videos'],
+    step9_merge: ['step3_scrape', 'step7_videos'],
+    step11_analyze: ['step9_merge']
 };
 
 export interface RerunRecommendation {
@@ -96,10 +123,11 @@ export interface RerunRecommendation {
 export function getRerunRecommendation(
     failedStep: string,
     evaluation: StepEvaluation,
-    previousStepResults?: Record<string, unknown>
+    previousStepResults?: Record<string, unknown>,
+    exclude: string[] = []  // Steps already re-run (prevents loops)
 ): RerunRecommendation {
     // Check if the failure might be due to poor input from a previous step
-    const dependencies = STEP_DEPENDENCIES[failedStep] || [];
+    const dependencies = (STEP_DEPENDENCIES[failedStep] || []).filter(dep => !exclude.includes(dep));
 
     for (const dep of dependencies) {
         const depResult = previousStepResults?.[dep];
@@ -166,14 +194,14 @@ export function broaderQueryStrategy(context: RetryContext): RetryModification {
  * Try a completely different function implementation
  */
 export function alternativeFunctionStrategy(context: RetryContext): RetryModification {
-    const { stepName, retryCount } = context;
+    const { stepName, currentAlternative } = context;
 
-    const nextAlt = getNextAlternativeFunction(stepName, retryCount);
+    const nextAlt = getNextAlternativeFunction(stepName, currentAlternative);
 
     if (nextAlt) {
         return {
             shouldRetry: true,
-            modifiedInput: { useAlternativeFunction: true },
+            modifiedInput: { useAlternativeFunction: true, alternativeFunction: nextAlt.name },
             reason: `Switching to alternative: ${nextAlt.description}`,
             strategy: 'alternative_function',
             alternativeFunction: nextAlt.name
@@ -230,7 +258,7 @@ export function differentSourceStrategy(context: RetryContext): RetryModificatio
     const newSource = sources[sourceIndex];
 
     // Also get the alternative function
-    const altFunc = getNextAlternativeFunction(stepName, retryCount);
+    const altFunc = getNextAlternativeFunction(stepName, context.currentAlternative);
 
     return {
         shouldRetry: sourceIndex < sources.length - 1,
@@ -281,7 +309,7 @@ export type StrategyType =
  * Used when strategy is 'ai_select'
  */
 export function getAIStrategyPrompt(context: RetryContext): string {
-    const alternatives = ALTERNATIVE_FUNCTIONS[context.stepName] || [];
+    const alternatives = (ALTERNATIVE_FUNCTIONS[context.stepName] || []).filter(a => !a.unavailable);
     const dependencies = STEP_DEPENDENCIES[context.stepName] || [];
 
     return `
@@ -341,33 +369,59 @@ export interface StepRetryConfig {
     alternativesEnabled?: boolean; // NEW: Enable alternative functions
 }
 
+// Keyed by STEP_REGISTRY step key (pipelineLogger.ts). A step's own retryStrategy
+// (researchPipeline.ts) takes precedence over the strategy here.
 export const STEP_RETRY_CONFIGS: Record<string, StepRetryConfig> = {
-    news: {
-        strategy: 'ai_select', // AI decides
+    step1_keywords: {
+        strategy: 'broader_query',
+        maxRetries: 2,
+        canSkip: false
+    },
+
+    step2_search: {
+        strategy: 'broader_query',
         maxRetries: 3,
         canSkip: false,
-        useAISelection: true,
-        alternativesEnabled: true
+        alternativesEnabled: true  // Empty Tavily results → Serper before broadening the query
     },
 
-    deepResearch: {
-        strategy: 'different_source',
+    step3_scrape: {
+        strategy: 'alternative_function',
         maxRetries: 2,
         canSkip: true,
-        fallbackBehavior: 'empty_string',
+        fallbackBehavior: 'empty_array',
         alternativesEnabled: true
     },
 
-    videos: {
-        strategy: 'ai_select', // AI decides (most complex step)
+    step4_structure: {
+        strategy: 'skip',
+        maxRetries: 1,
+        canSkip: true,
+        fallbackBehavior: 'empty_array'
+    },
+
+    step5_summarize: {
+        strategy: 'skip',
+        maxRetries: 1,
+        canSkip: true,
+        fallbackBehavior: 'empty_array'
+    },
+
+    step6_queries: {
+        strategy: 'broader_query',
+        maxRetries: 2,
+        canSkip: true,
+        fallbackBehavior: 'empty_array'
+    },
+
+    step7_videos: {
+        strategy: 'broader_query',
         maxRetries: 3,
         canSkip: true,
-        fallbackBehavior: 'empty_array',
-        useAISelection: true,
-        alternativesEnabled: true
+        fallbackBehavior: 'empty_array'
     },
 
-    transcribe: {
+    step8_transcribe: {
         strategy: 'alternative_function',
         maxRetries: 2,
         canSkip: true,
@@ -375,12 +429,36 @@ export const STEP_RETRY_CONFIGS: Record<string, StepRetryConfig> = {
         alternativesEnabled: true
     },
 
-    report: {
-        strategy: 'ai_select',
-        maxRetries: 3,
-        canSkip: false,
-        useAISelection: true,
-        alternativesEnabled: true
+    step9_merge: {
+        strategy: 'rerun_earlier_step',
+        maxRetries: 1,
+        canSkip: false
+    },
+
+    step10_normalize: {
+        strategy: 'skip',
+        maxRetries: 1,
+        canSkip: true,
+        fallbackBehavior: 'continue'
+    },
+
+    step11_analyze: {
+        strategy: 'rerun_earlier_step',
+        maxRetries: 1,
+        canSkip: false
+    },
+
+    step12_content: {
+        strategy: 'skip',
+        maxRetries: 1,
+        canSkip: true,
+        fallbackBehavior: 'empty_array'
+    },
+
+    step13_report: {
+        strategy: 'none',
+        maxRetries: 1,
+        canSkip: false
     }
 };
 
@@ -0,0 +1,75 @@
+/**
+ * runEvents.ts
+ * Per-run event bus for live pipeline progress
+ *
+ * PipelineLogger and the orchestrator publish events here as they happen;
+ * GET /v3/runs/:id/events relays them to the browser over Server-Sent Events.
+ * A short backlog is kept per run so a client that connects late (queued job,
+ * page refresh) still catches up on what already happened.
+ */
+
+import { EventEmitter } from 'events';
+
+// ============ TYPES ============
+
+export type RunEventType =
+    | 'step_start'
+    | 'step_end'
+    | 'step_fail'
+    | 'step_skip'
+    | 'model_attempt'
+    | 'ai_decision'
+    | 'run_end';
+
+export interface RunEvent {
+    type: RunEventType;
+    runId: string;
+    timestamp: number;
+    stepId?: string;
+    stepKey?: string;
+    stepName?: string;
+    progress?: number;  // 0-100, share of STEP_REGISTRY steps finished or skipped
+    data?: Record<string, unknown>;
+}
+
+export type RunEventListener = (event: RunEvent) => void;
+
+// ============ STATE ============
+
+const MAX_BUFFERED_EVENTS = 200;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);  // One listener per open SSE connection
+
+const recentEvents = new Map<string, RunEvent[]>();
+
+// ============ PUBLIC API ============
+
+export function publishRunEvent(event: Omit<RunEvent, 'timestamp'>): void {
+    const fullEvent: RunEvent = { ...event, timestamp: Date.now() };
+
+    const buffer = recentEvents.get(event.runId) || [];
+    buffer.push(fullEvent);
+    if (buffer.length > MAX_BUFFERED_EVENTS) buffer.shift();
+    recentEvents.set(event.runId, buffer);
+
+    emitter.emit(event.runId, fullEvent);
+}
+
+/**
+ * Listen to a run's events. Returns an unsubscribe function.
+ */
+export function subscribeToRun(runId: string, listener: RunEventListener): () => void {
+    emitter.on(runId, listener);
+    return () => {
+        emitter.off(runId, listener);
+    };
+}
+
+export function getRecentRunEvents(runId: string): RunEvent[] {
+    return [...(recentEvents.get(runId) || [])];
+}
+
+export function clearRunEvents(runId: string): void {
+    recentEvents.delete(runId);
+}
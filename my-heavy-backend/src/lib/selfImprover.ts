@@ -10,7 +10,6 @@
 
 import { callLLM, TaskType } from './llmProvider';
 import { db } from './firebase';
-import { FieldValue } from 'firebase-admin/firestore';
 import { StepEvaluation, StepLog } from './orchestrator';
 
 // ============ TYPES ============
@@ -165,7 +164,7 @@ export async function logSuggestionToReport(
 ): Promise<void> {
     try {
         await db.collection('reports').doc(reportId).update({
-            aiSuggestions: FieldValue.arrayUnion({
+            aiSuggestions: db.arrayUnion({
                 id: suggestion.id,
                 timestamp: suggestion.timestamp,
                 title: suggestion.title,
@@ -0,0 +1,29 @@
+/**
+ * stepContext.ts
+ * Which run and pipeline step the current async call chain belongs to
+ *
+ * researchWorkflow enters a context around each step it executes; anything
+ * awaited inside it (callLLM, step services...) can read the run/step without
+ * the IDs being threaded through every function signature.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface StepContext {
+    runId: string;    // reportId - also the PipelineLogger key
+    stepId: string;   // PipelineLogger step ID ("step_5_a1b2c3d4")
+    stepKey: string;  // STEP_REGISTRY key ("step5_summarize")
+}
+
+const storage = new AsyncLocalStorage<StepContext>();
+
+export function runInStepContext<T>(context: StepContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
+
+/**
+ * Context of the step currently executing, undefined outside a pipeline step
+ */
+export function getStepContext(): StepContext | undefined {
+    return storage.getStore();
+}
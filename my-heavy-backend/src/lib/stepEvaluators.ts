@@ -1,16 +1,103 @@
 /**
  * stepEvaluators.ts
  * Step-specific quality evaluators for the workflow orchestrator
+ *
+ * Thresholds are configurable: defaults below, overridden per step via the
+ * EVALUATOR_THRESHOLDS env var (JSON, e.g. {"scrape":{"minArticleLength":800}})
+ * or setEvaluatorThresholds() at runtime.
  */
 
 import { StepEvaluation, StepQuality } from './orchestrator';
 
+// ============ THRESHOLDS ============
+
+type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface EvaluatorThresholds {
+    keywords: { good: number; partial: number };
+    search: { good: number; partial: number };
+    scrape: { minArticleLength: number; goodRate: number };
+    structure: { minHeadlineLength: number; goodRate: number };
+    summarize: { goodRate: number };
+    queries: { good: number };
+    videos: { good: number };
+    transcribe: { minTranscriptLength: number; goodCaptionRate: number };
+    classify: { good: number };
+    merge: { goodSources: number; goodKeyFactRate: number };
+    normalize: { good: number };
+    analysis: { goodSectionRate: number; minGrade: Grade };
+    contentIdeas: { good: number };
+    report: { goodGrade: Grade; minGrade: Grade };
+}
+
+export const DEFAULT_EVALUATOR_THRESHOLDS: EvaluatorThresholds = {
+    keywords: { good: 5, partial: 3 },
+    search: { good: 10, partial: 5 },
+    scrape: { minArticleLength: 500, goodRate: 80 },       // % of URLs scraped with usable content
+    structure: { minHeadlineLength: 5, goodRate: 80 },
+    summarize: { goodRate: 80 },
+    queries: { good: 3 },
+    videos: { good: 5 },
+    transcribe: { minTranscriptLength: 100, goodCaptionRate: 80 },  // % of videos with captions
+    classify: { good: 3 },
+    merge: { goodSources: 5, goodKeyFactRate: 50 },        // % of sources with key facts
+    normalize: { good: 5 },
+    analysis: { goodSectionRate: 80, minGrade: 'C' },       // % of analysis sections not empty
+    contentIdeas: { good: 5 },
+    report: { goodGrade: 'B', minGrade: 'C' }
+};
+
+function loadThresholdOverrides(): Partial<Record<keyof EvaluatorThresholds, object>> {
+    const raw = process.env.EVALUATOR_THRESHOLDS;
+    if (!raw) return {};
+    try {
+        return JSON.parse(raw);
+    } catch (e) {
+        console.warn('[StepEvaluators] Ignoring invalid EVALUATOR_THRESHOLDS JSON:', e);
+        return {};
+    }
+}
+
+function mergeThresholds(
+    base: EvaluatorThresholds,
+    overrides: Partial<Record<keyof EvaluatorThresholds, object>>
+): EvaluatorThresholds {
+    const merged = { ...base };
+    for (const key of Object.keys(overrides) as (keyof EvaluatorThresholds)[]) {
+        if (!(key in base)) {
+            console.warn(`[StepEvaluators] Unknown threshold group "${key}" - ignored`);
+            continue;
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (merged as any)[key] = { ...base[key], ...overrides[key] };
+    }
+    return merged;
+}
+
+let thresholds = mergeThresholds(DEFAULT_EVALUATOR_THRESHOLDS, loadThresholdOverrides());
+
+export function getEvaluatorThresholds(): EvaluatorThresholds {
+    return thresholds;
+}
+
+/**
+ * Override thresholds for one or more steps (unspecified values keep their current setting)
+ */
+export function setEvaluatorThresholds(overrides: { [K in keyof EvaluatorThresholds]?: Partial<EvaluatorThresholds[K]> }): void {
+    thresholds = mergeThresholds(thresholds, overrides);
+}
+
 // ============ HELPER FUNCTIONS ============
 
-function getQuality(score: number): StepQuality {
-    if (score >= 80) return 'good';
-    if (score >= 40) return 'partial';
-    if (score > 0) return 'partial';
+const GRADE_SCORES: Record<string, number> = { 'A': 100, 'B': 80, 'C': 60, 'D': 40, 'F': 0 };
+
+function gradeScore(grade: string): number {
+    return GRADE_SCORES[grade] ?? 0;
+}
+
+function getQuality(rate: number, goodRate: number): StepQuality {
+    if (rate >= goodRate) return 'good';
+    if (rate > 0) return 'partial';
     return 'empty';
 }
 
@@ -21,13 +108,14 @@ interface KeywordsResult {
 }
 
 export function evaluateKeywords(result: KeywordsResult): StepEvaluation {
+    const { good, partial } = thresholds.keywords;
     const keywords = result?.keywords || [];
     const count = keywords.length;
 
-    if (count >= 5) {
+    if (count >= good) {
         return { quality: 'good', metrics: { count } };
     }
-    if (count >= 3) {
+    if (count >= partial) {
         return { quality: 'partial', issue: 'Fewer keywords than ideal', metrics: { count } };
     }
     if (count > 0) {
@@ -43,13 +131,14 @@ interface SearchResult {
 }
 
 export function evaluateSearch(result: SearchResult): StepEvaluation {
+    const { good, partial } = thresholds.search;
     const results = result?.results || [];
     const count = results.length;
 
-    if (count >= 10) {
+    if (count >= good) {
         return { quality: 'good', metrics: { count } };
     }
-    if (count >= 5) {
+    if (count >= partial) {
         return { quality: 'partial', issue: 'Fewer search results than ideal', metrics: { count } };
     }
     if (count > 0) {
@@ -65,13 +154,16 @@ interface ScrapeResult {
 }
 
 export function evaluateScrape(result: ScrapeResult): StepEvaluation {
+    const { minArticleLength, goodRate } = thresholds.scrape;
     const results = result?.results || [];
-    const successful = results.filter(r => r.status === 'success' && r.markdown && r.markdown.length > 500);
+    const successful = results.filter(r => r.status === 'success' && r.markdown && r.markdown.length > minArticleLength);
     const successRate = results.length > 0 ? (successful.length / results.length) * 100 : 0;
 
     return {
-        quality: getQuality(successRate),
-        issue: successRate < 80 ? `${100 - Math.round(successRate)}% of scrapes failed or empty` : undefined,
+        quality: getQuality(successRate, goodRate),
+        issue: successRate < goodRate
+            ? `Only ${successful.length}/${results.length} article(s) scraped with over ${minArticleLength} characters`
+            : undefined,
         metrics: { total: results.length, successful: successful.length, successRate: Math.round(successRate) }
     };
 }
@@ -88,13 +180,14 @@ interface StructureResult {
 }
 
 export function evaluateStructure(result: StructureResult): StepEvaluation {
+    const { minHeadlineLength, goodRate } = thresholds.structure;
     const articles = result?.articles || [];
-    const valid = articles.filter(a => a.headline && a.headline.length > 5);
+    const valid = articles.filter(a => a.headline && a.headline.length > minHeadlineLength);
     const validRate = articles.length > 0 ? (valid.length / articles.length) * 100 : 0;
 
     return {
-        quality: getQuality(validRate),
-        issue: validRate < 80 ? `${articles.length - valid.length} article(s) failed to structure` : undefined,
+        quality: getQuality(validRate, goodRate),
+        issue: validRate < goodRate ? `${articles.length - valid.length} article(s) failed to structure` : undefined,
         metrics: { total: articles.length, valid: valid.length }
     };
 }
@@ -118,10 +211,11 @@ export function evaluateSummarize(result: SummarizeResult): StepEvaluation {
         a.summary_bullets.length > 0
     );
     const validRate = articles.length > 0 ? (valid.length / articles.length) * 100 : 0;
+    const { goodRate } = thresholds.summarize;
 
     return {
-        quality: getQuality(validRate),
-        issue: validRate < 80 ? `${articles.length - valid.length} article(s) failed to summarize` : undefined,
+        quality: getQuality(validRate, goodRate),
+        issue: validRate < goodRate ? `${articles.length - valid.length} article(s) failed to summarize` : undefined,
         metrics: { total: articles.length, summarized: valid.length }
     };
 }
@@ -136,7 +230,7 @@ export function evaluateQueries(result: QueriesResult): StepEvaluation {
     const queries = result?.queries || [];
     const count = queries.length;
 
-    if (count >= 3) {
+    if (count >= thresholds.queries.good) {
         return { quality: 'good', metrics: { count } };
     }
     if (count > 0) {
@@ -160,7 +254,7 @@ export function evaluateVideos(result: VideosResult): StepEvaluation {
     const videos = result?.videos || [];
     const count = videos.length;
 
-    if (count >= 5) {
+    if (count >= thresholds.videos.good) {
         return { quality: 'good', metrics: { count } };
     }
     if (count >= 1) {
@@ -174,6 +268,7 @@ export function evaluateVideos(result: VideosResult): StepEvaluation {
 interface TranscribedVideo {
     id: string;
     transcript?: string;
+    transcript_source?: 'captions' | 'description' | 'unavailable';
 }
 
 interface TranscribeResult {
@@ -181,13 +276,17 @@ interface TranscribeResult {
 }
 
 export function evaluateTranscribe(result: TranscribeResult): StepEvaluation {
+    const { minTranscriptLength, goodCaptionRate } = thresholds.transcribe;
     const videos = result?.videos || [];
-    const withTranscript = videos.filter(v => v.transcript && v.transcript.length > 100);
+    // "Transcript unavailable." placeholders don't count as captions
+    const withTranscript = videos.filter(v =>
+        v.transcript_source !== 'unavailable' && v.transcript && v.transcript.length > minTranscriptLength
+    );
     const successRate = videos.length > 0 ? (withTranscript.length / videos.length) * 100 : 0;
 
     return {
-        quality: getQuality(successRate),
-        issue: successRate < 80 ? `${videos.length - withTranscript.length} video(s) have no transcript` : undefined,
+        quality: getQuality(successRate, goodCaptionRate),
+        issue: successRate < goodCaptionRate ? `${videos.length - withTranscript.length} video(s) have no captions` : undefined,
         metrics: { total: videos.length, transcribed: withTranscript.length, successRate: Math.round(successRate) }
     };
 }
@@ -208,7 +307,7 @@ export function evaluateClassify(result: ClassifyResult): StepEvaluation {
     const kept = result?.kept_videos?.length || 0;
     const total = result?.stats?.total || 0;
 
-    if (kept >= 3) {
+    if (kept >= thresholds.classify.good) {
         return { quality: 'good', metrics: { kept, total } };
     }
     if (kept >= 1) {
@@ -217,6 +316,46 @@ export function evaluateClassify(result: ClassifyResult): StepEvaluation {
     return { quality: 'empty', issue: 'No videos passed classification', metrics: { kept: 0, total } };
 }
 
+// ============ STEP 9: MERGE ============
+
+interface MergedSource {
+    id: string;
+    type: string;
+    key_facts?: string[];
+}
+
+interface MergeResult {
+    sources?: MergedSource[];
+}
+
+export function evaluateMerge(result: MergeResult): StepEvaluation {
+    const { goodSources, goodKeyFactRate } = thresholds.merge;
+    const sources = result?.sources || [];
+    const count = sources.length;
+    const withFacts = sources.filter(s => s.key_facts && s.key_facts.length > 0).length;
+    const keyFactRate = count > 0 ? (withFacts / count) * 100 : 0;
+    const metrics = {
+        count,
+        articles: sources.filter(s => s.type === 'article').length,
+        videos: sources.filter(s => s.type === 'video').length,
+        keyFactRate: Math.round(keyFactRate)
+    };
+
+    if (count === 0) {
+        return { quality: 'empty', issue: 'No sources in knowledge base', metrics };
+    }
+    if (count >= goodSources && keyFactRate >= goodKeyFactRate) {
+        return { quality: 'good', metrics };
+    }
+    return {
+        quality: 'partial',
+        issue: count < goodSources
+            ? `Only ${count} source(s) merged`
+            : `Only ${withFacts}/${count} source(s) have key facts`,
+        metrics
+    };
+}
+
 // ============ STEP 10: NORMALIZE ============
 
 interface NormalizedSource {
@@ -232,7 +371,7 @@ export function evaluateNormalize(result: NormalizeResult): StepEvaluation {
     const sources = result?.sources || [];
     const count = sources.length;
 
-    if (count >= 5) {
+    if (count >= thresholds.normalize.good) {
         return { quality: 'good', metrics: { count } };
     }
     if (count >= 1) {
@@ -245,23 +384,55 @@ export function evaluateNormalize(result: NormalizeResult): StepEvaluation {
 
 interface AnalysisResult {
     topic?: string;
+    key_facts?: unknown[];
+    geopolitical_analysis?: { summary?: string; key_actors?: unknown[] };
+    islamic_perspective?: { ethical_considerations?: unknown[]; relevant_principles?: unknown[] };
+    risk_matrix?: unknown[];
+    predictions?: unknown[];
+    recommendations?: unknown[];
+    humanitarian_impact?: { affected_populations?: unknown[]; immediate_needs?: unknown[] };
     quality_metrics?: {
         confidence_grade?: string;
-        source_diversity_score?: number;
     };
+    skipped_sections?: string[];  // Not generated on purpose (quick profile) - not counted as empty
 }
 
+const hasItems = (value?: unknown[]) => Array.isArray(value) && value.length > 0;
+
+// Each analysis stage fills one section - a failed stage leaves it empty
+const ANALYSIS_SECTIONS: Record<string, (r: AnalysisResult) => boolean> = {
+    key_facts: r => hasItems(r.key_facts),
+    geopolitical_analysis: r => !!r.geopolitical_analysis?.summary || hasItems(r.geopolitical_analysis?.key_actors),
+    islamic_perspective: r => hasItems(r.islamic_perspective?.ethical_considerations) || hasItems(r.islamic_perspective?.relevant_principles),
+    risk_matrix: r => hasItems(r.risk_matrix),
+    predictions: r => hasItems(r.predictions),
+    recommendations: r => hasItems(r.recommendations),
+    humanitarian_impact: r => hasItems(r.humanitarian_impact?.affected_populations) || hasItems(r.humanitarian_impact?.immediate_needs)
+};
+
 export function evaluateAnalysis(result: AnalysisResult): StepEvaluation {
-    const grade = result?.quality_metrics?.confidence_grade || 'F';
-    const diversity = result?.quality_metrics?.source_diversity_score || 0;
+    const { goodSectionRate, minGrade } = thresholds.analysis;
+    const skipped = new Set(result?.skipped_sections || []);
+    const sectionNames = Object.keys(ANALYSIS_SECTIONS).filter(name => !skipped.has(name));
+    const emptySections = sectionNames.filter(name => !ANALYSIS_SECTIONS[name](result || {}));
+    const filled = sectionNames.length - emptySections.length;
+    const sectionRate = (filled / sectionNames.length) * 100;
 
-    const gradeScore = { 'A': 100, 'B': 80, 'C': 60, 'D': 40, 'F': 0 }[grade] || 0;
-    const avgScore = (gradeScore + diversity * 100) / 2;
+    const grade = result?.quality_metrics?.confidence_grade || 'F';
+    const metrics = { grade, sectionsFilled: filled, sectionsTotal: sectionNames.length };
 
+    if (filled === 0) {
+        return { quality: 'empty', issue: 'All analysis sections are empty', metrics };
+    }
+    if (sectionRate >= goodSectionRate && gradeScore(grade) >= gradeScore(minGrade)) {
+        return { quality: 'good', metrics };
+    }
     return {
-        quality: getQuality(avgScore),
-        issue: avgScore < 60 ? `Analysis quality: ${grade}, diversity: ${Math.round(diversity * 100)}%` : undefined,
-        metrics: { grade, diversityScore: Math.round(diversity * 100) }
+        quality: 'partial',
+        issue: emptySections.length > 0
+            ? `Empty analysis section(s): ${emptySections.join(', ')}`
+            : `Analysis confidence grade ${grade} below ${minGrade}`,
+        metrics
     };
 }
 
@@ -276,7 +447,7 @@ interface ContentIdeasResult {
 export function evaluateContentIdeas(result: ContentIdeasResult): StepEvaluation {
     const count = result?.stats?.total_ideas || 0;
 
-    if (count >= 5) {
+    if (count >= thresholds.contentIdeas.good) {
         return { quality: 'good', metrics: { count } };
     }
     if (count >= 1) {
@@ -299,12 +470,13 @@ export function evaluateReport(result: ReportResult): StepEvaluation {
         return { quality: 'error', issue: 'Report not generated' };
     }
 
+    const { goodGrade, minGrade } = thresholds.report;
     const grade = result?.quality_check?.grade || 'C';
-    const gradeScore = { 'A': 100, 'B': 80, 'C': 60, 'D': 40, 'F': 0 }[grade] || 0;
+    const score = gradeScore(grade);
 
     return {
-        quality: getQuality(gradeScore),
-        issue: gradeScore < 60 ? `Report quality grade: ${grade}` : undefined,
+        quality: getQuality(score, gradeScore(goodGrade)),
+        issue: score < gradeScore(minGrade) ? `Report quality grade: ${grade}` : undefined,
         metrics: { reportId: result.report_id, grade }
     };
 }
@@ -368,6 +540,7 @@ export const stepEvaluators = {
     videos: evaluateVideos,
     transcribe: evaluateTranscribe,
     classify: evaluateClassify,
+    merge: evaluateMerge,
     normalize: evaluateNormalize,
     analysis: evaluateAnalysis,
     contentIdeas: evaluateContentIdeas,
@@ -0,0 +1,362 @@
+/**
+ * stepServices.ts
+ * Typed service layer for the V2 pipeline steps
+ *
+ * Each step is a plain async function with typed input/output. The /v2/* routes
+ * (registered once per step from STEP_SERVICES) and the orchestrated pipeline
+ * both call these directly - no HTTP self-calls, no JSON round-trip of large payloads.
+ */
+
+import { generateMetaKeywordsV2 } from './groq';
+import { SearchResult } from './tavily';
+import { ScrapeResult } from './firecrawl';
+import { structureArticleGroq, StructuredArticle } from './groqStructure';
+import { summarizeArticleGroq, SummarizedArticle } from './groqSummarize';
+import { generateVideoQueriesV2 } from './groqQueryGenerator';
+import { searchYouTubeV2, VideoResult } from './youtubeSearch';
+import { TranscribedVideo } from './groqTranscribe';
+import { verifyVideosGroq, VerifiedVideo } from './groqVerify';
+import { classifyVideosGroq, filterKeptVideos, ClassifiedVideo } from './groqClassify';
+import { mergeKnowledgeBase, enrichSourcesWithGroq, ArticleInput, VideoInput, UnifiedSource, MergeOutput } from './knowledgeBase';
+import { normalizeSources, RawArticle, RawVideo, CanonicalSource } from './groqNormalize';
+import { runDeepAnalysis, DeepAnalysis } from './groqDeepAnalysis';
+import { generateContentIdeas, ContentIdeasResult } from './groqContentIdeas';
+import { assembleReport, FinalReport } from './reportAssembler';
+import { SCRAPE_FUNCTIONS, SEARCH_FUNCTIONS, TRANSCRIBE_FUNCTIONS } from './alternativeFunctions';
+import { SearchProvider, ScrapeProvider, VideoProvider, getProviderOverride } from './providers';
+
+// ============ ERRORS ============
+
+/**
+ * Invalid step input - routes answer 400 instead of 500
+ */
+export class StepInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StepInputError';
+    }
+}
+
+function isNonEmptyArray(value: unknown): value is unknown[] {
+    return Array.isArray(value) && value.length > 0;
+}
+
+// Look up a named implementation (alternativeFunctions.ts), or the step's default
+function pickImplementation<T>(registry: Record<string, T>, name: string | undefined, defaultName: string): T {
+    const implementation = registry[name || defaultName];
+    if (!implementation) {
+        throw new StepInputError(`Unknown alternative function "${name}" (available: ${Object.keys(registry).join(', ')})`);
+    }
+    return implementation;
+}
+
+// ============ PROVIDERS ============
+// Live implementations of the providers.ts interfaces - replaced when a provider is injected
+
+const liveSearch: SearchProvider = {
+    search: (keywords, { alternative, signal } = {}) =>
+        pickImplementation(SEARCH_FUNCTIONS, alternative, 'searchTavily')(keywords, signal)
+};
+
+const liveScrape: ScrapeProvider = {
+    scrape: (urls, { alternative, signal } = {}) =>
+        pickImplementation(SCRAPE_FUNCTIONS, alternative, 'scrapeFirecrawl')(urls, signal)
+};
+
+const liveVideo: VideoProvider = {
+    search: (queries, options) => searchYouTubeV2(queries, options),
+    transcribe: (videos, { alternative, signal } = {}) =>
+        pickImplementation(TRANSCRIBE_FUNCTIONS, alternative, 'getYouTubeTranscript')(videos, signal)
+};
+
+// ============ TYPES ============
+
+// Passed by the orchestrated pipeline; the /v2/* routes run without a signal
+export interface StepRunOptions {
+    signal?: AbortSignal;  // Run cancellation (POST /v3/runs/:id/cancel)
+}
+
+export interface KeywordsStepInput { topic: string }
+export interface KeywordsStepOutput { keywords: string[] }
+
+// `alternative` names an ALTERNATIVE_FUNCTIONS implementation to use instead of the default
+export interface SearchStepInput { keywords: string[]; alternative?: string }
+export interface SearchStepOutput { results: SearchResult[] }
+
+export interface ScrapeStepInput { urls: string[]; alternative?: string }
+export interface ScrapeStepOutput { results: ScrapeResult[] }
+
+export interface StructureStepInput { articles: { markdown: string; url: string }[] }
+export interface StructureStepOutput { articles: StructuredArticle[] }
+
+export interface SummarizeStepInput { articles: StructuredArticle[] }
+export interface SummarizeStepOutput { articles: SummarizedArticle[] }
+
+export interface QueriesStepInput { topic: string; articles?: SummarizedArticle[]; keywords?: string[] }
+export interface QueriesStepOutput { queries: string[] }
+
+export interface VideosStepInput { queries: string[]; maxQueries?: number; resultsPerQuery?: number }
+export interface VideosStepOutput { videos: VideoResult[] }
+
+export interface TranscribeStepInput { videos: VideoResult[]; alternative?: string }
+export interface TranscribeStepOutput { videos: TranscribedVideo[] }
+
+export interface VerifyStepInput { topic: string; videos: TranscribedVideo[]; articles: SummarizedArticle[] }
+export interface VerifyStepOutput { videos: VerifiedVideo[] }
+
+export interface ClassifyStepInput { topic: string; videos: VideoResult[]; threshold?: number }
+export interface ClassifyStepOutput {
+    all_videos: ClassifiedVideo[];
+    kept_videos: ClassifiedVideo[];
+    stats: { total: number; kept: number; rejected: number };
+}
+
+export interface MergeStepInput { topic?: string; articles?: ArticleInput[]; videos?: VideoInput[]; enrich?: boolean }
+export interface MergeStepOutput { sources: UnifiedSource[]; stats: MergeOutput['stats'] }
+
+export interface NormalizeStepInput { topic: string; articles?: RawArticle[]; videos?: RawVideo[] }
+export type NormalizeStepOutput = Awaited<ReturnType<typeof normalizeSources>>;
+
+export interface AnalyzeStepInput { topic: string; sources: CanonicalSource[]; maxFactSources?: number; fullAnalysis?: boolean }
+export type AnalyzeStepOutput = DeepAnalysis;
+
+export interface ContentStepInput { analysis: DeepAnalysis }
+export type ContentStepOutput = ContentIdeasResult;
+
+export interface ReportStepInput {
+    topic: string;
+    sources: CanonicalSource[];
+    deep_analysis: DeepAnalysis;
+    content_ideas: ContentIdeasResult;
+    executive_summary?: string;
+}
+export type ReportStepOutput = FinalReport;
+
+// ============ STEP 1-5: NEWS ============
+
+export async function runKeywordsStep(input: KeywordsStepInput): Promise<KeywordsStepOutput> {
+    if (!input?.topic) throw new StepInputError("Topic is required");
+
+    const keywords = await generateMetaKeywordsV2(input.topic);
+    return { keywords };
+}
+
+export async function runSearchStep(input: SearchStepInput, options: StepRunOptions = {}): Promise<SearchStepOutput> {
+    if (!isNonEmptyArray(input?.keywords)) throw new StepInputError("Keywords array is required");
+
+    const search = getProviderOverride('search') || liveSearch;
+    const results = await search.search(input.keywords, { alternative: input.alternative, signal: options.signal });
+    return { results };
+}
+
+export async function runScrapeStep(input: ScrapeStepInput, options: StepRunOptions = {}): Promise<ScrapeStepOutput> {
+    if (!isNonEmptyArray(input?.urls)) throw new StepInputError("URLs array is required");
+
+    const scrape = getProviderOverride('scrape') || liveScrape;
+    const results = await scrape.scrape(input.urls, { alternative: input.alternative, signal: options.signal });
+    return { results };
+}
+
+export async function runStructureStep(input: StructureStepInput): Promise<StructureStepOutput> {
+    if (!isNonEmptyArray(input?.articles)) throw new StepInputError("Articles array is required");
+
+    console.log(`Structuring ${input.articles.length} articles via Groq...`);
+
+    // Process in parallel
+    const articles = await Promise.all(
+        input.articles.map((art, index) => structureArticleGroq(art.markdown, art.url, index + 1))
+    );
+    return { articles };
+}
+
+export async function runSummarizeStep(input: SummarizeStepInput): Promise<SummarizeStepOutput> {
+    if (!isNonEmptyArray(input?.articles)) throw new StepInputError("Articles array is required");
+
+    console.log(`Summarizing ${input.articles.length} articles via Groq...`);
+
+    // Process in parallel
+    const articles = await Promise.all(input.articles.map((art) => summarizeArticleGroq(art)));
+    return { articles };
+}
+
+// ============ STEP 6-8: VIDEOS ============
+
+export async function runQueriesStep(input: QueriesStepInput): Promise<QueriesStepOutput> {
+    const { topic, articles = [], keywords = [] } = input || {};
+    if (!topic || !Array.isArray(articles) || !Array.isArray(keywords)) {
+        throw new StepInputError("Topic is required (articles and keywords must be arrays)");
+    }
+
+    console.log(`Generating video queries for "${topic}" based on ${articles.length} articles, ${keywords.length} keywords...`);
+
+    const queries = await generateVideoQueriesV2(topic, articles, keywords);
+    return { queries };
+}
+
+export async function runVideosStep(input: VideosStepInput, options: StepRunOptions = {}): Promise<VideosStepOutput> {
+    if (!isNonEmptyArray(input?.queries)) throw new StepInputError("Queries array is required");
+
+    console.log(`Searching YouTube for ${input.queries.length} queries...`);
+
+    const video = getProviderOverride('video') || liveVideo;
+    const videos = await video.search(input.queries, {
+        maxQueries: input.maxQueries,
+        resultsPerQuery: input.resultsPerQuery,
+        signal: options.signal
+    });
+    return { videos };
+}
+
+export async function runTranscribeStep(input: TranscribeStepInput, options: StepRunOptions = {}): Promise<TranscribeStepOutput> {
+    if (!Array.isArray(input?.videos)) throw new StepInputError("Videos array is required");
+
+    console.log(`Transcribing ${input.videos.length} videos...`);
+
+    const video = getProviderOverride('video') || liveVideo;
+    const videos = await video.transcribe(input.videos, { alternative: input.alternative, signal: options.signal });
+    return { videos };
+}
+
+// ============ STEP 9: VERIFY / CLASSIFY / MERGE ============
+
+export async function runVerifyStep(input: VerifyStepInput): Promise<VerifyStepOutput> {
+    const { topic, videos, articles } = input || {};
+    if (!topic || !videos || !articles) throw new StepInputError("Topic, Videos, and Articles are required");
+
+    console.log(`Verifying ${videos.length} videos against ${articles.length} articles...`);
+
+    // Consolidate article context
+    const articleContext = articles.map(a =>
+        `HEADLINE: ${a.headline_summary}\nBULLETS:\n${a.summary_bullets.join("\n")}`
+    ).join("\n\n");
+
+    const verifiedVideos = await verifyVideosGroq(topic, videos, articleContext);
+
+    console.log(`Verification Complete. Kept ${verifiedVideos.length}/${videos.length} videos.`);
+    return { videos: verifiedVideos };
+}
+
+export async function runClassifyStep(input: ClassifyStepInput): Promise<ClassifyStepOutput> {
+    const { topic, videos, threshold } = input || {};
+    if (!topic || !Array.isArray(videos)) throw new StepInputError("Topic and Videos array are required");
+
+    console.log(`Classifying ${videos.length} videos for topic "${topic}"...`);
+
+    const classifiedVideos = await classifyVideosGroq(topic, videos);
+    const keptVideos = filterKeptVideos(classifiedVideos, threshold || 50);
+
+    console.log(`Classification Complete. Kept ${keptVideos.length}/${videos.length} videos.`);
+
+    return {
+        all_videos: classifiedVideos,
+        kept_videos: keptVideos,
+        stats: {
+            total: classifiedVideos.length,
+            kept: keptVideos.length,
+            rejected: classifiedVideos.length - keptVideos.length
+        }
+    };
+}
+
+export async function runMergeStep(input: MergeStepInput): Promise<MergeStepOutput> {
+    const { topic, articles, videos, enrich } = input || {};
+    if (!articles && !videos) throw new StepInputError("At least one of articles or videos is required");
+
+    console.log(`Merging knowledge base: ${articles?.length || 0} articles, ${videos?.length || 0} videos`);
+
+    // Merge into unified format
+    const merged = mergeKnowledgeBase({ articles, videos });
+
+    // Optional: Enrich with Groq (generate key_facts for sources that lack them)
+    let sources = merged.sources;
+    if (enrich && topic) {
+        console.log("Enriching sources with Groq...");
+        sources = await enrichSourcesWithGroq(topic, sources);
+    }
+
+    console.log(`Merge Complete. Total sources: ${sources.length}`);
+    return { sources, stats: merged.stats };
+}
+
+// ============ STEP 10-13: ANALYSIS & REPORT ============
+
+export async function runNormalizeStep(input: NormalizeStepInput): Promise<NormalizeStepOutput> {
+    const { topic, articles, videos } = input || {};
+    if (!topic) throw new StepInputError("Topic is required");
+    if (!articles && !videos) throw new StepInputError("At least one of articles or videos is required");
+
+    console.log(`Normalizing sources: ${articles?.length || 0} articles, ${videos?.length || 0} videos`);
+
+    const result = await normalizeSources(articles || [], videos || [], topic);
+
+    console.log(`Normalization Complete. Total sources: ${result.sources.length}`);
+    return result;
+}
+
+export async function runAnalyzeStep(input: AnalyzeStepInput): Promise<AnalyzeStepOutput> {
+    const { topic, sources, maxFactSources, fullAnalysis } = input || {};
+    if (!topic || !Array.isArray(sources)) throw new StepInputError("Topic and sources array are required");
+
+    console.log(`Running deep analysis for "${topic}" with ${sources.length} sources...`);
+
+    const analysis = await runDeepAnalysis(topic, sources, { maxFactSources, fullAnalysis });
+
+    console.log(`Deep Analysis Complete. Grade: ${analysis.quality_metrics.confidence_grade}`);
+    return analysis;
+}
+
+export async function runContentStep(input: ContentStepInput): Promise<ContentStepOutput> {
+    const { analysis } = input || {};
+    if (!analysis || !analysis.topic) throw new StepInputError("Deep analysis object is required");
+
+    console.log(`Generating content ideas for "${analysis.topic}"...`);
+
+    const contentIdeas = await generateContentIdeas(analysis);
+
+    console.log(`Generated ${contentIdeas.stats.total_ideas} content ideas`);
+    return contentIdeas;
+}
+
+export async function runReportStep(input: ReportStepInput): Promise<ReportStepOutput> {
+    const { topic, sources, deep_analysis, content_ideas, executive_summary } = input || {};
+    if (!topic || !sources || !deep_analysis || !content_ideas) {
+        throw new StepInputError("Required: topic, sources, deep_analysis, content_ideas");
+    }
+
+    console.log(`Assembling final report for "${topic}"...`);
+
+    const report = assembleReport({ topic, executive_summary, sources, deep_analysis, content_ideas });
+
+    console.log(`Report assembled. ID: ${report.report_id}, Grade: ${report.quality_check.grade}`);
+    return report;
+}
+
+// ============ ROUTE REGISTRY ============
+
+export interface StepService {
+    route: string;   // POST path under /v2
+    label: string;   // Prefix for error logs
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    run: (input: any) => Promise<unknown>;
+}
+
+/**
+ * One entry per step - server.ts registers a POST route for each
+ */
+export const STEP_SERVICES: StepService[] = [
+    { route: '/v2/step1-keywords', label: 'V2 Step 1', run: runKeywordsStep },
+    { route: '/v2/step2-search', label: 'V2 Step 2', run: runSearchStep },
+    { route: '/v2/step3-scrape', label: 'V2 Step 3', run: runScrapeStep },
+    { route: '/v2/step4-structure', label: 'V2 Step 4', run: runStructureStep },
+    { route: '/v2/step5-summarize', label: 'V2 Step 5', run: runSummarizeStep },
+    { route: '/v2/step6-queries', label: 'V2 Step 6', run: runQueriesStep },
+    { route: '/v2/step7-videos', label: 'V2 Step 7', run: runVideosStep },
+    { route: '/v2/step8-transcribe', label: 'V2 Step 8', run: runTranscribeStep },
+    { route: '/v2/step9-verify', label: 'V2 Step 9', run: runVerifyStep },
+    { route: '/v2/step9-classify', label: 'V2 Step 9 Classify', run: runClassifyStep },
+    { route: '/v2/step9-merge', label: 'V2 Step 9 Merge', run: runMergeStep },
+    { route: '/v2/step10-normalize', label: 'V2 Step 10 Normalize', run: runNormalizeStep },
+    { route: '/v2/step11-analyze', label: 'V2 Step 11 Analyze', run: runAnalyzeStep },
+    { route: '/v2/step12-content', label: 'V2 Step 12 Content', run: runContentStep },
+    { route: '/v2/step13-report', label: 'V2 Step 13 Report', run: runReportStep }
+];
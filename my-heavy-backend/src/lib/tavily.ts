@@ -1,5 +1,7 @@
 import { tavily } from '@tavily/core';
 import dotenv from 'dotenv';
+import { throwIfAborted } from './cancellation';
+import { withCassette, cassetteApiKey } from './cassette';
 
 dotenv.config();
 
@@ -11,10 +13,11 @@ let tvly: any = null;
 
 function getTavilyClient() {
     if (!tvly) {
-        if (!process.env.TAVILY_API_KEY) {
+        const apiKey = cassetteApiKey(process.env.TAVILY_API_KEY);
+        if (!apiKey) {
             throw new Error("TAVILY_API_KEY is missing.");
         }
-        tvly = tavily({ apiKey: process.env.TAVILY_API_KEY });
+        tvly = tavily({ apiKey });
     }
     return tvly;
 }
@@ -24,10 +27,10 @@ export interface SearchResult {
     url: string;
     content: string;
     published_date?: string;
-    source: "tavily";
+    source: "tavily" | "serper" | "newsapi";
 }
 
-export async function searchTavilyV2(keywords: string[]): Promise<SearchResult[]> {
+export async function searchTavilyV2(keywords: string[], signal?: AbortSignal): Promise<SearchResult[]> {
     const client = getTavilyClient();
     const allResults: SearchResult[] = [];
     const seenUrls = new Set<string>();
@@ -39,15 +42,17 @@ export async function searchTavilyV2(keywords: string[]): Promise<SearchResult[]
     const BATCH_SIZE = 3;
 
     for (let i = 0; i < keywords.length; i += BATCH_SIZE) {
+        throwIfAborted(signal);  // The Tavily client can't abort a request - stop between batches
         const chunk = keywords.slice(i, i + BATCH_SIZE);
         const promises = chunk.map(async (query) => {
             try {
-                const response = await client.search(query, {
+                const options = {
                     search_depth: "basic", // "advanced" is more expensive, basic is fine for discovery
                     max_results: 5,
                     include_domains: [], // Add allowlist if needed
                     exclude_domains: ["youtube.com", "twitter.com", "facebook.com", "instagram.com"] // Focus on articles
-                });
+                };
+                const response = await withCassette<any>('tavily', { query, options }, () => client.search(query, options));
                 return response.results; // Array of { title, url, content, published_date, ... }
             } catch (e) {
                 console.error(`Tavily search failed for "${query}":`, e);
@@ -0,0 +1,280 @@
+/**
+ * usageTracker.ts
+ * Token, request and cost accounting for every LLM call
+ *
+ * llmProvider.ts reports the `usage` block of each completion here.
+ * Each call is:
+ * - attributed to the current pipeline step (stepContext.ts) and rolled up into
+ *   that run's PipelineSummary, which is stored on the report
+ * - added to the daily history in Firestore (llmUsage/{date}/flushes), which
+ *   GET /v3/usage aggregates into spend per day, model and task
+ *
+ * Costs are estimates from MODEL_PRICES (list prices, USD per 1M tokens).
+ */
+
+import { db } from './firebase';
+import { getStepContext } from './stepContext';
+import { getPipelineLogger } from './pipelineLogger';
+
+// ============ TYPES ============
+
+export interface TokenUsage {
+    tokensIn: number;
+    tokensOut: number;
+}
+
+export interface UsageTotals {
+    requests: number;
+    tokensIn: number;
+    tokensOut: number;
+    cost: number;  // Estimated USD
+}
+
+export interface ModelUsage extends UsageTotals {
+    provider: string;
+    model: string;
+}
+
+export interface TaskUsage extends UsageTotals {
+    task: string;
+}
+
+export interface UsageRecord extends TokenUsage {
+    provider: string;
+    model: string;
+    task: string;  // TaskType, or the legacy chain's task
+    cost: number;
+}
+
+// One flushed history row: totals for a day / model / task
+interface UsageHistoryEntry extends UsageTotals {
+    date: string;  // YYYY-MM-DD (UTC)
+    provider: string;
+    model: string;
+    task: string;
+}
+
+export interface UsageHistoryDay extends UsageTotals {
+    date: string;
+    byModel: ModelUsage[];
+    byTask: TaskUsage[];
+}
+
+export interface UsageHistory {
+    from: string;
+    to: string;
+    totals: UsageTotals;
+    byModel: ModelUsage[];
+    byTask: TaskUsage[];
+    days: UsageHistoryDay[];
+}
+
+// ============ PRICING ============
+
+interface ModelPrice {
+    input: number;   // USD per 1M prompt tokens
+    output: number;  // USD per 1M completion tokens
+}
+
+// Keyed "provider/model" - OpenRouter ":free" variants and local models are always free
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'groq/llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+    'groq/llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'groq/llama-3.1-70b-versatile': { input: 0.59, output: 0.79 },
+    'groq/gemma2-9b-it': { input: 0.20, output: 0.20 },
+    'gemini/gemini-2.0-flash': { input: 0.10, output: 0.40 }
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+const warnedUnpriced = new Set<string>();
+
+export function getModelPrice(provider: string, model: string): ModelPrice | undefined {
+    if (provider === 'local' || (provider === 'openrouter' && model.endsWith(':free'))) return FREE;
+    return MODEL_PRICES[`${provider}/${model}`];
+}
+
+/**
+ * Estimated USD cost of one call (0 for models missing from MODEL_PRICES)
+ */
+export function estimateCost(provider: string, model: string, usage: TokenUsage): number {
+    const price = getModelPrice(provider, model);
+    if (!price) {
+        if (!warnedUnpriced.has(`${provider}/${model}`)) {
+            warnedUnpriced.add(`${provider}/${model}`);
+            console.warn(`[Usage] No price for ${provider}/${model} - counted as $0`);
+        }
+        return 0;
+    }
+    return (usage.tokensIn * price.input + usage.tokensOut * price.output) / 1_000_000;
+}
+
+// ============ TOTALS HELPERS ============
+
+export function emptyTotals(): UsageTotals {
+    return { requests: 0, tokensIn: 0, tokensOut: 0, cost: 0 };
+}
+
+export function addToTotals(target: UsageTotals, usage: UsageTotals): void {
+    target.requests += usage.requests;
+    target.tokensIn += usage.tokensIn;
+    target.tokensOut += usage.tokensOut;
+    target.cost = roundCost(target.cost + usage.cost);
+}
+
+function roundCost(cost: number): number {
+    return Math.round(cost * 1e8) / 1e8;
+}
+
+// ============ RECORDING ============
+
+/**
+ * Record one completed LLM request. `usage` is the provider's usage block
+ * (missing for providers/responses without one - still counted as a request).
+ * Never throws.
+ */
+export function recordUsage(call: { provider: string; model: string; task: string; usage?: TokenUsage }): void {
+    try {
+        const tokens = call.usage || { tokensIn: 0, tokensOut: 0 };
+        const record: UsageRecord = {
+            provider: call.provider,
+            model: call.model,
+            task: call.task,
+            ...tokens,
+            cost: estimateCost(call.provider, call.model, tokens)
+        };
+
+        const context = getStepContext();
+        if (context) {
+            getPipelineLogger(context.runId)?.logUsage(context.stepId, record);
+        }
+
+        addToHistory(record);
+    } catch (e) {
+        console.error('[Usage] Failed to record usage:', e);
+    }
+}
+
+/**
+ * Convert an OpenAI-style usage block (Groq, OpenRouter)
+ */
+export function fromCompletionUsage(usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return { tokensIn: usage.prompt_tokens || 0, tokensOut: usage.completion_tokens || 0 };
+}
+
+// ============ HISTORY ============
+
+const USAGE_COLLECTION = 'llmUsage';
+const FLUSH_INTERVAL_MS = Number(process.env.USAGE_FLUSH_INTERVAL_MS) || 60 * 1000;
+
+// Aggregated in memory and written in batches - not one Firestore write per call
+const pending = new Map<string, UsageHistoryEntry>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+function addToHistory(record: UsageRecord): void {
+    const date = new Date().toISOString().slice(0, 10);
+    mergePending({ date, provider: record.provider, model: record.model, task: record.task, requests: 1, tokensIn: record.tokensIn, tokensOut: record.tokensOut, cost: record.cost });
+
+    if (!flushTimer) {
+        flushTimer = setTimeout(() => {
+            flushTimer = null;
+            void flushUsage();
+        }, FLUSH_INTERVAL_MS);
+        flushTimer.unref();
+    }
+}
+
+function mergePending(entry: UsageHistoryEntry): void {
+    const key = [entry.date, entry.provider, entry.model, entry.task].join('|');
+    const existing = pending.get(key);
+    if (existing) {
+        addToTotals(existing, entry);
+    } else {
+        pending.set(key, { ...entry });
+    }
+}
+
+/**
+ * Write pending usage to Firestore (runs on a timer and at the end of every run).
+ * Never throws - on failure the entries stay pending for the next flush.
+ */
+export async function flushUsage(): Promise<void> {
+    if (pending.size === 0) return;
+
+    const entries = Array.from(pending.values());
+    pending.clear();
+
+    const byDate = new Map<string, UsageHistoryEntry[]>();
+    entries.forEach(entry => byDate.set(entry.date, [...(byDate.get(entry.date) || []), entry]));
+
+    for (const [date, dayEntries] of byDate) {
+        try {
+            await db.collection(USAGE_COLLECTION).doc(date).collection('flushes').add({
+                flushedAt: new Date().toISOString(),
+                entries: dayEntries
+            });
+        } catch (e) {
+            console.error(`[Usage] Failed to save usage for ${date}:`, e);
+            dayEntries.forEach(mergePending);
+        }
+    }
+}
+
+function groupTotals<T extends UsageTotals>(entries: UsageHistoryEntry[], keyOf: (entry: UsageHistoryEntry) => string, create: (entry: UsageHistoryEntry) => T): T[] {
+    const groups = new Map<string, T>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        if (!groups.has(key)) groups.set(key, create(entry));
+        addToTotals(groups.get(key)!, entry);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+}
+
+const byModel = (entries: UsageHistoryEntry[]) => groupTotals<ModelUsage>(
+    entries,
+    entry => `${entry.provider}/${entry.model}`,
+    entry => ({ provider: entry.provider, model: entry.model, ...emptyTotals() })
+);
+
+const byTask = (entries: UsageHistoryEntry[]) => groupTotals<TaskUsage>(
+    entries,
+    entry => entry.task,
+    entry => ({ task: entry.task, ...emptyTotals() })
+);
+
+/**
+ * Spend per day, model and task for the last `days` days (today included)
+ */
+export async function getUsageHistory(days = 30): Promise<UsageHistory> {
+    await flushUsage();  // Include calls since the last flush
+
+    const dates = Array.from({ length: days }, (_, i) =>
+        new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    ).reverse();
+
+    const allEntries: UsageHistoryEntry[] = [];
+    const dayResults: UsageHistoryDay[] = [];
+
+    for (const date of dates) {
+        const snapshot = await db.collection(USAGE_COLLECTION).doc(date).collection('flushes').get();
+        const entries: UsageHistoryEntry[] = snapshot.docs.flatMap(doc => doc.data()?.entries || []);
+        if (entries.length === 0) continue;
+
+        const totals = emptyTotals();
+        entries.forEach(entry => addToTotals(totals, entry));
+        dayResults.push({ date, ...totals, byModel: byModel(entries), byTask: byTask(entries) });
+        allEntries.push(...entries);
+    }
+
+    const totals = emptyTotals();
+    allEntries.forEach(entry => addToTotals(totals, entry));
+
+    return {
+        from: dates[0],
+        to: dates[dates.length - 1],
+        totals,
+        byModel: byModel(allEntries),
+        byTask: byTask(allEntries),
+        days: dayResults
+    };
+}
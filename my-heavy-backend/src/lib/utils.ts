@@ -6,6 +6,9 @@
  * - Error handling
  */
 
+import { getQuotaStatus, QuotaStatus } from './quotaTracker';
+import { getTasksWithoutBudget } from './llmProvider';
+
 // ============ RETRY WITH BACKOFF ============
 
 export interface RetryOptions {
@@ -90,8 +93,12 @@ export interface PreflightResult {
     canProceed: boolean;
     checks: HealthCheckResult[];
     warnings: string[];
+    quotas: QuotaStatus[];  // Remaining LLM request budget (quotaTracker.ts)
 }
 
+// Warn once less than this share of a daily budget is left
+const LOW_BUDGET_RATIO = 0.1;
+
 async function checkGroq(): Promise<HealthCheckResult> {
     const start = Date.now();
     try {
@@ -165,12 +172,25 @@ export async function runPreflightChecks(): Promise<PreflightResult> {
         }
     });
 
+    // LLM budgets: refuse runs that can't complete a task, warn when a daily budget runs low
+    const quotas = getQuotaStatus();
+    const blockedTasks = getTasksWithoutBudget();
+    if (blockedTasks.length > 0) {
+        canProceed = false;
+        warnings.push(`No LLM budget left for: ${blockedTasks.join(', ')}`);
+    }
+    quotas.forEach(quota => {
+        if (quota.perDay && quota.perDay.remaining < quota.perDay.limit * LOW_BUDGET_RATIO) {
+            warnings.push(`${quota.key} daily budget low: ${quota.perDay.remaining}/${quota.perDay.limit} requests left`);
+        }
+    });
+
     console.log(`[Preflight] Complete. Can proceed: ${canProceed}`);
     if (warnings.length > 0) {
         console.warn('[Preflight] Warnings:', warnings);
     }
 
-    return { canProceed, checks, warnings };
+    return { canProceed, checks, warnings, quotas };
 }
 
 // ============ SAFE JSON PARSE ============
@@ -1,5 +1,7 @@
 import { google } from 'googleapis';
 import dotenv from 'dotenv';
+import { throwIfAborted } from './cancellation';
+import { withCassette, cassetteApiKey } from './cassette';
 
 dotenv.config();
 
@@ -14,8 +16,14 @@ export interface VideoResult {
     thumbnail: string;
 }
 
+export interface YouTubeSearchOptions {
+    maxQueries?: number;       // Queries actually searched (quota: 100 units each)
+    resultsPerQuery?: number;
+    signal?: AbortSignal;
+}
+
 function getYouTubeClient() {
-    const key = process.env.YOUTUBE_API_KEY || process.env.GOOGLE_API_KEY;
+    const key = cassetteApiKey(process.env.YOUTUBE_API_KEY || process.env.GOOGLE_API_KEY);
     if (!key) {
         throw new Error("YOUTUBE_API_KEY (or GOOGLE_API_KEY) is missing.");
     }
@@ -25,29 +33,32 @@ function getYouTubeClient() {
     });
 }
 
-export async function searchYouTubeV2(queries: string[]): Promise<VideoResult[]> {
+export async function searchYouTubeV2(queries: string[], options: YouTubeSearchOptions = {}): Promise<VideoResult[]> {
+    const { maxQueries = 5, resultsPerQuery = 3, signal } = options;
+    throwIfAborted(signal);
     const youtube = getYouTubeClient();
     const allVideos: VideoResult[] = [];
     const seenIds = new Set<string>();
 
     console.log(`Processing ${queries.length} YouTube queries...`);
 
-    // Limit to first 5 queries to save quota? Or process all?
-    // Let's do top 5 queries to be safe on quota, user can request more if needed.
-    const activeQueries = queries.slice(0, 5);
+    // Only the top queries are searched to save quota - the research profile sets how many
+    const activeQueries = queries.slice(0, maxQueries);
 
     const promises = activeQueries.map(async (q) => {
         try {
-            const response = await youtube.search.list({
+            const params = {
                 part: ['snippet'],
                 q: q,
                 type: ['video'],
-                maxResults: 3, // Top 3 per query = 15 videos max
+                maxResults: resultsPerQuery, // Standard profile: top 3 per query = 15 videos max
                 relevanceLanguage: 'en',
                 order: 'relevance' // or viewCount
-            });
+            };
+            // Only the response body is recorded (cassette.ts)
+            const data = await withCassette('youtube.search', params, async () => (await youtube.search.list(params, { signal })).data);
 
-            const items = response.data.items || [];
+            const items = data.items || [];
             const results: VideoResult[] = [];
 
             for (const item of items) {
@@ -75,19 +86,21 @@ export async function searchYouTubeV2(queries: string[]): Promise<VideoResult[]>
     });
 
     const results = await Promise.all(promises);
+    throwIfAborted(signal);  // Aborted queries were swallowed above
     results.forEach(r => allVideos.push(...r));
 
     // Optional: Fetch stats (views) for these videos to fill the "views" field
     if (allVideos.length > 0) {
         try {
             const ids = allVideos.map(v => v.id).join(',');
-            const statsResponse = await youtube.videos.list({
+            const params = {
                 part: ['statistics'],
                 id: ids.split(',') // batch IDs
-            });
+            };
+            const stats = await withCassette('youtube.videos', params, async () => (await youtube.videos.list(params, { signal })).data);
 
             const statsMap = new Map<string, string>();
-            statsResponse.data.items?.forEach(item => {
+            stats.items?.forEach(item => {
                 if (item.id && item.statistics?.viewCount) {
                     statsMap.set(item.id, item.statistics.viewCount);
                 }
@@ -102,6 +115,7 @@ export async function searchYouTubeV2(queries: string[]): Promise<VideoResult[]>
         } catch (e) {
             console.error("Failed to fetch video stats:", e);
         }
+        throwIfAborted(signal);
     }
 
     return allVideos;
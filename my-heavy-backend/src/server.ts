@@ -2,28 +2,27 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
-import * as cheerio from 'cheerio';
 import axios from 'axios';
-import { db } from './lib/firebase';
+import { db, verifyIdToken } from './lib/firebase';
 import { getSmartTranscript } from './lib/youtubeHelper';
-import { generateMetaKeywordsV2 } from './lib/groq';
 import { searchTavilyV2 } from './lib/tavily';
 import { scrapeFirecrawlV2 } from './lib/firecrawl';
-import { structureArticleGroq } from './lib/groqStructure';
-import { summarizeArticleGroq } from './lib/groqSummarize';
-import { generateVideoQueriesV2 } from './lib/groqQueryGenerator';
-import { searchYouTubeV2 } from './lib/youtubeSearch';
-import { processVideosInParallel } from './lib/groqTranscribe';
-import { verifyVideosGroq } from './lib/groqVerify';
-import { classifyVideosGroq, filterKeptVideos } from './lib/groqClassify';
-import { mergeKnowledgeBase, enrichSourcesWithGroq } from './lib/knowledgeBase';
-import { normalizeSources } from './lib/groqNormalize';
 import { storeSourceEmbeddings, semanticSearch, findSimilarResearch, getResearchHistory } from './lib/embeddings';
-import { runDeepAnalysis } from './lib/groqDeepAnalysis';
-import { generateContentIdeas } from './lib/groqContentIdeas';
-import { assembleReport } from './lib/reportAssembler';
 import { runPreflightChecks } from './lib/utils';
-import { getCurrentPipelineLogger, createPipelineLogger, clearPipelineLogger } from './lib/pipelineLogger';
+import { getPipelineLogger, getLatestPipelineLogger, listPipelineLoggers } from './lib/pipelineLogger';
+import { enqueueJob, getJob, startJobWorker, findActiveJobForReport, cancelJob } from './lib/jobQueue';
+import { runResearchWorkflow } from './lib/researchWorkflow';
+import { RunEvent, subscribeToRun, getRecentRunEvents } from './lib/runEvents';
+import { listCheckpointedSteps } from './lib/checkpointStore';
+import { STEP_SERVICES, StepInputError } from './lib/stepServices';
+import { resolveResearchProfile, ResearchProfile } from './lib/researchProfiles';
+import { getUsageHistory } from './lib/usageTracker';
+import { getTasksWithoutBudget, getTaskChains } from './lib/llmProvider';
+import { listModelHealth } from './lib/modelHealth';
+import { listModelProviders } from './lib/modelProviders';
+import { getModelConfigState, saveModelConfig, startModelConfigRefresh, ModelConfigError } from './lib/modelConfig';
+import { getCacheStats, clearCache } from './lib/llmCache';
+import { listPrompts, getPromptExperiments, savePromptExperiments, getExperimentResults, PromptConfigError } from './lib/promptRegistry';
 
 import path from 'path';
 
@@ -45,35 +44,37 @@ app.get('/', (req, res) => {
 
 // --- PIPELINE STATUS ENDPOINTS ---
 
-// Full snapshot (for initial load or detailed view)
+// Every tracked run (running first, finished runs until they are evicted)
 app.get('/pipeline-status', (req, res) => {
-    const logger = getCurrentPipelineLogger();
+    const runs = listPipelineLoggers().map(logger => logger.getLiteSnapshot());
+    res.json({
+        active: runs.filter(run => run.status === 'running').length,
+        runs
+    });
+});
+
+// Legacy single-run endpoints - resolve to the most recent run.
+// Registered before the :reportId routes so "lite"/"current" aren't read as IDs.
+app.get('/pipeline-status/lite', (req, res) => {
+    const logger = getLatestPipelineLogger();
     if (logger) {
-        // Support ?mode=lite query param
-        const mode = req.query.mode;
-        if (mode === 'lite') {
-            res.json(logger.getLiteSnapshot());
-        } else {
-            res.json(logger.getFullSnapshot());
-        }
+        res.json(logger.getLiteSnapshot());
     } else {
         res.json({ status: 'idle', message: 'No pipeline currently running' });
     }
 });
 
-// Lite snapshot (for frequent polling - every 1-2 seconds)
-app.get('/pipeline-status/lite', (req, res) => {
-    const logger = getCurrentPipelineLogger();
+app.get('/pipeline-status/current', (req, res) => {
+    const logger = getLatestPipelineLogger();
     if (logger) {
-        res.json(logger.getLiteSnapshot());
+        res.json(logger.getFullSnapshot());
     } else {
         res.json({ status: 'idle', message: 'No pipeline currently running' });
     }
 });
 
-// Step details (fetch full data only when user expands a step)
 app.get('/pipeline-status/step/:stepId', (req, res) => {
-    const logger = getCurrentPipelineLogger();
+    const logger = getLatestPipelineLogger();
     if (logger) {
         const step = logger.getStepDetails(req.params.stepId);
         if (step) {
@@ -86,13 +87,43 @@ app.get('/pipeline-status/step/:stepId', (req, res) => {
     }
 });
 
-// Legacy endpoint for compatibility
-app.get('/pipeline-status/current', (req, res) => {
-    const logger = getCurrentPipelineLogger();
+// Full snapshot of one run (for initial load or detailed view)
+app.get('/pipeline-status/:reportId', (req, res) => {
+    const logger = getPipelineLogger(req.params.reportId);
     if (logger) {
-        res.json(logger.getFullSnapshot());
+        // Support ?mode=lite query param
+        if (req.query.mode === 'lite') {
+            res.json(logger.getLiteSnapshot());
+        } else {
+            res.json(logger.getFullSnapshot());
+        }
     } else {
-        res.json({ status: 'idle', message: 'No pipeline currently running' });
+        res.status(404).json({ error: 'Run not found (never started or already evicted)' });
+    }
+});
+
+// Lite snapshot of one run (for frequent polling - every 1-2 seconds)
+app.get('/pipeline-status/:reportId/lite', (req, res) => {
+    const logger = getPipelineLogger(req.params.reportId);
+    if (logger) {
+        res.json(logger.getLiteSnapshot());
+    } else {
+        res.status(404).json({ error: 'Run not found (never started or already evicted)' });
+    }
+});
+
+// Step details (fetch full data only when user expands a step)
+app.get('/pipeline-status/:reportId/step/:stepId', (req, res) => {
+    const logger = getPipelineLogger(req.params.reportId);
+    if (!logger) {
+        return res.status(404).json({ error: 'Run not found (never started or already evicted)' });
+    }
+
+    const step = logger.getStepDetails(req.params.stepId);
+    if (step) {
+        res.json(step);
+    } else {
+        res.status(404).json({ error: 'Step not found' });
     }
 });
 
@@ -112,233 +143,116 @@ app.get('/v2/preflight', async (req, res) => {
     }
 });
 
-// ... (omitted)
-
-// --- V2: STEP 8 (TRANSCRIBE) ---
-app.post('/v2/step8-transcribe', async (req, res) => {
-    try {
-        const { videos } = req.body; // Array of VideoResult
-        if (!videos || !Array.isArray(videos)) {
-            return res.status(400).json({ error: "Videos array is required" });
-        }
-
-        console.log(`Transcribing ${videos.length} videos...`);
-
-        const transcribedVideos = await processVideosInParallel(videos);
-        res.json({ videos: transcribedVideos });
-
-    } catch (e) {
-        console.error("V2 Step 8 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
+// --- MODEL HEALTH (circuit breaker state, success rate, latency) ---
+app.get('/v2/models/health', (req, res) => {
+    res.json({
+        providers: listModelProviders(),  // Registered plugins and whether they have credentials
+        models: listModelHealth(),
+        chains: getTaskChains()  // Current order callLLM tries models in, per task
+    });
 });
 
-// --- V2: STEP 9 (VERIFY) ---
-app.post('/v2/step9-verify', async (req, res) => {
-    try {
-        const { topic, videos, articles } = req.body;
-
-        if (!topic || !videos || !articles) {
-            return res.status(400).json({ error: "Topic, Videos, and Articles are required" });
-        }
-
-        console.log(`Verifying ${videos.length} videos against ${articles.length} articles...`);
-
-        // Consolidate article context
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const articleContext = articles.map((a: any) =>
-            `HEADLINE: ${a.headline_summary}\nBULLETS:\n${a.summary_bullets.join("\n")}`
-        ).join("\n\n");
-
-        const verifiedVideos = await verifyVideosGroq(topic, videos, articleContext);
-
-        console.log(`Verification Complete. Kept ${verifiedVideos.length}/${videos.length} videos.`);
-
-        res.json({ videos: verifiedVideos });
-
-    } catch (e) {
-        console.error("V2 Step 9 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
+// --- MODEL CONFIG (chains, temperature, JSON mode per task) ---
+
+/**
+ * Admin-only routes: a Firebase ID token whose email is listed in ADMIN_EMAILS.
+ * Sends the 401/403 and returns null when the caller isn't an admin.
+ */
+async function requireAdmin(req: express.Request, res: express.Response): Promise<string | null> {
+    const admins = (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (!token) {
+        res.status(401).json({ error: 'Missing Authorization: Bearer <Firebase ID token>' });
+        return null;
     }
-});
 
-// --- V2: STEP 9 (CLASSIFY) ---
-app.post('/v2/step9-classify', async (req, res) => {
     try {
-        const { topic, videos, threshold } = req.body;
-
-        if (!topic || !videos || !Array.isArray(videos)) {
-            return res.status(400).json({ error: "Topic and Videos array are required" });
+        const { email } = await verifyIdToken(token);
+        if (!email || !admins.includes(email.toLowerCase())) {
+            res.status(403).json({ error: 'Admin access required (ADMIN_EMAILS)' });
+            return null;
         }
-
-        console.log(`Classifying ${videos.length} videos for topic "${topic}"...`);
-
-        const classifiedVideos = await classifyVideosGroq(topic, videos);
-        const keptVideos = filterKeptVideos(classifiedVideos, threshold || 50);
-
-        console.log(`Classification Complete. Kept ${keptVideos.length}/${videos.length} videos.`);
-
-        res.json({
-            all_videos: classifiedVideos,
-            kept_videos: keptVideos,
-            stats: {
-                total: classifiedVideos.length,
-                kept: keptVideos.length,
-                rejected: classifiedVideos.length - keptVideos.length
-            }
-        });
-
+        return email;
     } catch (e) {
-        console.error("V2 Step 9 Classify Error:", e);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
+        res.status(401).json({ error: `Invalid ID token: ${(e as any).message}` });
+        return null;
     }
-});
-
-// --- V2: STEP 9 (MERGE KNOWLEDGE BASE) ---
-app.post('/v2/step9-merge', async (req, res) => {
-    try {
-        const { topic, articles, videos, enrich } = req.body;
-
-        if (!articles && !videos) {
-            return res.status(400).json({ error: "At least one of articles or videos is required" });
-        }
-
-        console.log(`Merging knowledge base: ${articles?.length || 0} articles, ${videos?.length || 0} videos`);
-
-        // Merge into unified format
-        const merged = mergeKnowledgeBase({ articles, videos });
+}
 
-        // Optional: Enrich with Groq (generate key_facts for sources that lack them)
-        let sources = merged.sources;
-        if (enrich && topic) {
-            console.log("Enriching sources with Groq...");
-            sources = await enrichSourcesWithGroq(topic, sources);
-        }
+app.get('/v2/config/models', (req, res) => {
+    res.json({
+        ...getModelConfigState(),
+        providers: listModelProviders()
+    });
+});
 
-        console.log(`Merge Complete. Total sources: ${sources.length}`);
+app.put('/v2/config/models', async (req, res) => {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
 
+    try {
+        await saveModelConfig(req.body, admin);
         res.json({
-            sources,
-            stats: merged.stats
+            ...getModelConfigState(),
+            providers: listModelProviders()
         });
-
     } catch (e) {
-        console.error("V2 Step 9 Merge Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 10 (NORMALIZE SOURCES) ---
-app.post('/v2/step10-normalize', async (req, res) => {
-    try {
-        const { topic, articles, videos } = req.body;
-
-        if (!topic) {
-            return res.status(400).json({ error: "Topic is required" });
+        if (e instanceof ModelConfigError) {
+            return res.status(400).json({ error: e.message, issues: e.issues });
         }
-
-        if (!articles && !videos) {
-            return res.status(400).json({ error: "At least one of articles or videos is required" });
-        }
-
-        console.log(`Normalizing sources: ${articles?.length || 0} articles, ${videos?.length || 0} videos`);
-
-        const result = await normalizeSources(articles || [], videos || [], topic);
-
-        console.log(`Normalization Complete. Total sources: ${result.sources.length}`);
-
-        res.json(result);
-
-    } catch (e) {
-        console.error("V2 Step 10 Normalize Error:", e);
+        console.error('[ModelConfig] Save failed:', e);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         res.status(500).json({ error: (e as any).message });
     }
 });
 
-// --- V2: STEP 11 (DEEP ANALYSIS) ---
-app.post('/v2/step11-analyze', async (req, res) => {
-    try {
-        const { topic, sources } = req.body;
-
-        if (!topic || !sources || !Array.isArray(sources)) {
-            return res.status(400).json({ error: "Topic and sources array are required" });
-        }
+// --- LLM RESPONSE CACHE (llmCache.ts) ---
 
-        console.log(`Running deep analysis for "${topic}" with ${sources.length} sources...`);
-
-        const analysis = await runDeepAnalysis(topic, sources);
-
-        console.log(`Deep Analysis Complete. Grade: ${analysis.quality_metrics.confidence_grade}`);
-
-        res.json(analysis);
+app.get('/v2/cache/llm', async (req, res) => {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
 
+    try {
+        res.json(await getCacheStats());
     } catch (e) {
-        console.error("V2 Step 11 Analyze Error:", e);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         res.status(500).json({ error: (e as any).message });
     }
 });
 
-// --- V2: STEP 12 (CONTENT IDEAS) ---
-app.post('/v2/step12-content', async (req, res) => {
-    try {
-        const { analysis } = req.body;
-
-        if (!analysis || !analysis.topic) {
-            return res.status(400).json({ error: "Deep analysis object is required" });
-        }
-
-        console.log(`Generating content ideas for "${analysis.topic}"...`);
-
-        const contentIdeas = await generateContentIdeas(analysis);
-
-        console.log(`Generated ${contentIdeas.stats.total_ideas} content ideas`);
-
-        res.json(contentIdeas);
+// DELETE /v2/cache/llm?task=SUMMARIZE&expired=true - both filters optional
+app.delete('/v2/cache/llm', async (req, res) => {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
 
+    try {
+        const task = typeof req.query.task === 'string' ? req.query.task : undefined;
+        const removed = await clearCache({ task, expiredOnly: req.query.expired === 'true' });
+        console.log(`[LLMCache] Cleared by ${admin}`);
+        res.json({ removed });
     } catch (e) {
-        console.error("V2 Step 12 Content Error:", e);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         res.status(500).json({ error: (e as any).message });
     }
 });
 
-// --- V2: STEP 13 (ASSEMBLE FINAL REPORT) ---
-app.post('/v2/step13-report', async (req, res) => {
-    try {
-        const { topic, sources, deep_analysis, content_ideas, executive_summary } = req.body;
-
-        if (!topic || !sources || !deep_analysis || !content_ideas) {
-            return res.status(400).json({
-                error: "Required: topic, sources, deep_analysis, content_ideas"
-            });
+// --- V2: PIPELINE STEPS (1-13) ---
+// Step logic lives in stepServices.ts (also called in-process by the orchestrated workflow)
+for (const service of STEP_SERVICES) {
+    app.post(service.route, async (req, res) => {
+        try {
+            res.json(await service.run(req.body));
+        } catch (e) {
+            if (e instanceof StepInputError) {
+                return res.status(400).json({ error: e.message });
+            }
+            console.error(`${service.label} Error:`, e);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            res.status(500).json({ error: (e as any).message });
         }
-
-        console.log(`Assembling final report for "${topic}"...`);
-
-        const report = assembleReport({
-            topic,
-            executive_summary,
-            sources,
-            deep_analysis,
-            content_ideas
-        });
-
-        console.log(`Report assembled. ID: ${report.report_id}, Grade: ${report.quality_check.grade}`);
-
-        res.json(report);
-
-    } catch (e) {
-        console.error("V2 Step 13 Report Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
+    });
+}
 
 // --- EMBEDDINGS: STORE ---
 app.post('/v2/embeddings/store', async (req, res) => {
@@ -453,225 +367,11 @@ app.get('/v2/embeddings/history/:topic', async (req, res) => {
     }
 });
 
-// --- STEP 1: NEWS ---
-
-// ... (omitted)
-
-// --- V2: STEP 7 (VIDEOS) ---
-app.post('/v2/step7-videos', async (req, res) => {
-    try {
-        const { queries } = req.body; // Array of strings
-        if (!queries || !Array.isArray(queries) || queries.length === 0) {
-            return res.status(400).json({ error: "Queries array is required" });
-        }
-
-        console.log(`Searching YouTube for ${queries.length} queries...`);
-
-        const videos = await searchYouTubeV2(queries);
-        res.json({ videos });
-
-    } catch (e) {
-        console.error("V2 Step 7 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 8 (TRANSCRIBE) ---
-app.post('/v2/step8-transcribe', async (req, res) => {
-    try {
-        const { videos } = req.body; // Array of VideoResult
-        if (!videos || !Array.isArray(videos)) {
-            return res.status(400).json({ error: "Videos array is required" });
-        }
-
-        console.log(`Transcribing ${videos.length} videos...`);
-
-        const transcribedVideos = await processVideosInParallel(videos);
-        res.json({ videos: transcribedVideos });
-
-    } catch (e) {
-        console.error("V2 Step 8 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- STEP 1: NEWS ---
-
-// ... (omitted)
-
-// --- V2: STEP 6 (QUERIES) ---
-app.post('/v2/step6-queries', async (req, res) => {
-    try {
-        const { topic, articles } = req.body; // Topic + Array of SummarizedArticles
-        if (!topic || !articles || !Array.isArray(articles)) {
-            return res.status(400).json({ error: "Topic and Articles array are required" });
-        }
-
-        console.log(`Generating video queries for "${topic}" based on ${articles.length} articles...`);
-
-        const queries = await generateVideoQueriesV2(topic, articles);
-        res.json({ queries });
-
-    } catch (e) {
-        console.error("V2 Step 6 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 7 (VIDEOS) ---
-app.post('/v2/step7-videos', async (req, res) => {
-    try {
-        const { queries } = req.body; // Array of strings
-        if (!queries || !Array.isArray(queries) || queries.length === 0) {
-            return res.status(400).json({ error: "Queries array is required" });
-        }
-
-        console.log(`Searching YouTube for ${queries.length} queries...`);
-
-        const videos = await searchYouTubeV2(queries);
-        res.json({ videos });
-
-    } catch (e) {
-        console.error("V2 Step 7 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- STEP 1: NEWS ---
-
-// ... (omitted code)
-
-// --- V2: STEP 5 (SUMMARIZE) ---
-// (omitted)
-
-// --- V2: STEP 6 (QUERIES) ---
-app.post('/v2/step6-queries', async (req, res) => {
-    try {
-        const { topic, articles } = req.body; // Topic + Array of SummarizedArticles
-        if (!topic || !articles || !Array.isArray(articles)) {
-            return res.status(400).json({ error: "Topic and Articles array are required" });
-        }
-
-        console.log(`Generating video queries for "${topic}" based on ${articles.length} articles...`);
-
-        const queries = await generateVideoQueriesV2(topic, articles);
-        res.json({ queries });
-
-    } catch (e) {
-        console.error("V2 Step 6 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- STEP 1: NEWS ---
-
+// --- VERSION ---
 app.get('/version', (req, res) => {
     res.json({ version: "2.0.0", features: ["Groq", "V2 Layout"] });
 });
 
-// --- V2: STEP 1 (KEYWORDS) ---
-// ... (existing code checked)
-app.post('/v2/step1-keywords', async (req, res) => {
-    try {
-        const { topic } = req.body;
-        if (!topic) return res.status(400).json({ error: "Topic is required" });
-
-        const keywords = await generateMetaKeywordsV2(topic);
-        res.json({ keywords });
-    } catch (e) {
-        console.error("V2 Step 1 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 2 (SEARCH) ---
-app.post('/v2/step2-search', async (req, res) => {
-    try {
-        const { keywords } = req.body;
-        if (!keywords || !Array.isArray(keywords) || keywords.length === 0) {
-            return res.status(400).json({ error: "Keywords array is required" });
-        }
-
-        const results = await searchTavilyV2(keywords);
-        res.json({ results });
-    } catch (e) {
-        console.error("V2 Step 2 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 3 (SCRAPE) ---
-app.post('/v2/step3-scrape', async (req, res) => {
-    try {
-        const { urls } = req.body;
-        if (!urls || !Array.isArray(urls) || urls.length === 0) {
-            return res.status(400).json({ error: "URLs array is required" });
-        }
-
-        const results = await scrapeFirecrawlV2(urls);
-        res.json({ results });
-    } catch (e) {
-        console.error("V2 Step 3 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 4 (STRUCTURE) ---
-app.post('/v2/step4-structure', async (req, res) => {
-    try {
-        const { articles } = req.body; // Array of { markdown, url }
-        if (!articles || !Array.isArray(articles) || articles.length === 0) {
-            return res.status(400).json({ error: "Articles array is required" });
-        }
-
-        console.log(`Structuring ${articles.length} articles via Groq...`);
-
-        // Process in parallel
-        const promises = articles.map((art, index) =>
-            structureArticleGroq(art.markdown, art.url, index + 1)
-        );
-
-        const structuredArticles = await Promise.all(promises);
-        res.json({ articles: structuredArticles });
-
-    } catch (e) {
-        console.error("V2 Step 4 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
-// --- V2: STEP 5 (SUMMARIZE) ---
-app.post('/v2/step5-summarize', async (req, res) => {
-    try {
-        const { articles } = req.body; // Array of StructuredArticles
-        if (!articles || !Array.isArray(articles) || articles.length === 0) {
-            return res.status(400).json({ error: "Articles array is required" });
-        }
-
-        console.log(`Summarizing ${articles.length} articles via Groq...`);
-
-        // Process in parallel
-        const promises = articles.map((art) => summarizeArticleGroq(art));
-        const summarizedArticles = await Promise.all(promises);
-
-        res.json({ articles: summarizedArticles });
-
-    } catch (e) {
-        console.error("V2 Step 5 Error:", e);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        res.status(500).json({ error: (e as any).message });
-    }
-});
-
 // --- STEP 1: NEWS ---
 app.post('/step1-news', async (req, res) => {
     try {
@@ -727,27 +427,6 @@ app.post('/step1-news', async (req, res) => {
 });
 
 // --- STEP 1.5: DEEP RESEARCH ---
-async function scrapeUrl(url: string): Promise<string> {
-    try {
-        const { data } = await axios.get(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-                'Accept-Language': 'en-US,en;q=0.9',
-                'Referer': 'https://www.google.com/'
-            },
-            timeout: 8000
-        });
-        const $ = cheerio.load(data);
-        $('script, style, nav, footer, header, aside, .ads, .advertisement').remove();
-        const text = $('body').text().replace(/\s+/g, ' ').trim();
-        return text.substring(0, 15000);
-    } catch (error) {
-        console.error(`Failed to scrape ${url}:`, error);
-        return "";
-    }
-}
-
 app.post('/step1-5-deep', async (req, res) => {
     try {
         const { newsSummary, sources } = req.body;
@@ -1128,407 +807,245 @@ app.post('/step3-report', async (req, res) => {
 });
 
 // --- ORCHESTRATED WORKFLOW (V3) ---
-// WRAPS THE FULL 13-STEP V2 PIPELINE WITH AI EVALUATION
-app.post('/v3/orchestrated-workflow', async (req, res) => {
-    const { topic, reportId, isPublic, userId } = req.body;
+// ENQUEUES THE FULL 13-STEP V2 PIPELINE AS A BACKGROUND JOB (see lib/jobQueue.ts)
+app.post('/v3/orchestrated-workflow', (req, res) => {
+    const { topic, reportId, isPublic, userId, profile: profileName, profileOverrides } = req.body;
 
     if (!topic || !reportId) {
         return res.status(400).json({ error: 'Topic and reportId are required' });
     }
 
-    // Import orchestrator
-    const { createOrchestrator } = await import('./lib/orchestrator');
+    // Research depth: "quick" | "standard" | "deep", plus optional per-limit overrides
+    let profile: ResearchProfile;
+    try {
+        profile = resolveResearchProfile(profileName, profileOverrides);
+    } catch (error) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return res.status(400).json({ error: (error as any).message });
+    }
+
+    // Refuse up front rather than fail mid-run once a task's whole model chain is out of budget
+    const blockedTasks = getTasksWithoutBudget();
+    if (blockedTasks.length > 0) {
+        return res.status(429).json({ error: `LLM request budget exhausted for: ${blockedTasks.join(', ')}`, blockedTasks });
+    }
 
-    // Create pipeline logger for this run (uses static import for singleton consistency)
-    const pipelineLogger = createPipelineLogger(reportId, topic);
+    const job = enqueueJob({ topic, reportId, config: { isPublic, userId, profile } });
 
-    const orchestrator = createOrchestrator({
+    res.status(202).json({
+        success: true,
+        jobId: job.id,
         reportId,
-        topic,
-        enableAIDecisions: true,
-        verbose: true
+        status: job.status,
+        profile,
+        statusUrl: `/v3/jobs/${job.id}`,
+        eventsUrl: `/v3/runs/${reportId}/events`
     });
+});
 
-    // Helper to call internal endpoints with logging
-    const callEndpoint = async (path: string, body: any): Promise<any> => {
-        const baseUrl = `http://localhost:${PORT}`;
-        const response = await fetch(`${baseUrl}${path}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(body)
-        });
-        if (!response.ok) {
-            const errText = await response.text();
-            throw new Error(`${path} failed: ${response.status} - ${errText.substring(0, 2000)}`);
+// --- RESUME A FAILED RUN (V3) ---
+// Re-enqueues the run; steps with a checkpoint are restored instead of re-executed
+app.post('/v3/runs/:id/resume', async (req, res) => {
+    const reportId = req.params.id;
+
+    try {
+        const activeJob = findActiveJobForReport(reportId);
+        if (activeJob) {
+            return res.status(409).json({ error: 'Run is already in progress', jobId: activeJob.id });
         }
-        return response.json();
-    };
 
-    // Generic evaluator for most steps
-    const genericEvaluator = (data: any) => {
-        if (!data) return { quality: 'error' as const, issue: 'No data returned' };
-        const keys = Object.keys(data);
-        if (keys.length === 0) return { quality: 'empty' as const, issue: 'Empty object' };
-        return { quality: 'good' as const, metrics: { keys: keys.length } };
-    };
+        const reportDoc = await db.collection('reports').doc(reportId).get();
+        if (!reportDoc.exists) {
+            return res.status(404).json({ error: 'Report not found' });
+        }
 
-    // Wrap step execution with pipeline logging
-    const runLoggedStep = async (
-        stepConfig: { name: string; order: number; stepKey?: string },
-        input: any,
-        executor: () => Promise<any>,
-        meta?: Record<string, any>
-    ) => {
-        const stepId = pipelineLogger.startStep(stepConfig, input);
-        try {
-            const result = await executor();
-            pipelineLogger.endStep(stepId, result, meta);
-            return result;
-        } catch (error) {
-            pipelineLogger.failStep(stepId, error instanceof Error ? error : new Error(String(error)));
-            throw error;
+        const report = reportDoc.data()!;
+        if (report.status === 'completed') {
+            return res.status(400).json({ error: 'Report already completed - nothing to resume' });
         }
-    };
 
-    try {
-        await orchestrator.log('workflow', `Starting V2 Pipeline Orchestration for: ${topic}`, 'info');
-
-        // ==========================================
-        // PHASE 1: NEWS RESEARCH (Steps 1-5)
-        // ==========================================
-
-        // Step 1: Keywords
-        const step1Result = await runLoggedStep(
-            { name: 'Keywords Generation', order: 1 },
-            { topic },
-            async () => {
-                const step1 = await orchestrator.runStep({
-                    name: 'step1_keywords',
-                    execute: async () => callEndpoint('/v2/step1-keywords', { topic }),
-                    evaluate: genericEvaluator,
-                    retryStrategy: 'broader_query',
-                    canSkip: false
-                });
-                return step1.data;
-            },
-            { stepKey: 'step1_keywords' }
-        );
-        const keywords = step1Result?.keywords || [];
-
-        // Step 2: Search
-        const step2Result = await runLoggedStep(
-            { name: 'Tavily Search', order: 2 },
-            { keywords },
-            async () => {
-                const step2 = await orchestrator.runStep({
-                    name: 'step2_search',
-                    execute: async () => callEndpoint('/v2/step2-search', { keywords }),
-                    evaluate: genericEvaluator,
-                    retryStrategy: 'broader_query',
-                    canSkip: false
-                });
-                return step2.data;
-            },
-            { stepKey: 'step2_search', keywordCount: keywords.length }
-        );
-        const searchResults = step2Result?.results || [];
-
-        // Step 3: Scrape
-        const urls = searchResults.slice(0, 5).map((r: any) => r.url);
-        const step3Result = await runLoggedStep(
-            { name: 'Article Scraping', order: 3 },
-            { urls },
-            async () => {
-                const step3 = await orchestrator.runStep({
-                    name: 'step3_scrape',
-                    execute: async () => callEndpoint('/v2/step3-scrape', { urls }),
-                    evaluate: genericEvaluator,
-                    retryStrategy: 'skip',
-                    canSkip: true
-                });
-                return step3.data;
-            },
-            { stepKey: 'step3_scrape', urlCount: urls.length }
-        );
-        const scrapeResults = step3Result?.results || [];
-
-        // Step 4: Structure
-        const articlesToStructure = scrapeResults
-            .filter((r: any) => r.markdown && r.markdown.length > 500)
-            .map((r: any) => ({ markdown: r.markdown, url: r.metadata?.sourceURL || r.url }));
-
-        const step4Result = await runLoggedStep(
-            { name: 'Content Structuring', order: 4 },
-            { articleCount: articlesToStructure.length },
-            async () => {
-                const step4 = await orchestrator.runStep({
-                    name: 'step4_structure',
-                    execute: async () => callEndpoint('/v2/step4-structure', { articles: articlesToStructure }),
-                    evaluate: genericEvaluator,
-                    canSkip: true
-                });
-                return step4.data;
-            },
-            { stepKey: 'step4_structure' }
-        );
-        const structuredArticles = step4Result?.articles || [];
-
-        // Step 5: Summarize
-        const step5Result = await runLoggedStep(
-            { name: 'Article Summarization', order: 5 },
-            { articleCount: structuredArticles.length },
-            async () => {
-                const step5 = await orchestrator.runStep({
-                    name: 'step5_summarize',
-                    execute: async () => callEndpoint('/v2/step5-summarize', { articles: structuredArticles }),
-                    evaluate: genericEvaluator,
-                    canSkip: true
-                });
-                return step5.data;
-            },
-            { stepKey: 'step5_summarize' }
-        );
-        const summarizedArticles = step5Result?.articles || [];
-
-        // ==========================================
-        // PHASE 2: VIDEO INTELLIGENCE (Steps 6-8)
-        // ==========================================
-
-        // Step 6: Queries
-        const step6Result = await runLoggedStep(
-            { name: 'Video Query Generation', order: 6 },
-            { topic, articleCount: summarizedArticles.length },
-            async () => {
-                const step6 = await orchestrator.runStep({
-                    name: 'step6_queries',
-                    execute: async () => callEndpoint('/v2/step6-queries', { topic, articles: summarizedArticles }),
-                    evaluate: genericEvaluator,
-                    canSkip: true
-                });
-                return step6.data;
-            },
-            { stepKey: 'step6_queries' }
-        );
-        const videoQueries = step6Result?.queries || [topic];
-
-        // Step 7: Videos
-        const step7Result = await runLoggedStep(
-            { name: 'YouTube Search', order: 7 },
-            { queries: videoQueries },
-            async () => {
-                const step7 = await orchestrator.runStep({
-                    name: 'step7_videos',
-                    execute: async () => callEndpoint('/v2/step7-videos', { queries: videoQueries }),
-                    evaluate: genericEvaluator,
-                    retryStrategy: 'broader_query',
-                    canSkip: true
-                });
-                return step7.data;
-            },
-            { stepKey: 'step7_videos' }
-        );
-        const videos = step7Result?.videos || [];
-
-        // Step 8: Transcribe
-        // We only transcribe top 3 to save time/cost
-        const step8Result = await runLoggedStep(
-            { name: 'Video Transcription', order: 8 },
-            { videoCount: Math.min(videos.length, 3) },
-            async () => {
-                const step8 = await orchestrator.runStep({
-                    name: 'step8_transcribe',
-                    execute: async () => callEndpoint('/v2/step8-transcribe', { videos: videos.slice(0, 3) }),
-                    evaluate: genericEvaluator,
-                    canSkip: true
-                });
-                return step8.data;
-            },
-            { stepKey: 'step8_transcribe' }
-        );
-        const transcribedVideos = step8Result?.videos || videos.slice(0, 3);
-
-        // ==========================================
-        // PHASE 3: ANALYSIS & MERGE (Steps 9-10)
-        // ==========================================
-
-        // Step 9: Verify & Classify (Parallel-ish) via Merge
-        // detailed steps 9-verify and 9-classify skipped for speed, going straight to merge which is stronger
-
-        // Step 9: Merge
-        const step9Result = await runLoggedStep(
-            { name: 'Knowledge Base Merge', order: 9 },
-            { topic, articleCount: summarizedArticles.length, videoCount: transcribedVideos.length },
-            async () => {
-                const step9 = await orchestrator.runStep({
-                    name: 'step9_merge',
-                    evaluate: genericEvaluator,
-                    execute: async () => callEndpoint('/v2/step9-merge', {
-                        topic,
-                        articles: summarizedArticles,
-                        videos: transcribedVideos,
-                        enrich: true
-                    }),
-                    canSkip: false // Critical step
-                });
-                return step9.data;
-            },
-            { stepKey: 'step9_merge' }
-        );
-        const mergedSources = step9Result?.sources || [];
-
-        // Step 10: Normalize
-        const step10Result = await runLoggedStep(
-            { name: 'Source Normalization', order: 10 },
-            { sourceCount: mergedSources.length },
-            async () => {
-                const step10 = await orchestrator.runStep({
-                    name: 'step10_normalize',
-                    evaluate: genericEvaluator,
-                    execute: async () => callEndpoint('/v2/step10-normalize', {
-                        topic,
-                        articles: [],
-                        videos: []
-                    }),
-                    canSkip: true
-                });
-                return step10.data;
-            },
-            { stepKey: 'step10_normalize' }
-        );
-        // We'll use mergedSources as the source of truth for analysis
-
-        // ==========================================
-        // PHASE 4: FINAL REPORT (Steps 11-13)
-        // ==========================================
-
-        // Step 11: Deep Analysis
-        const step11Result = await runLoggedStep(
-            { name: 'Deep Analysis', order: 11 },
-            { topic, sourceCount: mergedSources.length },
-            async () => {
-                const step11 = await orchestrator.runStep({
-                    name: 'step11_analyze',
-                    evaluate: genericEvaluator,
-                    execute: async () => callEndpoint('/v2/step11-analyze', { topic, sources: mergedSources }),
-                    canSkip: false
-                });
-                return step11.data;
-            },
-            { stepKey: 'step11_analyze' }
-        );
-        const analysis = step11Result || {};
-
-        // Step 12: Content Ideas
-        const step12Result = await runLoggedStep(
-            { name: 'Content Ideas', order: 12 },
-            { hasAnalysis: !!analysis.executive_summary },
-            async () => {
-                const step12 = await orchestrator.runStep({
-                    name: 'step12_content',
-                    evaluate: genericEvaluator,
-                    execute: async () => callEndpoint('/v2/step12-content', { analysis }),
-                    canSkip: true
-                });
-                return step12.data;
-            },
-            { stepKey: 'step12_content' }
-        );
-        const contentIdeas = step12Result || {};
-
-        // Step 13: Final Report
-        const step13Result = await runLoggedStep(
-            { name: 'Report Assembly', order: 13 },
-            { topic, sourceCount: mergedSources.length },
-            async () => {
-                const step13 = await orchestrator.runStep({
-                    name: 'step13_report',
-                    evaluate: (data: any) => {
-                        if (!data?.report_id && !data?.id) return { quality: 'error' as const, issue: 'No report ID returned' };
-                        return { quality: 'good' as const, metrics: { reportId: data.report_id } };
-                    },
-                    execute: async () => callEndpoint('/v2/step13-report', {
-                        topic,
-                        sources: mergedSources,
-                        deep_analysis: analysis,
-                        content_ideas: contentIdeas,
-                        executive_summary: analysis.executive_summary
-                    }),
-                    canSkip: false
-                });
-                return step13.data;
-            },
-            { stepKey: 'step13_report' }
-        );
-
-        // Get the report data from step13
-        const reportData = step13Result || {};
-
-        await orchestrator.log('workflow', 'V2 Pipeline Completed Successfully', 'success');
-        await orchestrator.finalize(true);
-
-        // Finalize pipeline logger
-        const pipelineRun = pipelineLogger.endRun('completed');
-
-        // Save complete report to Firestore
-        await db.collection('reports').doc(reportId).update({
-            status: 'completed',
-            // Fields the frontend expects
-            summary: reportData?.formatted_report || '',  // Main report content
-            ideas: reportData?.data?.content_ideas ?
-                reportData.data.content_ideas.map((idea: any) =>
-                    `**${idea.platform}**: ${idea.hook}\n${idea.script}\n`
-                ).join('\n---\n') : '',  // Content ideas formatted
-            // Additional data
-            report_id: reportData?.report_id,
-            quality_check: reportData?.quality_check,
-            sources: reportData?.data?.sources,
-            generated_at: reportData?.generated_at,
-            completedAt: new Date().toISOString(),
-            // Pipeline metrics
-            pipelineSummary: pipelineRun.summary
+        const checkpointedSteps = await listCheckpointedSteps(reportId);
+
+        await reportDoc.ref.update({ status: 'generating', error: null });
+
+        const job = enqueueJob({
+            topic: report.topic,
+            reportId,
+            config: {
+                isPublic: report.isPublic,
+                userId: report.userId,
+                resume: true,
+                // Same depth as the original run (reports from before profiles run as standard)
+                profile: resolveResearchProfile(report.researchProfile?.name, report.researchProfile?.overrides)
+            }
         });
 
-        console.log(`[V3 Orchestrator] ✅ Sending success response for reportId: ${reportId}`);
-        res.json({
+        console.log(`[V3 Resume] Resuming ${reportId} with ${checkpointedSteps.length} checkpointed step(s)`);
+
+        res.status(202).json({
             success: true,
+            jobId: job.id,
             reportId,
-            logs: orchestrator.getHistory(),
-            pipeline: pipelineRun  // Include full pipeline log
+            status: job.status,
+            checkpointedSteps,
+            statusUrl: `/v3/jobs/${job.id}`,
+            eventsUrl: `/v3/runs/${reportId}/events`
         });
+    } catch (error) {
+        console.error('[V3 Resume] Error:', error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        res.status(500).json({ error: (error as any).message });
+    }
+});
 
-        // Clear the singleton after sending response
-        clearPipelineLogger();
+// --- CANCEL A RUN (V3) ---
+// Queued jobs are dropped; running jobs are aborted and end with status 'cancelled'
+app.post('/v3/runs/:id/cancel', async (req, res) => {
+    const reportId = req.params.id;
 
-    } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        await orchestrator.log('workflow', `Pipeline Failed: ${errorMsg}`, 'error');
-        await orchestrator.finalize(false);
+    try {
+        const activeJob = findActiveJobForReport(reportId);
+        if (!activeJob) {
+            return res.status(404).json({ error: 'No active run for this report' });
+        }
 
-        // Finalize pipeline logger with failure
-        const pipelineRun = pipelineLogger.endRun('failed');
+        const wasQueued = activeJob.status === 'queued';
+        const cancelled = await cancelJob(activeJob.id);
+        if (!cancelled) {
+            return res.status(409).json({ error: 'Run already finished', jobId: activeJob.id, status: activeJob.status });
+        }
 
-        // Update Firestore report status to 'failed'
-        try {
-            await db.collection('reports').doc(reportId).update({
-                status: 'failed',
-                error: errorMsg,
-                pipelineSummary: pipelineRun.summary
-            });
-        } catch (e) {
-            console.error('[V3 Orchestrator] Failed to update report status:', e);
+        // A queued job never reaches the workflow, so mark the report here
+        if (wasQueued) {
+            await db.collection('reports').doc(reportId).update({ status: 'cancelled', cancelledAt: new Date().toISOString() });
         }
 
-        res.status(500).json({
-            success: false,
-            error: errorMsg,
-            logs: orchestrator.getHistory(),
-            pipeline: pipelineRun  // Include pipeline log even on failure
+        console.log(`[V3 Cancel] Cancel requested for ${reportId} (job ${activeJob.id})`);
+
+        res.status(202).json({
+            success: true,
+            jobId: activeJob.id,
+            reportId,
+            status: wasQueued ? 'cancelled' : 'cancelling',
+            statusUrl: `/v3/jobs/${activeJob.id}`
         });
+    } catch (error) {
+        console.error('[V3 Cancel] Error:', error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        res.status(500).json({ error: (error as any).message });
+    }
+});
 
-        // Clear the singleton
-        clearPipelineLogger();
+// --- JOB STATUS (V3) ---
+app.get('/v3/jobs/:id', async (req, res) => {
+    const job = await getJob(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
     }
+    res.json(job);
 });
+
+// --- LLM USAGE HISTORY (V3) ---
+// Requests, tokens and estimated cost per day, model and task (?days=30, max 365)
+app.get('/v3/usage', async (req, res) => {
+    const days = Math.min(Math.max(parseInt(String(req.query.days || '30'), 10) || 30, 1), 365);
+
+    try {
+        res.json(await getUsageHistory(days));
+    } catch (error) {
+        console.error('[V3 Usage] Error:', error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        res.status(500).json({ error: (error as any).message });
+    }
+});
+
+// --- PROMPT REGISTRY & EXPERIMENTS (V3) ---
+// Registered prompt versions and the A/B experiments between them (promptRegistry.ts)
+app.get('/v3/prompts', async (req, res) => {
+    try {
+        res.json({ prompts: listPrompts(), experiments: await getPromptExperiments() });
+    } catch (error) {
+        console.error('[V3 Prompts] Error:', error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        res.status(500).json({ error: (error as any).message });
+    }
+});
+
+app.put('/v3/prompts/experiments', async (req, res) => {
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    try {
+        res.json(await savePromptExperiments(req.body, admin));
+    } catch (error) {
+        if (error instanceof PromptConfigError) {
+            return res.status(400).json({ error: error.message, issues: error.issues });
+        }
+        console.error('[V3 Prompts] Save failed:', error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        res.status(500).json({ error: (error as any).message });
+    }
+});
+
+// Per-variant QualityCheck grades and quality_metrics (?experiment=name for one)
+app.get('/v3/prompts/experiments/results', async (req, res) => {
+    try {
+        const name = typeof req.query.experiment === 'string' ? req.query.experiment : undefined;
+        res.json({ experiments: await getExperimentResults(name) });
+    } catch (error) {
+        console.error('[V3 Prompts] Results error:', error);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        res.status(500).json({ error: (error as any).message });
+    }
+});
+
+// --- LIVE RUN EVENTS (V3, Server-Sent Events) ---
+// Step start/end/fail, model attempts and AI decisions for one run (run ID = reportId)
+app.get('/v3/runs/:id/events', (req, res) => {
+    const runId = req.params.id;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');  // Disable proxy buffering (HF Spaces / nginx)
+    res.flushHeaders();
+
+    const send = (event: RunEvent) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Replay what already happened (client may connect after the job started)
+    const backlog = getRecentRunEvents(runId);
+    backlog.forEach(send);
+    if (backlog.some(event => event.type === 'run_end')) {
+        return res.end();
+    }
+
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+    const unsubscribe = subscribeToRun(runId, (event) => {
+        send(event);
+        if (event.type === 'run_end') res.end();
+    });
+
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
+
+// Model chains from config/models or MODEL_CONFIG_PATH, refreshed in the background
+void startModelConfigRefresh();
+
+// Worker: runs queued research jobs outside of the request lifecycle
+startJobWorker(async (job, signal) => runResearchWorkflow({
+    topic: job.topic,
+    reportId: job.reportId,
+    ...job.config,
+    signal
+}));
+
 app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
 });
@@ -0,0 +1,66 @@
+/**
+ * cassette.test.ts
+ * Replays cassettes/keywords-rate-limit.json: Groq rate-limits the first model in
+ * the KEYWORDS chain (429) and the second one answers
+ */
+
+import './setup';
+import path from 'path';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setProviders, resetProviders } from '../src/lib/providers';
+import { InMemoryDocumentStore } from '../src/lib/fakeProviders';
+import { saveModelConfig } from '../src/lib/modelConfig';
+import { callLLM } from '../src/lib/llmProvider';
+import { getQuotaStatus } from '../src/lib/quotaTracker';
+import { getModelHealth } from '../src/lib/modelHealth';
+import { resetCassette } from '../src/lib/cassette';
+
+describe('cassette replay', () => {
+    before(async () => {
+        process.env.CASSETTE_MODE = 'replay';
+        process.env.CASSETTE_DIR = path.join(__dirname, 'cassettes');
+        process.env.CASSETTE_NAME = 'keywords-rate-limit';
+        delete process.env.GROQ_API_KEY;  // Nothing may go out
+        resetCassette();
+
+        // The chain the cassette was recorded with
+        setProviders({ documents: new InMemoryDocumentStore() });
+        await saveModelConfig({
+            tasks: {
+                KEYWORDS: {
+                    chain: [
+                        { provider: 'groq', model: 'llama-3.1-8b-instant' },
+                        { provider: 'groq', model: 'llama-3.3-70b-versatile' }
+                    ]
+                }
+            }
+        });
+    });
+
+    after(() => {
+        process.env.CASSETTE_MODE = 'off';
+        resetCassette();
+        resetProviders();
+    });
+
+    it('treats a replayed 429 as a rate limit and falls back to the next model', async () => {
+        const content = await callLLM({
+            task: 'KEYWORDS',
+            messages: [
+                { role: 'system', content: 'Return JSON: {"keywords": string[]}' },
+                { role: 'user', content: 'Suggest news search keywords for: gaza ceasefire talks' }
+            ],
+            temperature: 0.2,
+            jsonMode: true
+        });
+
+        assert.deepEqual(JSON.parse(content), { keywords: ['gaza ceasefire', 'ceasefire negotiations', 'humanitarian aid gaza'] });
+
+        // The rate-limited model cools down in the quota tracker...
+        const quota = getQuotaStatus().find(status => status.key === 'groq/llama-3.1-8b-instant');
+        assert.ok(quota?.blockedUntil, 'rate-limited model is blocked');
+        // ...and is not counted as a failure by the circuit breaker
+        assert.equal(getModelHealth('groq', 'llama-3.1-8b-instant').consecutiveFailures, 0);
+    });
+});
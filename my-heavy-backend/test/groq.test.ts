@@ -0,0 +1,47 @@
+/**
+ * groq.test.ts
+ * Legacy callGroqWithFallback - which TaskType a model chain is routed to
+ */
+
+import './setup';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeProviders, FakeProviders } from '../src/lib/fakeProviders';
+import { resetProviders } from '../src/lib/providers';
+import { callGroqWithFallback, MODEL_CHAINS } from '../src/lib/groq';
+
+const messages = [{ role: 'user' as const, content: 'Suggest news search keywords for: gaza ceasefire talks' }];
+
+let fakes: FakeProviders;
+
+describe('callGroqWithFallback', () => {
+    beforeEach(() => {
+        fakes = installFakeProviders();
+    });
+
+    afterEach(() => {
+        resetProviders();
+    });
+
+    it('maps a copy of a legacy chain to its task', async () => {
+        await callGroqWithFallback({ messages, modelChain: [...MODEL_CHAINS.KEYWORDS] });
+        await callGroqWithFallback({ messages, modelChain: ['llama-3.1-8b-instant', 'llama-3.3-70b-versatile'] });
+
+        assert.equal(fakes.llm.callsFor('KEYWORDS').length, 1);
+        assert.equal(fakes.llm.callsFor('SUMMARIZE').length, 1);
+    });
+
+    it('routes the default chain and unknown chains to the general report task', async () => {
+        await callGroqWithFallback({ messages, modelChain: MODEL_CHAINS.DEFAULT });
+        await callGroqWithFallback({ messages, modelChain: ['mixtral-8x7b-32768'] });
+
+        assert.equal(fakes.llm.callsFor('REPORT').length, 2);
+        assert.equal(fakes.llm.callsFor('REASONING').length, 0);
+    });
+
+    it('prefers an explicit task', async () => {
+        await callGroqWithFallback({ messages, modelChain: MODEL_CHAINS.CLASSIFY, task: 'CLASSIFY' });
+
+        assert.equal(fakes.llm.callsFor('CLASSIFY').length, 1);
+    });
+});
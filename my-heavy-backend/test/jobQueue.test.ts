@@ -0,0 +1,56 @@
+/**
+ * jobQueue.test.ts
+ * Background jobs - startup recovery of jobs cut off by a restart, and a normal run
+ */
+
+import './setup';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setProviders, resetProviders } from '../src/lib/providers';
+import { InMemoryDocumentStore } from '../src/lib/fakeProviders';
+import { startJobWorker, enqueueJob, getJob } from '../src/lib/jobQueue';
+
+const documents = new InMemoryDocumentStore();
+
+async function waitForStatus(jobId: string, status: string): Promise<void> {
+    for (let i = 0; i < 100; i++) {
+        if ((await getJob(jobId))?.status === status) return;
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    assert.fail(`job ${jobId} never reached ${status}`);
+}
+
+describe('job queue', () => {
+    before(async () => {
+        setProviders({ documents });
+        // Left behind by the previous process
+        await documents.collection('jobs').doc('job_running').set({ id: 'job_running', reportId: 'report_a', status: 'running' });
+        await documents.collection('jobs').doc('job_queued').set({ id: 'job_queued', reportId: 'report_b', status: 'queued' });
+        await documents.collection('jobs').doc('job_done').set({ id: 'job_done', reportId: 'report_c', status: 'completed' });
+        await documents.collection('reports').doc('report_a').set({ status: 'processing' });
+        await documents.collection('reports').doc('report_b').set({ status: 'processing' });
+
+        startJobWorker(async () => ({ success: true }));
+    });
+
+    after(() => {
+        resetProviders();
+    });
+
+    it('marks jobs interrupted by a restart as failed', async () => {
+        await waitForStatus('job_running', 'failed');
+        await waitForStatus('job_queued', 'failed');
+
+        assert.equal(documents.getDocument('jobs/job_done')?.status, 'completed');
+        assert.equal(documents.getDocument('reports/report_a')?.status, 'failed');
+        assert.equal(documents.getDocument('reports/report_b')?.status, 'failed');
+        assert.match(String(documents.getDocument('jobs/job_running')?.error), /restart/);
+    });
+
+    it('runs a new job to completion', async () => {
+        const job = enqueueJob({ topic: 'gaza ceasefire talks', reportId: 'report_new' });
+
+        await waitForStatus(job.id, 'completed');
+        assert.equal(documents.getDocument(`jobs/${job.id}`)?.status, 'completed');
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * knowledgeBase.test.ts
+ * mergeKnowledgeBase - summarized articles and videos into one source list
+ */
+
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeKnowledgeBase, ArticleInput, VideoInput } from '../src/lib/knowledgeBase';
+
+const article: ArticleInput = {
+    id: 3,
+    url: 'https://news.example.com/ceasefire',
+    publisher: 'Example News',
+    headline_summary: 'Ceasefire talks resume',
+    summary_bullets: ['Negotiators met again', 'Aid access remains limited']
+};
+
+const video: VideoInput = {
+    video_id: 'abc123',
+    title: 'Ceasefire explained',
+    url: 'https://www.youtube.com/watch?v=abc123',
+    channel: 'Example Channel',
+    published_at: '2025-01-01T00:00:00Z',
+    description: 'A long description. '.repeat(30),
+    views: '1000',
+    relevance_score: 0.8,
+    reason: 'Covers the talks'
+};
+
+describe('mergeKnowledgeBase', () => {
+    it('normalizes articles and videos into unified sources', () => {
+        const { sources, stats } = mergeKnowledgeBase({ articles: [article], videos: [video] });
+
+        assert.equal(sources.length, 2);
+        assert.deepEqual(stats, { total: 2, by_type: { article: 1, video: 1, tweet: 0, reddit_post: 0 } });
+
+        const [merged, mergedVideo] = sources;
+        assert.equal(merged.id, 'article_3');
+        assert.equal(merged.type, 'article');
+        assert.equal(merged.title, article.headline_summary);
+        assert.deepEqual(merged.key_facts, article.summary_bullets);
+
+        assert.equal(mergedVideo.id, 'video_abc123');
+        assert.equal(mergedVideo.publisher, 'Example Channel');
+        assert.equal(mergedVideo.summary.length, 300);  // Descriptions are cut to 300 chars
+        assert.deepEqual(mergedVideo.key_facts, []);
+        assert.equal(mergedVideo.metadata.relevance_score, 0.8);
+    });
+
+    it('numbers articles without an id by position', () => {
+        const { sources } = mergeKnowledgeBase({ articles: [{ ...article, id: undefined }, { ...article, id: undefined }] });
+        assert.deepEqual(sources.map(s => s.id), ['article_0', 'article_1']);
+    });
+
+    it('returns an empty knowledge base for empty input', () => {
+        const { sources, stats } = mergeKnowledgeBase({});
+        assert.deepEqual(sources, []);
+        assert.equal(stats.total, 0);
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * llmCache.test.ts
+ * callLLM with LLM_CACHE=true - cache key, expiry, per-task opt-out, admin clear
+ * and prompts trimmed to fit a small model
+ */
+
+import './setup';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setProviders, resetProviders } from '../src/lib/providers';
+import { InMemoryDocumentStore } from '../src/lib/fakeProviders';
+import { saveModelConfig } from '../src/lib/modelConfig';
+import { registerModelProvider, CompletionRequest } from '../src/lib/modelProviders';
+import { MODEL_CAPABILITIES } from '../src/lib/modelCapabilities';
+import { clearCache, getCacheStats } from '../src/lib/llmCache';
+import { callLLM } from '../src/lib/llmProvider';
+
+const CACHE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'insight-test-llm-cache-'));
+
+// Answers with the model's name
+const requests: CompletionRequest[] = [];
+registerModelProvider({
+    name: 'recorder',
+    isConfigured: () => true,
+    complete: async (request) => {
+        requests.push(request);
+        return { content: `answer from ${request.model}` };
+    }
+});
+
+MODEL_CAPABILITIES['recorder/small'] = { contextWindow: 4096, maxOutputTokens: 1024, jsonMode: true };
+MODEL_CAPABILITIES['recorder/large'] = { contextWindow: 131072, maxOutputTokens: 4096, jsonMode: true };
+
+const chains = {
+    KEYWORDS: { chain: [{ provider: 'recorder', model: 'large' }] },
+    SUMMARIZE: { chain: [{ provider: 'recorder', model: 'large' }], cache: false },
+    CLASSIFY: { chain: [{ provider: 'recorder', model: 'small' }, { provider: 'recorder', model: 'large' }] }
+};
+
+const ask = (content: string, temperature?: number) =>
+    callLLM({ task: 'KEYWORDS', messages: [{ role: 'user', content }], temperature });
+
+async function cacheFiles(): Promise<string[]> {
+    return (await fs.promises.readdir(CACHE_DIR)).filter(file => file.endsWith('.json'));
+}
+
+describe('LLM cache', () => {
+    before(async () => {
+        process.env.LLM_CACHE = 'true';
+        process.env.LLM_CACHE_DIR = CACHE_DIR;
+        setProviders({ documents: new InMemoryDocumentStore() });
+    });
+
+    after(() => {
+        process.env.LLM_CACHE = 'false';
+        delete process.env.LLM_CACHE_DIR;
+        resetProviders();
+        fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await saveModelConfig({ tasks: chains });
+        await clearCache();
+        requests.length = 0;
+    });
+
+    it('answers a repeated prompt from the cache', async () => {
+        const first = await ask('Suggest keywords for: ceasefire talks');
+        const second = await ask('Suggest keywords for: ceasefire talks');
+
+        assert.equal(second, first);
+        assert.equal(requests.length, 1);
+    });
+
+    it('keys entries by messages and temperature', async () => {
+        await ask('Suggest keywords for: ceasefire talks', 0.2);
+        await ask('Suggest keywords for: aid convoys', 0.2);
+        await ask('Suggest keywords for: ceasefire talks', 0.7);
+
+        assert.equal(requests.length, 3);
+        assert.equal((await cacheFiles()).length, 3);
+    });
+
+    it('deletes an expired entry and asks the model again', async () => {
+        await ask('Suggest keywords for: ceasefire talks');
+        const [file] = await cacheFiles();
+        const entry = JSON.parse(await fs.promises.readFile(path.join(CACHE_DIR, file), 'utf-8'));
+        await fs.promises.writeFile(path.join(CACHE_DIR, file), JSON.stringify({ ...entry, expiresAt: new Date(Date.now() - 1000).toISOString() }));
+
+        await ask('Suggest keywords for: ceasefire talks');
+
+        assert.equal(requests.length, 2);
+        const [renewed] = await cacheFiles();
+        const stored = JSON.parse(await fs.promises.readFile(path.join(CACHE_DIR, renewed), 'utf-8'));
+        assert.ok(Date.parse(stored.expiresAt) > Date.now());
+    });
+
+    it('skips the cache for a task that opts out', async () => {
+        await callLLM({ task: 'SUMMARIZE', messages: [{ role: 'user', content: 'Summarize: talks resume' }] });
+        await callLLM({ task: 'SUMMARIZE', messages: [{ role: 'user', content: 'Summarize: talks resume' }] });
+
+        assert.equal(requests.length, 2);
+        assert.equal((await getCacheStats()).byTask.SUMMARIZE, undefined);
+    });
+
+    it('clears only the entries of the given task', async () => {
+        await ask('Suggest keywords for: ceasefire talks');
+        await callLLM({ task: 'CLASSIFY', messages: [{ role: 'user', content: 'Classify: talks resume' }] });
+
+        assert.equal(await clearCache({ task: 'KEYWORDS' }), 1);
+
+        const stats = await getCacheStats();
+        assert.equal(stats.entries, 1);
+        assert.deepEqual(stats.byTask, { CLASSIFY: 1 });
+    });
+
+    it('does not answer the full prompt with a response to a trimmed one', async () => {
+        // Too long for "small", which gets a trimmed copy while it is the only model
+        const longPrompt = `Classify these articles:\n${'Negotiators met again in Cairo.\n'.repeat(1000)}`;
+        await saveModelConfig({ tasks: { ...chains, CLASSIFY: { chain: [{ provider: 'recorder', model: 'small' }] } } });
+        const trimmedAnswer = await callLLM({ task: 'CLASSIFY', messages: [{ role: 'user', content: longPrompt }] });
+        assert.equal(trimmedAnswer, 'answer from small');
+        assert.match(requests[0].messages[0].content, /tokens of context omitted/);
+
+        // Same input once a model with room for all of it is back in the chain
+        await saveModelConfig({ tasks: chains });
+        const fullAnswer = await callLLM({ task: 'CLASSIFY', messages: [{ role: 'user', content: longPrompt }] });
+
+        assert.equal(fullAnswer, 'answer from large');
+        assert.equal(requests[1].messages[0].content, longPrompt);
+    });
+});
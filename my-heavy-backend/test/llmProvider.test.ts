@@ -0,0 +1,73 @@
+/**
+ * llmProvider.test.ts
+ * callLLM - how the model config's temperature and JSON mode combine with the caller's
+ */
+
+import './setup';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setProviders, resetProviders } from '../src/lib/providers';
+import { InMemoryDocumentStore } from '../src/lib/fakeProviders';
+import { saveModelConfig } from '../src/lib/modelConfig';
+import { registerModelProvider, CompletionRequest } from '../src/lib/modelProviders';
+import { callLLM } from '../src/lib/llmProvider';
+import { callGroqWithFallback } from '../src/lib/groq';
+
+// Provider plugin that answers every request and keeps what it was sent
+const requests: CompletionRequest[] = [];
+registerModelProvider({
+    name: 'recorder',
+    isConfigured: () => true,
+    complete: async (request) => {
+        requests.push(request);
+        return { content: '{"keywords":["ceasefire"]}' };
+    }
+});
+
+const messages = [{ role: 'user' as const, content: 'Suggest news search keywords for: gaza ceasefire talks' }];
+
+describe('callLLM task config', () => {
+    before(async () => {
+        setProviders({ documents: new InMemoryDocumentStore() });
+        await saveModelConfig({
+            tasks: {
+                KEYWORDS: { chain: [{ provider: 'recorder', model: 'echo' }], temperature: 0.9, jsonMode: false },
+                SUMMARIZE: { chain: [{ provider: 'recorder', model: 'echo' }], jsonMode: true }
+            }
+        });
+    });
+
+    after(() => {
+        resetProviders();
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+    });
+
+    it('applies the configured temperature over the caller\'s', async () => {
+        await callLLM({ task: 'KEYWORDS', messages, temperature: 0.2 });
+
+        assert.equal(requests[0].temperature, 0.9);
+    });
+
+    it('keeps the caller\'s JSON mode', async () => {
+        await callLLM({ task: 'KEYWORDS', messages: [{ ...messages[0], content: `${messages[0].content} (json)` }], jsonMode: true });
+
+        assert.equal(requests[0].jsonMode, true);
+    });
+
+    it('falls back to the configured JSON mode when the caller sets none', async () => {
+        await callLLM({ task: 'KEYWORDS', messages: [{ ...messages[0], content: `${messages[0].content} (defaults)` }] });
+
+        assert.equal(requests[0].temperature, 0.9);
+        assert.equal(requests[0].jsonMode, false);
+    });
+
+    it('leaves legacy Groq calls without a temperature or JSON mode to the task config', async () => {
+        await callGroqWithFallback({ messages: [{ role: 'user', content: 'Summarize: ceasefire talks resume' }], modelChain: [], task: 'SUMMARIZE' });
+
+        assert.equal(requests[0].jsonMode, true);
+        assert.equal(requests[0].temperature, 0.3);  // Nothing configured - callLLM's default
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * modelCapabilities.test.ts
+ * Trimming prompts to a model's context window, and callLLM routing long prompts
+ * past models that cannot hold them
+ */
+
+import './setup';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setProviders, resetProviders } from '../src/lib/providers';
+import { InMemoryDocumentStore } from '../src/lib/fakeProviders';
+import { saveModelConfig } from '../src/lib/modelConfig';
+import { registerModelProvider, CompletionRequest } from '../src/lib/modelProviders';
+import { MODEL_CAPABILITIES, getModelCapability, getPromptBudget, estimateMessageTokens, trimMessagesToFit } from '../src/lib/modelCapabilities';
+import { callLLM } from '../src/lib/llmProvider';
+
+// Answers with the model's name
+const requests: CompletionRequest[] = [];
+registerModelProvider({
+    name: 'recorder',
+    isConfigured: () => true,
+    complete: async (request) => {
+        requests.push(request);
+        return { content: `answer from ${request.model}` };
+    }
+});
+
+MODEL_CAPABILITIES['recorder/small'] = { contextWindow: 4096, maxOutputTokens: 1024, jsonMode: false };
+MODEL_CAPABILITIES['recorder/large'] = { contextWindow: 131072, maxOutputTokens: 8192, jsonMode: true };
+
+// ~8k tokens between an instruction at the start and one at the end
+const articles = Array.from({ length: 800 }, (_, i) => `Article ${i}: negotiators met again in Cairo.`).join('\n');
+const longPrompt = `Summarize the articles below.\n${articles}\nAnswer in three sentences.`;
+
+describe('trimMessagesToFit', () => {
+    it('leaves a prompt that fits untouched', () => {
+        const messages = [{ role: 'user' as const, content: 'Summarize: talks resume' }];
+
+        assert.deepEqual(trimMessagesToFit(messages, 100), { messages });
+    });
+
+    it('cuts the middle of the longest message and keeps its head and tail', () => {
+        const messages = [
+            { role: 'system' as const, content: 'You summarize news.' },
+            { role: 'user' as const, content: longPrompt }
+        ];
+
+        const { messages: trimmed, trim } = trimMessagesToFit(messages, 2000);
+
+        assert.ok(trim);
+        assert.equal(trim.messageIndex, 1);
+        assert.ok(estimateMessageTokens(trimmed) <= 2000);
+        assert.equal(trimmed[0], messages[0]);
+        const content = trimmed[1].content;
+        assert.ok(content.startsWith('Summarize the articles below.\nArticle 0:'));
+        assert.ok(content.endsWith('Article 799: negotiators met again in Cairo.\nAnswer in three sentences.'));
+        assert.match(content, new RegExp(`\\n\\[\\.\\.\\. ${trim.droppedTokens} tokens of context omitted to fit the model's context window \\.\\.\\.\\]\\n`));
+        // Cut on line boundaries: every article left is whole
+        content.split('\n').filter(line => line.startsWith('Article')).forEach(line => assert.match(line, /^Article \d+: negotiators met again in Cairo\.$/));
+    });
+
+    it('assumes a small context for models missing from the table', () => {
+        const capability = getModelCapability('recorder', 'unlisted');
+
+        assert.deepEqual(capability, { contextWindow: 32768, maxOutputTokens: 4096, jsonMode: true });
+        assert.equal(getPromptBudget(capability), 32768 - 4096);
+    });
+});
+
+describe('callLLM context routing', () => {
+    before(() => {
+        setProviders({ documents: new InMemoryDocumentStore() });
+    });
+
+    after(() => {
+        resetProviders();
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+    });
+
+    it('skips a model whose context is too small when a later one can hold the prompt', async () => {
+        await saveModelConfig({ tasks: { SUMMARIZE: { chain: [{ provider: 'recorder', model: 'small' }, { provider: 'recorder', model: 'large' }] } } });
+
+        const answer = await callLLM({ task: 'SUMMARIZE', messages: [{ role: 'user', content: longPrompt }] });
+
+        assert.equal(answer, 'answer from large');
+        assert.deepEqual(requests.map(request => request.model), ['large']);
+        assert.equal(requests[0].messages[0].content, longPrompt);
+    });
+
+    it('sends short prompts to the first model as configured', async () => {
+        await saveModelConfig({ tasks: { SUMMARIZE: { chain: [{ provider: 'recorder', model: 'small' }, { provider: 'recorder', model: 'large' }] } } });
+
+        const answer = await callLLM({ task: 'SUMMARIZE', messages: [{ role: 'user', content: 'Summarize: talks resume' }], jsonMode: true });
+
+        assert.equal(answer, 'answer from small');
+        assert.equal(requests[0].jsonMode, false);  // Not supported by "small"
+    });
+
+    it('trims the prompt for the largest model when none can hold all of it', async () => {
+        await saveModelConfig({ tasks: { SUMMARIZE: { chain: [{ provider: 'recorder', model: 'large' }, { provider: 'recorder', model: 'small' }] } } });
+        const hugePrompt = `Summarize the articles below.\n${Array(20).fill(articles).join('\n')}\nAnswer in three sentences.`;
+
+        const answer = await callLLM({ task: 'SUMMARIZE', messages: [{ role: 'user', content: hugePrompt }] });
+
+        assert.equal(answer, 'answer from large');
+        const sent = requests[0].messages[0].content;
+        assert.ok(estimateMessageTokens(requests[0].messages) <= getPromptBudget(MODEL_CAPABILITIES['recorder/large']));
+        assert.ok(sent.startsWith('Summarize the articles below.'));
+        assert.ok(sent.endsWith('Answer in three sentences.'));
+        assert.match(sent, /tokens of context omitted/);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * modelHealth.test.ts
+ * Circuit breaker - opening after consecutive failures, the half-open probe, and
+ * chain ordering by health (default threshold 3, cooldown 60s)
+ */
+
+import './setup';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { canAttempt, recordOutcome, orderByHealth, getModelHealth } from '../src/lib/modelHealth';
+
+const COOLDOWN_MS = 60 * 1000;
+
+function fail(model: string, times: number): void {
+    for (let i = 0; i < times; i++) recordOutcome('groq', model, 'failure', 100, 'Service unavailable');
+}
+
+describe('circuit breaker', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T12:00:00Z') });
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    it('opens after three consecutive failures', () => {
+        fail('open-model', 2);
+        recordOutcome('groq', 'open-model', 'success', 100);
+        fail('open-model', 2);
+        assert.equal(canAttempt('groq', 'open-model').allowed, true, 'a success resets the count');
+
+        fail('open-model', 1);
+
+        const check = canAttempt('groq', 'open-model');
+        assert.equal(check.allowed, false);
+        assert.equal(check.reason, 'circuit open until 2025-01-01T12:01:00.000Z');
+        assert.equal(getModelHealth('groq', 'open-model').state, 'open');
+    });
+
+    it('does not count rate limits and cancellations as failures', () => {
+        fail('neutral-model', 2);
+        recordOutcome('groq', 'neutral-model', 'neutral', 100);
+        recordOutcome('groq', 'neutral-model', 'neutral', 100);
+
+        assert.equal(getModelHealth('groq', 'neutral-model').consecutiveFailures, 2);
+        assert.equal(canAttempt('groq', 'neutral-model').allowed, true);
+    });
+
+    it('lets one probe through after the cooldown and closes on its success', () => {
+        fail('probe-model', 3);
+        mock.timers.tick(COOLDOWN_MS);
+
+        const probe = canAttempt('groq', 'probe-model');
+        assert.deepEqual(probe, { allowed: true, probe: true });
+        assert.equal(getModelHealth('groq', 'probe-model').state, 'half_open');
+        assert.deepEqual(canAttempt('groq', 'probe-model'), { allowed: false, reason: 'half-open probe in flight' });
+
+        recordOutcome('groq', 'probe-model', 'success', 100);
+
+        assert.equal(getModelHealth('groq', 'probe-model').state, 'closed');
+        assert.deepEqual(canAttempt('groq', 'probe-model'), { allowed: true });
+    });
+
+    it('re-opens with a doubled cooldown when the probe fails', () => {
+        fail('flaky-model', 3);
+        mock.timers.tick(COOLDOWN_MS);
+        assert.equal(canAttempt('groq', 'flaky-model').probe, true);
+
+        fail('flaky-model', 1);
+
+        const health = getModelHealth('groq', 'flaky-model');
+        assert.equal(health.state, 'open');
+        assert.equal(health.nextProbeAt, '2025-01-01T12:03:00.000Z');
+        mock.timers.tick(COOLDOWN_MS);
+        assert.equal(canAttempt('groq', 'flaky-model').allowed, false);
+    });
+
+    it('releases a probe that was rate limited for the next caller', () => {
+        fail('limited-model', 3);
+        mock.timers.tick(COOLDOWN_MS);
+        assert.equal(canAttempt('groq', 'limited-model').probe, true);
+
+        recordOutcome('groq', 'limited-model', 'neutral', 100);
+
+        assert.equal(canAttempt('groq', 'limited-model').probe, true);
+    });
+
+    it('orders chains healthy first and open circuits last', () => {
+        fail('down-model', 3);
+        recordOutcome('groq', 'degraded-model', 'success', 100);
+        fail('degraded-model', 1);
+        recordOutcome('groq', 'degraded-model', 'success', 100);
+        fail('degraded-model', 1);
+        recordOutcome('groq', 'degraded-model', 'success', 100);
+        fail('degraded-model', 1);  // 3/6 successful
+
+        const chain = ['down-model', 'degraded-model', 'first-model', 'second-model'].map(model => ({ provider: 'groq', model }));
+
+        assert.deepEqual(orderByHealth(chain).map(entry => entry.model), ['first-model', 'second-model', 'degraded-model', 'down-model']);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * orchestrator.test.ts
+ * WorkflowOrchestrator.runStep - what happens once a step runs out of retries
+ */
+
+import './setup';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeProviders } from '../src/lib/fakeProviders';
+import { resetProviders } from '../src/lib/providers';
+import { createOrchestrator, StepEvaluation } from '../src/lib/orchestrator';
+
+const emptyEvaluation = (): StepEvaluation => ({ quality: 'empty', issue: 'No results' });
+
+function orchestrator() {
+    // No upstream reruns, so the step itself has to decide
+    return createOrchestrator({ reportId: 'report_orchestrator', topic: 'gaza ceasefire talks', enableAIDecisions: false, maxUpstreamReruns: 0 });
+}
+
+describe('runStep', () => {
+    beforeEach(() => {
+        installFakeProviders();
+    });
+
+    afterEach(() => {
+        resetProviders();
+    });
+
+    it('continues a step that cannot be skipped when its result stays empty', async () => {
+        let executions = 0;
+        const result = await orchestrator().runStep({
+            name: 'step2_search',
+            execute: async () => { executions++; return []; },
+            evaluate: emptyEvaluation,
+            retryStrategy: 'broader_query',
+            canSkip: false
+        });
+
+        assert.equal(result.aiDecision?.decision, 'continue');
+        assert.equal(result.success, true);
+        assert.deepEqual(result.data, []);
+        assert.ok(executions > 1, 'retried before giving up');
+    });
+
+    it('skips a skippable step when its result stays empty', async () => {
+        const result = await orchestrator().runStep({
+            name: 'step7_videos',
+            execute: async () => [],
+            evaluate: emptyEvaluation,
+            retryStrategy: 'broader_query',
+            canSkip: true
+        });
+
+        assert.equal(result.aiDecision?.decision, 'skip');
+        assert.equal(result.success, false);
+    });
+
+    it('continues a step that cannot be skipped when it keeps failing', async () => {
+        const result = await orchestrator().runStep({
+            name: 'step11_analyze',
+            execute: async () => null,
+            evaluate: (): StepEvaluation => ({ quality: 'error', issue: 'Model returned nothing' }),
+            canSkip: false
+        });
+
+        assert.equal(result.aiDecision?.decision, 'continue');
+    });
+});
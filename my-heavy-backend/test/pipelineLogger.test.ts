@@ -0,0 +1,55 @@
+/**
+ * pipelineLogger.test.ts
+ * Live progress - parallel branches finishing out of order
+ */
+
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPipelineLogger, STEP_REGISTRY } from '../src/lib/pipelineLogger';
+import { getRecentRunEvents } from '../src/lib/runEvents';
+
+const TOTAL = Object.keys(STEP_REGISTRY).length;
+
+function startRegistryStep(logger: ReturnType<typeof createPipelineLogger>, stepKey: string): string {
+    const { name, order } = STEP_REGISTRY[stepKey];
+    return logger.startStep({ name, order, stepKey });
+}
+
+describe('PipelineLogger progress', () => {
+    it('counts finished steps, not the highest step order', () => {
+        const logger = createPipelineLogger('run_progress', 'gaza ceasefire talks');
+        const search = startRegistryStep(logger, 'step2_search');
+        const transcribe = startRegistryStep(logger, 'step8_transcribe');
+
+        // The video branch finishes first while the article branch is still running
+        logger.endStep(transcribe, { videos: [] });
+        const afterTranscribe = getRecentRunEvents('run_progress').filter(event => event.type === 'step_end');
+        assert.equal(afterTranscribe[0].progress, Math.round(100 / TOTAL));
+
+        logger.endStep(search, { results: [] });
+        const skipped = startRegistryStep(logger, 'step7_videos');
+        logger.skipStep(skipped, 'Not part of the profile');
+
+        const progress = getRecentRunEvents('run_progress')
+            .filter(event => event.type === 'step_end' || event.type === 'step_skip')
+            .map(event => event.progress);
+        assert.deepEqual(progress, [1, 2, 3].map(done => Math.round((done / TOTAL) * 100)));
+    });
+
+    it('does not count a re-run step twice', () => {
+        const logger = createPipelineLogger('run_rerun', 'gaza ceasefire talks');
+        logger.endStep(startRegistryStep(logger, 'step1_keywords'), {});
+        logger.endStep(startRegistryStep(logger, 'step1_keywords'), {});
+
+        const last = getRecentRunEvents('run_rerun').filter(event => event.type === 'step_end').pop();
+        assert.equal(last?.progress, Math.round(100 / TOTAL));
+    });
+
+    it('reaches 100 when the run completes', () => {
+        const logger = createPipelineLogger('run_done', 'gaza ceasefire talks');
+        logger.endStep(startRegistryStep(logger, 'step13_report'), {});
+
+        assert.equal(logger.endRun('completed').progress, 100);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * promptRegistry.test.ts
+ * Prompt versions, A/B assignment by run ID and the versions a run records
+ */
+
+import './setup';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setProviders, resetProviders } from '../src/lib/providers';
+import { InMemoryDocumentStore } from '../src/lib/fakeProviders';
+import { createPipelineLogger, STEP_REGISTRY } from '../src/lib/pipelineLogger';
+import { runInStepContext } from '../src/lib/stepContext';
+import {
+    definePrompt, renderPrompt, savePromptExperiments, recordExperimentRun, getExperimentResults, PromptConfigError
+} from '../src/lib/promptRegistry';
+
+const PROMPT = definePrompt('test.keywords', {
+    v1: { user: 'Keywords for {{topic}}' },
+    v2: { system: 'You pick news search keywords.', user: 'Suggest keywords for: {{topic}}' }
+});
+
+// Render as the given run's step5_summarize would
+function renderInRun(runId: string, stepId = 'step_5_test') {
+    return runInStepContext({ runId, stepId, stepKey: 'step5_summarize' }, () => renderPrompt(PROMPT, { topic: 'ceasefire talks' }));
+}
+
+describe('prompt registry', () => {
+    before(async () => {
+        setProviders({ documents: new InMemoryDocumentStore() });
+        await savePromptExperiments({
+            experiments: [{ name: 'keywords-ab', prompt: 'test.keywords', variants: [{ version: 'v1', weight: 1 }, { version: 'v2', weight: 1 }] }]
+        });
+    });
+
+    after(() => {
+        resetProviders();
+    });
+
+    it('renders the last version outside a run', async () => {
+        const rendered = await renderPrompt(PROMPT, { topic: 'ceasefire talks' });
+
+        assert.deepEqual(rendered, {
+            name: 'test.keywords',
+            version: 'v2',
+            system: 'You pick news search keywords.',
+            user: 'Suggest keywords for: ceasefire talks'
+        });
+        await assert.rejects(renderPrompt(PROMPT, {}), /test\.keywords@v2: missing variable\(s\) topic/);
+    });
+
+    it('rejects experiments on versions that do not exist', async () => {
+        await assert.rejects(
+            savePromptExperiments({ experiments: [{ name: 'bad', prompt: 'test.keywords', variants: [{ version: 'v1', weight: 1 }, { version: 'v3', weight: 1 }] }] }),
+            (error: unknown) => error instanceof PromptConfigError && /variants\[1\]\.version: must be one of v1, v2/.test(error.message)
+        );
+    });
+
+    it('splits runs between variants and keeps each run on one', async () => {
+        const versions: string[] = [];
+        for (let i = 0; i < 100; i++) {
+            const first = await renderInRun(`report_ab_${i}`);
+            const again = await renderInRun(`report_ab_${i}`);
+            assert.equal(again.version, first.version);
+            assert.equal(first.experiment, 'keywords-ab');
+            versions.push(first.version);
+        }
+
+        const v1Share = versions.filter(version => version === 'v1').length / versions.length;
+        assert.ok(v1Share > 0.3 && v1Share < 0.7, `v1 got ${v1Share} of the runs`);
+    });
+
+    it('records the version used on the step and the run summary', async () => {
+        const logger = createPipelineLogger('report_prompt_versions', 'ceasefire talks');
+        const { name, order } = STEP_REGISTRY.step5_summarize;
+        const stepId = logger.startStep({ name, order, stepKey: 'step5_summarize' });
+
+        const rendered = await renderInRun('report_prompt_versions', stepId);
+
+        const run = logger.getFullSnapshot();
+        assert.deepEqual(run.summary.promptVersions, { 'test.keywords': rendered.version });
+        assert.deepEqual(run.summary.promptExperiments, { 'keywords-ab': rendered.version });
+        assert.deepEqual(logger.getStepDetails(stepId)?.prompts, [{ prompt: 'test.keywords', version: rendered.version, experiment: 'keywords-ab' }]);
+    });
+
+    it('compares the grades of completed runs per variant', async () => {
+        await recordExperimentRun('report_a', { 'keywords-ab': 'v1' }, { grade: 'A', metrics: { needs_human_review: false } });
+        await recordExperimentRun('report_b', { 'keywords-ab': 'v1' }, { grade: 'C', metrics: { needs_human_review: true } });
+        await recordExperimentRun('report_c', { 'keywords-ab': 'v2' }, { grade: 'B' });
+
+        const [results] = await getExperimentResults('keywords-ab');
+
+        assert.deepEqual(results.variants.map(({ version, runs, averageGrade, humanReviewRate }) => ({ version, runs, averageGrade, humanReviewRate })), [
+            { version: 'v1', runs: 2, averageGrade: 3, humanReviewRate: 0.5 },
+            { version: 'v2', runs: 1, averageGrade: 3, humanReviewRate: null }
+        ]);
+    });
+});
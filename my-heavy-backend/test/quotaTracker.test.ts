@@ -0,0 +1,81 @@
+/**
+ * quotaTracker.test.ts
+ * Request budgets with the default limits - per model, shared per provider, and
+ * blocks after provider-reported rate limits
+ */
+
+import './setup';
+import fs from 'fs';
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkQuota, recordRequest, reportRateLimit, reportQuotaExhausted, getQuotaStatus } from '../src/lib/quotaTracker';
+
+const statusOf = (key: string) => getQuotaStatus().find(status => status.key === key);
+
+describe('quota tracker', () => {
+    before(() => {
+        // Counters a previous process saved today (read on first use)
+        fs.writeFileSync(process.env.QUOTA_STORE_PATH!, JSON.stringify({
+            version: 1,
+            date: new Date().toISOString().slice(0, 10),
+            daily: { 'gemini/gemini-2.0-flash': 1500 },
+            recent: {},
+            blockedUntil: {}
+        }));
+    });
+
+    it('keeps the daily spend saved by a previous process', () => {
+        const check = checkQuota('gemini', 'gemini-2.0-flash');
+
+        assert.equal(check.allowed, false);
+        assert.match(check.reason!, /daily budget used \(1500\/day\)/);
+        assert.deepEqual(statusOf('gemini/gemini-2.0-flash')?.perDay, { limit: 1500, used: 1500, remaining: 0 });
+    });
+
+    it('skips a model once its per-minute budget is used', () => {
+        for (let i = 0; i < 30; i++) {
+            assert.equal(checkQuota('groq', 'gemma2-9b-it').allowed, true);
+            recordRequest('groq', 'gemma2-9b-it');
+        }
+
+        const check = checkQuota('groq', 'gemma2-9b-it');
+        assert.equal(check.allowed, false);
+        assert.match(check.reason!, /per-minute budget used \(30\/min\)/);
+        // Other Groq models have their own budget
+        assert.equal(checkQuota('groq', 'llama-3.1-8b-instant').allowed, true);
+    });
+
+    it('shares a provider budget across its models', () => {
+        for (let i = 0; i < 20; i++) {
+            recordRequest('openrouter', i % 2 ? 'qwen/qwen-2.5-72b-instruct:free' : 'mistralai/mistral-nemo:free');
+        }
+
+        const check = checkQuota('openrouter', 'deepseek/deepseek-r1:free');
+        assert.equal(check.allowed, false);
+        assert.match(check.reason!, /^openrouter per-minute budget used/);
+        assert.equal(statusOf('openrouter')?.perDay?.used, 20);
+    });
+
+    it('blocks a rate-limited model until its cooldown ends', async () => {
+        reportRateLimit('groq', 'llama-3.3-70b-versatile', 50);
+
+        assert.equal(checkQuota('groq', 'llama-3.3-70b-versatile').allowed, false);
+        assert.ok(statusOf('groq/llama-3.3-70b-versatile')?.blockedUntil);
+        assert.equal(checkQuota('groq', 'llama-3.1-8b-instant').allowed, true);
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+
+        assert.equal(checkQuota('groq', 'llama-3.3-70b-versatile').allowed, true);
+        assert.equal(statusOf('groq/llama-3.3-70b-versatile')?.blockedUntil, undefined);
+    });
+
+    it('blocks every model of a provider whose quota is exhausted until the next UTC day', () => {
+        reportQuotaExhausted('local');
+
+        const check = checkQuota('local', 'llama3.1:8b');
+        assert.equal(check.allowed, false);
+        const tomorrow = new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000;
+        assert.equal(check.reason, `local blocked after a provider limit error until ${new Date(tomorrow).toISOString()}`);
+        assert.equal(checkQuota('local', 'qwen2.5:7b').allowed, false);
+    });
+});
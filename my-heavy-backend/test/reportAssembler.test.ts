@@ -0,0 +1,126 @@
+/**
+ * reportAssembler.test.ts
+ * assembleReport - quality grade, report id and the Markdown report
+ */
+
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assembleReport, ReportInput } from '../src/lib/reportAssembler';
+import { CanonicalSource } from '../src/lib/groqNormalize';
+import { DeepAnalysis } from '../src/lib/groqDeepAnalysis';
+import { ContentIdeasResult } from '../src/lib/groqContentIdeas';
+
+const TOPIC = 'Gaza Ceasefire Talks';
+
+const source: CanonicalSource = {
+    id: 'article_1',
+    type: 'article',
+    title: 'Ceasefire talks resume',
+    url: 'https://news.example.com/ceasefire',
+    source: 'Example News',
+    summary: 'Negotiators met again in Cairo.',
+    date: '2025-01-01',
+    credibility: 'high',
+    keyFacts: ['Negotiators met again'],
+    relevanceScore: 0.9,
+    metadata: {}
+};
+
+const deepAnalysis: DeepAnalysis = {
+    topic: TOPIC,
+    generated_at: '2025-01-01T00:00:00Z',
+    key_facts: [{ fact: 'Negotiators met again in Cairo', source_ids: ['article_1'], verified: true }],
+    geopolitical_analysis: {
+        summary: 'Regional mediators are pushing for a phased deal.',
+        key_actors: [{ name: 'Egypt', role: 'Mediator', motivations: ['Border stability'] }],
+        power_dynamics: 'Mediators hold the agenda.',
+        regional_implications: 'A deal would ease pressure on neighbours.',
+        claims: [{ claim: 'Talks resumed', source_ids: ['article_1'] }]
+    },
+    islamic_perspective: {
+        disclaimer: 'General guidance only.',
+        ethical_considerations: ['Protect civilians'],
+        relevant_principles: ['Justice'],
+        community_impact: 'Relief for affected families.'
+    },
+    risk_matrix: [{ risk: 'Talks collapse', likelihood: 'medium', impact: 'high', mitigation: 'Keep channels open' }],
+    predictions: [{ scenario: 'Phased truce', timeframe: '1 month', probability: 'possible', basis: 'Mediator statements' }],
+    recommendations: [{ action: 'Share verified updates', target_audience: 'Youth', priority: 'high' }],
+    humanitarian_impact: {
+        affected_populations: ['Civilians in Gaza'],
+        immediate_needs: ['Food', 'Medical aid'],
+        long_term_concerns: ['Reconstruction']
+    },
+    quality_metrics: {
+        source_coverage: 1,
+        verified_claims: 1,
+        unverified_claims: 0,
+        confidence_grade: 'B',
+        needs_human_review: false
+    }
+};
+
+const contentIdeas: ContentIdeasResult = {
+    topic: TOPIC,
+    generated_at: '2025-01-01T00:00:00Z',
+    target_audience: '15-25',
+    content_ideas: [{
+        id: 'idea_1',
+        platform: 'carousel',
+        hook: 'What the ceasefire talks mean',
+        script: 'Here is where the talks stand.',
+        key_message: 'Talks resumed',
+        visual_style: 'Clean infographic',
+        sensitivity_level: 'cautious',
+        ethical_notes: ['Avoid graphic imagery'],
+        source_reference: 'article_1',
+        priority: 1,
+        call_to_action: 'Follow for updates',
+        hashtags: ['#gaza']
+    }],
+    stats: { total_ideas: 1, by_platform: { carousel: 1 }, high_priority_count: 1 }
+};
+
+const completeInput: ReportInput = {
+    topic: TOPIC,
+    sources: [source],
+    deep_analysis: deepAnalysis,
+    content_ideas: contentIdeas
+};
+
+describe('assembleReport', () => {
+    it('grades a complete report A', () => {
+        const report = assembleReport(completeInput);
+
+        assert.equal(report.quality_check.grade, 'A');
+        assert.equal(report.quality_check.schema_valid, true);
+        assert.equal(report.quality_check.sources_count, 1);
+        assert.equal(report.quality_check.claims_with_sources, 1);
+        assert.deepEqual(report.audit_log.warnings, []);
+        assert.match(report.report_id, /^gaza-ceasefire-talks_\d{4}-\d{2}-\d{2}$/);
+        assert.deepEqual(report.data.content_ideas, contentIdeas.content_ideas);
+    });
+
+    it('renders the sections into Markdown', () => {
+        const { formatted_report } = assembleReport(completeInput);
+
+        assert.ok(formatted_report.includes(TOPIC));
+        assert.ok(formatted_report.includes('Regional mediators are pushing for a phased deal.'));
+        assert.ok(formatted_report.includes('What the ceasefire talks mean'));
+    });
+
+    it('lowers the grade for each missing section', () => {
+        const report = assembleReport({
+            ...completeInput,
+            sources: [],
+            deep_analysis: { ...deepAnalysis, recommendations: [] }
+        });
+
+        // No sources: one issue and one empty section; no recommendations: one empty section
+        assert.equal(report.quality_check.grade, 'C');
+        assert.equal(report.quality_check.schema_valid, false);
+        assert.deepEqual(report.quality_check.empty_sections, ['sources', 'recommendations']);
+        assert.deepEqual(report.audit_log.warnings, ['No sources provided']);
+    });
+});
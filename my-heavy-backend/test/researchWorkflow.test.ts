@@ -0,0 +1,153 @@
+/**
+ * researchWorkflow.test.ts
+ * The full 13-step pipeline run offline against fakeProviders.ts
+ */
+
+import './setup';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeProviders, FakeProviders, DEFAULT_FAKE_LLM_RESPONSES } from '../src/lib/fakeProviders';
+import { resetProviders } from '../src/lib/providers';
+import { runResearchWorkflow } from '../src/lib/researchWorkflow';
+import { listCheckpointedSteps } from '../src/lib/checkpointStore';
+import { getRecentRunEvents } from '../src/lib/runEvents';
+import { resolveResearchProfile } from '../src/lib/researchProfiles';
+import { db } from '../src/lib/firebase';
+
+const TOPIC = 'gaza ceasefire talks';
+
+let fakes: FakeProviders;
+
+async function createReport(reportId: string): Promise<void> {
+    await db.collection('reports').doc(reportId).set({ topic: TOPIC, status: 'processing' });
+}
+
+describe('runResearchWorkflow', () => {
+    beforeEach(() => {
+        fakes = installFakeProviders();
+    });
+
+    afterEach(() => {
+        resetProviders();
+    });
+
+    it('completes and stores the report', async () => {
+        await createReport('report_ok');
+
+        const result = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_ok' });
+
+        assert.equal(result.success, true);
+        assert.ok(result.report);
+        const stored = fakes.documents.getDocument('reports/report_ok');
+        assert.equal(stored?.status, 'completed');
+        assert.equal(stored?.pipelineSummary.stepsRunning, 0);
+    });
+
+    it('lists the sources normalized in step 10 in the report', async () => {
+        await createReport('report_normalize');
+
+        const result = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_normalize' });
+
+        const normalize = result.pipeline.steps.find(step => step.stepKey === 'step10_normalize');
+        assert.equal(normalize?.status, 'success');
+        assert.ok(fakes.llm.callsFor('NORMALIZE').length > 0);
+        assert.ok(result.report?.data.sources.length);
+        assert.ok(result.report?.data.sources.every(source => source.credibility === 'high' && source.source === 'Example News'));
+    });
+
+    it('writes video queries from the article summaries', async () => {
+        await createReport('report_queries');
+
+        await runResearchWorkflow({ topic: TOPIC, reportId: 'report_queries' });
+
+        const [queries] = fakes.llm.callsFor('QUERIES');
+        assert.ok(queries.messages.some(message => message.content.includes('Ceasefire talks resume as aid access remains limited')));
+    });
+
+    it('publishes steps left out by the profile as skipped', async () => {
+        await createReport('report_quick');
+
+        const result = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_quick', profile: resolveResearchProfile('quick') });
+
+        assert.equal(result.success, true);
+        assert.equal(result.pipeline.summary.stepsRunning, 0);
+        const skipped = getRecentRunEvents('report_quick').filter(event => event.type === 'step_skip');
+        assert.deepEqual(skipped.map(event => event.stepKey).sort(), ['step6_queries', 'step7_videos', 'step8_transcribe']);
+        assert.ok(skipped.every(event => typeof event.progress === 'number'));
+    });
+
+    it('switches from Firecrawl to Jina when Firecrawl scrapes nothing', async () => {
+        await createReport('report_jina');
+        fakes.scrape.returnEmptyFor('scrapeFirecrawl');
+
+        const result = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_jina' });
+
+        assert.equal(result.success, true);
+        assert.deepEqual(fakes.scrape.calls.map(call => call.implementation), ['scrapeFirecrawl', 'scrapeJina']);
+        // Structuring ran on the Jina pages
+        assert.ok(fakes.llm.callsFor('STRUCTURE').length > 0);
+    });
+
+    it('switches from Tavily to Serper when Tavily finds nothing', async () => {
+        await createReport('report_serper');
+        fakes.search.returnEmptyFor('searchTavily');
+
+        const result = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_serper' });
+
+        assert.equal(result.success, true);
+        const implementations = fakes.search.calls.map(call => call.implementation);
+        assert.equal(implementations[0], 'searchTavily');
+        assert.ok(implementations.includes('searchSerper'));
+        // Serper's results were scraped
+        assert.ok(fakes.scrape.calls.length > 0);
+    });
+
+    it('falls through to NewsAPI when Tavily and Serper both find nothing', async () => {
+        await createReport('report_newsapi');
+        fakes.search.returnEmptyFor('searchTavily', 'searchSerper');
+
+        const result = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_newsapi' });
+
+        assert.equal(result.success, true);
+        assert.deepEqual(
+            Array.from(new Set(fakes.search.calls.map(call => call.implementation))),
+            ['searchTavily', 'searchSerper', 'searchNewsAPI']
+        );
+        assert.ok(fakes.scrape.calls.length > 0);
+    });
+
+    it('resumes a cancelled run from its checkpoints', async () => {
+        await createReport('report_resume');
+        const controller = new AbortController();
+        // Cancel while articles are being structured (step 4)
+        fakes.llm.respond('STRUCTURE', () => {
+            controller.abort();
+            return DEFAULT_FAKE_LLM_RESPONSES.STRUCTURE;
+        });
+
+        const cancelled = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_resume', signal: controller.signal });
+
+        assert.equal(cancelled.cancelled, true);
+        assert.equal(fakes.documents.getDocument('reports/report_resume')?.status, 'cancelled');
+        const checkpointed = await listCheckpointedSteps('report_resume');
+        assert.ok(checkpointed.includes('step1_keywords'));
+        assert.ok(checkpointed.includes('step3_scrape'));
+        assert.ok(!checkpointed.includes('step4_structure'));
+
+        fakes.llm.respond('STRUCTURE', DEFAULT_FAKE_LLM_RESPONSES.STRUCTURE);
+        const searches = fakes.search.calls.length;
+        const scrapes = fakes.scrape.calls.length;
+
+        const resumed = await runResearchWorkflow({ topic: TOPIC, reportId: 'report_resume', resume: true });
+
+        assert.equal(resumed.success, true);
+        assert.equal(fakes.documents.getDocument('reports/report_resume')?.status, 'completed');
+        // Search and scrape came back from checkpoints, structuring ran again
+        assert.equal(fakes.search.calls.length, searches);
+        assert.equal(fakes.scrape.calls.length, scrapes);
+        const restored = resumed.pipeline.steps.filter(step => step.meta.restoredFromCheckpoint).map(step => step.stepKey);
+        assert.ok(restored.includes('step1_keywords'));
+        assert.ok(restored.includes('step3_scrape'));
+        assert.ok(!restored.includes('step4_structure'));
+    });
+});
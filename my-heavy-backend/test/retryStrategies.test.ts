@@ -0,0 +1,34 @@
+/**
+ * retryStrategies.test.ts
+ * getNextAlternativeFunction - walking a step's ALTERNATIVE_FUNCTIONS
+ */
+
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextAlternativeFunction, ALTERNATIVE_FUNCTIONS } from '../src/lib/retryStrategies';
+import { SCRAPE_FUNCTIONS, SEARCH_FUNCTIONS, TRANSCRIBE_FUNCTIONS } from '../src/lib/alternativeFunctions';
+
+describe('getNextAlternativeFunction', () => {
+    it('walks the alternatives in priority order', () => {
+        assert.equal(getNextAlternativeFunction('step2_search')?.name, 'searchSerper');
+        assert.equal(getNextAlternativeFunction('step2_search', 'searchSerper')?.name, 'searchNewsAPI');
+        assert.equal(getNextAlternativeFunction('step2_search', 'searchNewsAPI'), null);
+    });
+
+    it('skips alternatives that are not implemented yet', () => {
+        assert.equal(getNextAlternativeFunction('step8_transcribe')?.name, 'extractFromDescription');
+        assert.equal(getNextAlternativeFunction('step7_videos'), null);
+        assert.equal(getNextAlternativeFunction('step11_analyze'), null);
+    });
+
+    it('has an implementation for every usable alternative', () => {
+        const implemented = { ...SCRAPE_FUNCTIONS, ...SEARCH_FUNCTIONS, ...TRANSCRIBE_FUNCTIONS };
+        const missing = Object.entries(ALTERNATIVE_FUNCTIONS)
+            .filter(([step]) => step !== 'step7_videos' && step !== 'step11_analyze')  // Defaults live in their own modules
+            .flatMap(([, alternatives]) => alternatives)
+            .filter(alternative => !alternative.unavailable && !(alternative.name in implemented))
+            .map(alternative => alternative.name);
+        assert.deepEqual(missing, []);
+    });
+});
@@ -0,0 +1,14 @@
+/**
+ * setup.ts
+ * Imported first by every test file, before any src module reads the environment
+ *
+ * Keeps test runs off the developer's real state: quota counters go to a temp
+ * file, and neither the LLM cache nor a cassette is used unless a test opts in.
+ */
+
+import os from 'os';
+import path from 'path';
+
+process.env.QUOTA_STORE_PATH = path.join(os.tmpdir(), `insight-test-quota-${process.pid}.json`);
+process.env.LLM_CACHE = 'false';
+process.env.CASSETTE_MODE = 'off';